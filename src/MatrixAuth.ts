@@ -1,4 +1,10 @@
+import { createServer } from "http";
+import { AddressInfo } from "net";
+
 import { MatrixClient } from "./MatrixClient";
+import { TokenRefreshCallback } from "./models/Tokens";
+import { LoginFlow, SSOLoginOptions } from "./models/Login";
+import { LogService } from "./logging/LogService";
 
 /**
  * Functions for interacting with Matrix prior to having an access token. Intended
@@ -22,9 +28,19 @@ export class MatrixAuth {
     /**
      * Generate a client with no access token so we can reuse the doRequest
      * logic already written.
+     * @param {string} accessToken The access token to use, if the request needs one.
+     */
+    private createTemplateClient(accessToken = ""): MatrixClient {
+        return new MatrixClient(this.homeserverUrl, accessToken);
+    }
+
+    /**
+     * Gets the login flows supported by the homeserver.
+     * @returns {Promise<LoginFlow[]>} Resolves to the supported login flows.
      */
-    private createTemplateClient(): MatrixClient {
-        return new MatrixClient(this.homeserverUrl, "");
+    public async getLoginFlows(): Promise<LoginFlow[]> {
+        const response = await this.createTemplateClient().doRequest("GET", "/_matrix/client/v3/login");
+        return response["flows"] ?? [];
     }
 
     /**
@@ -99,12 +115,19 @@ export class MatrixAuth {
      * Performs simple password login with the homeserver. The caller is
      * expected to confirm if the homeserver supports this login flow prior
      * to invocation.
+     *
+     * A refresh token is only requested if `onTokensRefreshed` is given, as the
+     * new tokens must be persisted to keep the session usable after a restart.
+     * If the homeserver issues one, the returned client will refresh its access
+     * token automatically when it expires, and `onTokensRefreshed` will be called
+     * with the new tokens.
      * @param {string} username The username (localpart or user ID) to log in with
      * @param {string} password The password for the account
      * @param {string} deviceName The name of the newly created device. Optional.
+     * @param {TokenRefreshCallback} onTokensRefreshed Called to persist the tokens after each refresh. Optional.
      * @returns {Promise<MatrixClient>} Resolves to a logged-in MatrixClient
      */
-    public async passwordLogin(username: string, password: string, deviceName?: string): Promise<MatrixClient> {
+    public async passwordLogin(username: string, password: string, deviceName?: string, onTokensRefreshed?: TokenRefreshCallback): Promise<MatrixClient> {
         const body = {
             type: "m.login.password",
             identifier: {
@@ -112,10 +135,115 @@ export class MatrixAuth {
                 user: username,
             },
             password: password,
-            initial_device_display_name: deviceName,
         };
+        return this.login(body, deviceName, onTokensRefreshed);
+    }
+
+    /**
+     * Logs in using a login token, such as one issued at the end of single sign-on. The
+     * caller is expected to confirm if the homeserver supports this login flow prior to
+     * invocation. A refresh token is requested as for `passwordLogin`.
+     * @param {string} loginToken The login token
+     * @param {string} deviceName The name of the newly created device. Optional.
+     * @param {TokenRefreshCallback} onTokensRefreshed Called to persist the tokens after each refresh. Optional.
+     * @returns {Promise<MatrixClient>} Resolves to a logged-in MatrixClient
+     */
+    public async tokenLogin(loginToken: string, deviceName?: string, onTokensRefreshed?: TokenRefreshCallback): Promise<MatrixClient> {
+        return this.login({ type: "m.login.token", token: loginToken }, deviceName, onTokensRefreshed);
+    }
+
+    /**
+     * Logs in using a JSON Web Token, for homeservers which support the `org.matrix.login.jwt`
+     * login type. A refresh token is requested as for `passwordLogin`.
+     * @param {string} jwt The signed JSON Web Token
+     * @param {string} deviceName The name of the newly created device. Optional.
+     * @param {TokenRefreshCallback} onTokensRefreshed Called to persist the tokens after each refresh. Optional.
+     * @returns {Promise<MatrixClient>} Resolves to a logged-in MatrixClient
+     */
+    public async jwtLogin(jwt: string, deviceName?: string, onTokensRefreshed?: TokenRefreshCallback): Promise<MatrixClient> {
+        return this.login({ type: "org.matrix.login.jwt", token: jwt }, deviceName, onTokensRefreshed);
+    }
+
+    /**
+     * Logs in as a user of an application service, creating a real device for the user. The
+     * user must be within the namespace of the application service. No refresh token is
+     * requested, as the application service can always log in again.
+     * @param {string} userId The user ID to log in as
+     * @param {string} asToken The application service's token
+     * @param {string} deviceName The name of the newly created device. Optional.
+     * @returns {Promise<MatrixClient>} Resolves to a logged-in MatrixClient
+     */
+    public async appserviceLogin(userId: string, asToken: string, deviceName?: string): Promise<MatrixClient> {
+        const body = {
+            type: "m.login.application_service",
+            identifier: {
+                type: "m.id.user",
+                user: userId,
+            },
+        };
+        return this.login(body, deviceName, null, asToken);
+    }
+
+    /**
+     * Runs the single sign-on redirect flow. A local HTTP server is started to receive the
+     * login token once the user has finished signing in, and the caller is responsible for
+     * getting the user to open the sign-on URL, such as by printing it or opening a browser.
+     * Intended for the interactive setup of bot accounts. A refresh token is requested as for
+     * `passwordLogin`.
+     * @param {Function} openUrl Called with the URL the user needs to open to sign in.
+     * @param {SSOLoginOptions} options The options for the login. Optional.
+     * @returns {Promise<MatrixClient>} Resolves to a logged-in MatrixClient
+     */
+    public async ssoLogin(openUrl: (url: string) => Promise<void> | void, options: SSOLoginOptions = {}): Promise<MatrixClient> {
+        const timeoutMs = options.timeoutMs ?? 5 * 60 * 1000;
+
+        let timer: NodeJS.Timeout;
+        let onLoginToken: (token: string) => void;
+        const loginToken = new Promise<string>((resolve, reject) => {
+            onLoginToken = resolve;
+            timer = setTimeout(() => reject(new Error(`Timed out waiting for single sign-on after ${timeoutMs}ms`)), timeoutMs);
+        });
+        loginToken.catch(() => {}); // handled once the sign-on URL has been opened
+
+        const server = createServer((req, res) => {
+            const token = new URL(req.url, "http://localhost").searchParams.get("loginToken");
+            if (!token) {
+                res.writeHead(400, { "Content-Type": "text/plain" });
+                res.end("Missing login token");
+                return;
+            }
+            res.writeHead(200, { "Content-Type": "text/plain" });
+            res.end("Signed in. You can close this window.");
+            onLoginToken(token);
+        });
+
+        try {
+            const bindAddress = options.bindAddress ?? "127.0.0.1";
+            await new Promise<void>((resolve, reject) => {
+                server.once("error", reject);
+                server.listen(options.port ?? 0, bindAddress, resolve);
+            });
+            const host = bindAddress.includes(":") ? `[${bindAddress}]` : bindAddress;
+            const redirectUrl = `http://${host}:${(<AddressInfo>server.address()).port}/`;
+
+            const idpPath = options.idpId ? `/${encodeURIComponent(options.idpId)}` : "";
+            const ssoUrl = `${this.homeserverUrl}/_matrix/client/v3/login/sso/redirect${idpPath}?redirectUrl=${encodeURIComponent(redirectUrl)}`;
+            LogService.info("MatrixAuth", `Waiting for single sign-on to redirect to ${redirectUrl}`);
+            await openUrl(ssoUrl);
+
+            return await this.tokenLogin(await loginToken, options.deviceName, options.onTokensRefreshed);
+        } finally {
+            clearTimeout(timer);
+            server.closeAllConnections();
+            server.close();
+        }
+    }
+
+    private async login(body: Record<string, unknown>, deviceName?: string, onTokensRefreshed?: TokenRefreshCallback, asToken?: string): Promise<MatrixClient> {
+        body = { ...body, initial_device_display_name: deviceName };
+        if (onTokensRefreshed) body["refresh_token"] = true;
 
-        const response = await this.createTemplateClient().doRequest("POST", "/_matrix/client/v3/login", null, body);
+        const response = await this.createTemplateClient(asToken).doRequest("POST", "/_matrix/client/v3/login", null, body);
         const accessToken = response["access_token"];
         if (!accessToken) throw new Error("Expected access token in response - got nothing");
 
@@ -124,6 +252,8 @@ export class MatrixAuth {
             homeserverUrl = response['well_known']['m.homeserver']['base_url'];
         }
 
-        return new MatrixClient(homeserverUrl, accessToken);
+        const client = new MatrixClient(homeserverUrl, accessToken);
+        if (response["refresh_token"]) client.setRefreshToken(response["refresh_token"], onTokensRefreshed);
+        return client;
     }
 }
@@ -1,28 +1,41 @@
 import { EventEmitter } from "events";
+import { createReadStream, promises as fs } from "fs";
+import { pipeline, Readable, Transform } from "stream";
 import { htmlEncode } from "htmlencode";
 import { htmlToText } from "html-to-text";
+import * as LRU from "lru-cache";
 
 import { IStorageProvider } from "./storage/IStorageProvider";
+import { IRoomStateStorageProvider } from "./storage/IRoomStateStorageProvider";
 import { MemoryStorageProvider } from "./storage/MemoryStorageProvider";
 import { IJoinRoomStrategy } from "./strategies/JoinRoomStrategy";
 import { UnstableApis } from "./UnstableApis";
 import { IPreprocessor } from "./preprocessors/IPreprocessor";
-import { getRequestFn } from "./request";
 import { extractRequestError, LogService } from "./logging/LogService";
 import { RichReply } from "./helpers/RichReply";
 import { Metrics } from "./metrics/Metrics";
 import { timedMatrixClientFunctionCall } from "./metrics/decorators";
+import { MatrixClientCallContext } from "./metrics/contexts";
+import { RequestScheduler } from "./RequestScheduler";
 import { AdminApis } from "./AdminApis";
 import { Presence } from "./models/Presence";
 import { Membership, MembershipEvent } from "./models/events/MembershipEvent";
 import { RoomEvent, RoomEventContent, StateEvent } from "./models/events/RoomEvent";
 import { EventContext } from "./models/EventContext";
+import { RoomMessagesOptions, RoomMessagesPage } from "./models/RoomMessages";
+import { ThreadsOptions, ThreadsPage } from "./models/Threads";
+import { SearchOptions, SearchResult, SearchResults } from "./models/Search";
+import { PublicRoom, PublicRoomsOptions, PublicRoomsPage, UserDirectoryResults } from "./models/Directory";
+import { ReactionSummary } from "./models/Reactions";
+import { ReactionEvent } from "./models/events/ReactionEvent";
+import { wrapRoomEvent } from "./models/events/converter";
 import { PowerLevelBounds } from "./models/PowerLevelBounds";
 import { EventKind } from "./models/events/EventKind";
 import { IdentityClient } from "./identity/IdentityClient";
 import { OpenIDConnectToken } from "./models/OpenIDConnect";
-import { doHttpRequest } from "./http";
-import { Space, SpaceCreateOptions } from "./models/Spaces";
+import { doHttpRequest, doHttpStreamRequest, getHttpTransport, HttpStreamResponse } from "./http";
+import { HttpTransportResponse } from "./transport/IHttpTransport";
+import { Space, SpaceCreateOptions, SpaceHierarchyOptions, SpaceHierarchyPage } from "./models/Spaces";
 import { PowerLevelAction } from "./models/PowerLevelAction";
 import { CryptoClient } from "./e2ee/CryptoClient";
 import {
@@ -43,11 +56,64 @@ import { RustSdkCryptoStorageProvider } from "./storage/RustSdkCryptoStorageProv
 import { DMs } from "./DMs";
 import { ServerVersions } from "./models/ServerVersions";
 import { RoomCreateOptions } from "./models/CreateRoom";
-import { PresenceState } from './models/events/PresenceEvent';
+import { RoomUpgradeOptions } from "./models/RoomUpgrade";
+import {
+    MediaConfig,
+    MediaDownloadRequest,
+    MediaDownloadStream,
+    MediaProgressCallback,
+    PendingMedia,
+    SendAudioOptions,
+    SendFileOptions,
+    SendImageOptions,
+    SendVideoOptions,
+    StreamDownloadOptions,
+    StreamUploadOptions,
+    ThumbnailMethod,
+    ThumbnailOptions,
+    UrlPreview,
+} from "./models/Media";
+import { PresenceEvent, PresenceState } from './models/events/PresenceEvent';
+import { TypingEvent } from "./models/events/TypingEvent";
+import { EncryptedFile, FileMessageEventContent, FileWithThumbnailInfo } from "./models/events/MessageEvent";
+import { ReceiptEvent, ReceiptType } from "./models/events/ReceiptEvent";
+import { ReadMarkers } from "./models/ReadMarkers";
+import { RoomTag, RoomTags } from "./models/RoomTags";
+import {
+    PushRule,
+    PushRuleAction,
+    PushRuleDefinition,
+    PushRuleKind,
+    PushRulePosition,
+    PushRules,
+} from "./models/PushRules";
+import { SlidingSyncConfig, SlidingSyncListConfig, SlidingSyncRoomConfig } from "./models/SlidingSync";
+import { MatrixError } from "./models/MatrixError";
+import { RefreshedTokens, TokenRefreshCallback } from "./models/Tokens";
 
 const SYNC_BACKOFF_MIN_MS = 5000;
 const SYNC_BACKOFF_MAX_MS = 15000;
 const VERSIONS_CACHE_MS = 7200000; // 2 hours
+const SLIDING_SYNC_ENDPOINT = "/_matrix/client/unstable/org.matrix.simplified_msc3575/sync";
+const SLIDING_SYNC_TOKEN_KEY = "msc4186_sync_token";
+const LAST_TIMELINE_EVENT_KEY_PREFIX = "timeline_last_event.";
+const OWN_RECEIPTS_KEY_PREFIX = "own_receipts.";
+const WIDGET_STATE_TYPES = ["m.widget", "im.vector.modular.widgets"];
+const AUTHENTICATED_MEDIA_VERSION = "v1.11";
+const AUTHENTICATED_MEDIA_FEATURE = "org.matrix.msc3916.stable";
+
+/**
+ * The key within an event's `unsigned` object which is set to true when the event was
+ * recovered from a gap in a limited sync timeline, rather than received live.
+ * @see MatrixClient#fillTimelineGaps
+ */
+export const BACKFILLED_EVENT_ANNOTATION_KEY = "io.t2bot.sdk.bot.backfilled";
+
+const DEFAULT_SLIDING_SYNC_LIST: SlidingSyncListConfig = {
+    ranges: [[0, 99]],
+    required_state: [["*", ""], ["m.room.member", "$ME"]],
+    timeline_limit: 10,
+};
 
 /**
  * A client that is capable of interacting with a matrix homeserver.
@@ -69,6 +135,42 @@ export class MatrixClient extends EventEmitter {
      */
     public syncingTimeout = 30000;
 
+    /**
+     * The room state store to use for this client, if any. When set, state events seen by the
+     * sync loop are recorded to the store and state lookups are answered from it before falling
+     * back to the homeserver.
+     *
+     * Set this before starting the client to ensure the initial sync populates the store.
+     */
+    public roomStateStore: IRoomStateStorageProvider = null;
+
+    /**
+     * The simplified sliding sync (MSC4186) configuration to use. When set, the client will sync
+     * using sliding sync instead of `/v3/sync`, though the same events are emitted. The sync
+     * position is stored separately from the `/v3/sync` token, allowing the mode to be changed
+     * between restarts.
+     *
+     * Must be set before the client is started. The homeserver must support MSC4186.
+     */
+    public slidingSync: SlidingSyncConfig | null = null;
+
+    /**
+     * Set this to true to have the client recover events skipped by limited sync timelines. When
+     * the homeserver omits events from a room's timeline, the client will paginate backwards until
+     * it reaches the last event it saw in that room, emitting the recovered events in order before
+     * the rest of the timeline. Recovered events have `unsigned[BACKFILLED_EVENT_ANNOTATION_KEY]`
+     * set to true.
+     *
+     * The last seen event for each room is persisted to the storage provider.
+     */
+    public fillTimelineGaps = false;
+
+    /**
+     * The maximum number of events to recover for a single gap in a room's timeline. Only used
+     * if `fillTimelineGaps` is enabled.
+     */
+    public timelineGapLimit = 500;
+
     /**
      * The crypto manager instance for this client. Generally speaking, this shouldn't
      * need to be accessed but is made available.
@@ -83,18 +185,27 @@ export class MatrixClient extends EventEmitter {
     public readonly dms: DMs;
 
     private userId: string;
+    private currentAccessToken: string;
+    private currentRefreshToken: string = null;
+    private currentTokenRefreshCallback: TokenRefreshCallback = null;
+    private pendingTokenRefresh: Promise<RefreshedTokens> = null;
     private requestId = 0;
     private lastJoinedRoomIds: string[] = [];
     private impersonatedUserId: string;
     private impersonatedDeviceId: string;
     private joinStrategy: IJoinRoomStrategy = null;
+    private requestScheduler: RequestScheduler = null;
     private eventProcessors: { [eventType: string]: IPreprocessor[] } = {};
     private filterId = 0;
     private stopSyncing = false;
+    private syncAbortController: AbortController = null;
     private metricsInstance: Metrics = new Metrics();
     private unstableApisInstance = new UnstableApis(this);
     private cachedVersions: ServerVersions;
     private versionsLastFetched = 0;
+    private lastTimelineEventIds = new Map<string, string>();
+    private threadRootCache = new LRU.LRUCache<string, any>({ max: 1000 }); // event ID => thread root event
+    private ownReceipts = new Map<string, Record<string, string>>(); // roomId => receipt key => event ID
 
     /**
      * Set this to true to have the client only persist the sync token after the sync
@@ -113,12 +224,14 @@ export class MatrixClient extends EventEmitter {
      */
     constructor(
         public readonly homeserverUrl: string,
-        public readonly accessToken: string,
+        accessToken: string,
         private storage: IStorageProvider = null,
         public readonly cryptoStore: ICryptoStorageProvider = null,
     ) {
         super();
 
+        this.currentAccessToken = accessToken;
+
         if (this.homeserverUrl.endsWith("/")) {
             this.homeserverUrl = this.homeserverUrl.substring(0, this.homeserverUrl.length - 1);
         }
@@ -149,6 +262,27 @@ export class MatrixClient extends EventEmitter {
         this.dms = new DMs(this);
     }
 
+    /**
+     * The access token for the homeserver. This changes when the access token is refreshed.
+     */
+    public get accessToken(): string {
+        return this.currentAccessToken;
+    }
+
+    /**
+     * The refresh token for the access token, if one was set.
+     */
+    public get refreshToken(): string {
+        return this.currentRefreshToken;
+    }
+
+    /**
+     * The callback persisting the tokens after each refresh of the access token, if one was set.
+     */
+    public get tokenRefreshCallback(): TokenRefreshCallback {
+        return this.currentTokenRefreshCallback;
+    }
+
     /**
      * The storage provider for this client. Direct access is usually not required.
      */
@@ -233,6 +367,65 @@ export class MatrixClient extends EventEmitter {
         this.joinStrategy = strategy;
     }
 
+    /**
+     * Sets the scheduler to send this client's requests through. The scheduler caps how many
+     * requests are in flight at once and retries rate limited requests. Note that a syncing
+     * client always has one (long-polling) request in flight.
+     * @param {RequestScheduler} scheduler The scheduler to use, or null to send requests immediately
+     */
+    public setRequestScheduler(scheduler: RequestScheduler): void {
+        this.requestScheduler = scheduler;
+    }
+
+    /**
+     * Sets the refresh token for this client's access token. When the homeserver reports that
+     * the access token has expired (a soft logout), the client will use the refresh token to get
+     * a new access token and then retry the failed request. Refresh tokens can only be used once,
+     * so the callback should persist the new tokens to be used after a restart.
+     * @param {string} refreshToken The refresh token, or null to disable refreshing.
+     * @param {TokenRefreshCallback} callback Called with the new tokens after each refresh. Optional.
+     */
+    public setRefreshToken(refreshToken: string | null, callback: TokenRefreshCallback = null): void {
+        this.currentRefreshToken = refreshToken;
+        this.currentTokenRefreshCallback = callback;
+    }
+
+    /**
+     * Uses the refresh token to get a new access token, replacing the current one. Requests which
+     * fail because the access token has expired will do this automatically.
+     * @returns {Promise<RefreshedTokens>} Resolves to the new tokens, once they have been persisted.
+     */
+    @timedMatrixClientFunctionCall()
+    public refreshAccessToken(): Promise<RefreshedTokens> {
+        if (!this.currentRefreshToken) return Promise.reject(new Error("No refresh token available"));
+
+        // A refresh token can only be used once, so concurrent requests need to share the refresh.
+        if (!this.pendingTokenRefresh) {
+            this.pendingTokenRefresh = this.doTokenRefresh().finally(() => {
+                this.pendingTokenRefresh = null;
+            });
+        }
+        return this.pendingTokenRefresh;
+    }
+
+    private async doTokenRefresh(): Promise<RefreshedTokens> {
+        // The refresh endpoint is called directly as the (expired) access token must not be sent.
+        const body = { refresh_token: this.currentRefreshToken };
+        const response = await doHttpRequest(this.homeserverUrl, "POST", "/_matrix/client/v3/refresh", null, body, {}, 60000);
+        const tokens: RefreshedTokens = {
+            accessToken: response["access_token"],
+            refreshToken: response["refresh_token"] ?? this.currentRefreshToken,
+            expiresInMs: response["expires_in_ms"],
+        };
+        if (!tokens.accessToken) throw new Error("Expected access token in response - got nothing");
+
+        this.currentAccessToken = tokens.accessToken;
+        this.currentRefreshToken = tokens.refreshToken;
+        LogService.info("MatrixClientLite", "Refreshed access token");
+        if (this.currentTokenRefreshCallback) await this.currentTokenRefreshCallback(tokens);
+        return tokens;
+    }
+
     /**
      * Adds a preprocessor to the event pipeline. When this client encounters an event, it
      * will try to run it through the preprocessors it can in the order they were added.
@@ -261,6 +454,17 @@ export class MatrixClient extends EventEmitter {
         return event;
     }
 
+    private async processEphemeralEvent(event: any): Promise<any> {
+        if (!event) return event;
+        if (!this.eventProcessors[event["type"]]) return event;
+
+        for (const processor of this.eventProcessors[event["type"]]) {
+            await processor.processEvent(event, this, EventKind.EphemeralEvent);
+        }
+
+        return event;
+    }
+
     /**
      * Retrieves the server's supported specification versions and unstable features.
      * @returns {Promise<ServerVersions>} Resolves to the server's supported versions.
@@ -407,6 +611,146 @@ export class MatrixClient extends EventEmitter {
         return this.doRequest("PUT", "/_matrix/client/v3/user/" + userId + "/rooms/" + roomId + "/account_data/" + eventType, null, content);
     }
 
+    /**
+     * Gets the tags of a room.
+     * @param {string} roomId The room to get the tags of.
+     * @returns {Promise<RoomTags>} Resolves to the tags of the room, keyed by tag name.
+     */
+    @timedMatrixClientFunctionCall()
+    public async getRoomTags(roomId: string): Promise<RoomTags> {
+        const userId = encodeURIComponent(await this.getUserId());
+        roomId = encodeURIComponent(roomId);
+        const res = await this.doRequest("GET", "/_matrix/client/v3/user/" + userId + "/rooms/" + roomId + "/tags");
+        return res['tags'] ?? {};
+    }
+
+    /**
+     * Adds a tag to a room, replacing the tag's content if the room already has it.
+     * @param {string} roomId The room to tag.
+     * @param {string} tag The tag to add, such as `m.favourite` or `u.work`.
+     * @param {RoomTag} content The content of the tag, such as its order. Optional.
+     * @returns {Promise<any>} Resolves when updated
+     */
+    @timedMatrixClientFunctionCall()
+    public async addRoomTag(roomId: string, tag: string, content: RoomTag = {}): Promise<any> {
+        const userId = encodeURIComponent(await this.getUserId());
+        roomId = encodeURIComponent(roomId);
+        tag = encodeURIComponent(tag);
+        return this.doRequest("PUT", "/_matrix/client/v3/user/" + userId + "/rooms/" + roomId + "/tags/" + tag, null, content);
+    }
+
+    /**
+     * Removes a tag from a room.
+     * @param {string} roomId The room to remove the tag from.
+     * @param {string} tag The tag to remove.
+     * @returns {Promise<any>} Resolves when updated
+     */
+    @timedMatrixClientFunctionCall()
+    public async removeRoomTag(roomId: string, tag: string): Promise<any> {
+        const userId = encodeURIComponent(await this.getUserId());
+        roomId = encodeURIComponent(roomId);
+        tag = encodeURIComponent(tag);
+        return this.doRequest("DELETE", "/_matrix/client/v3/user/" + userId + "/rooms/" + roomId + "/tags/" + tag);
+    }
+
+    /**
+     * Gets the push rules of the account.
+     * @returns {Promise<PushRules>} Resolves to the push rules.
+     */
+    @timedMatrixClientFunctionCall()
+    public async getPushRules(): Promise<PushRules> {
+        return this.doRequest("GET", "/_matrix/client/v3/pushrules/");
+    }
+
+    /**
+     * Gets a single push rule.
+     * @param {PushRuleKind} kind The kind of the rule.
+     * @param {string} ruleId The ID of the rule.
+     * @returns {Promise<PushRule>} Resolves to the push rule.
+     */
+    @timedMatrixClientFunctionCall()
+    public async getPushRule(kind: PushRuleKind, ruleId: string): Promise<PushRule> {
+        return this.doRequest("GET", pushRulePath(kind, ruleId));
+    }
+
+    /**
+     * Creates or replaces a user-defined push rule. Server-default rules cannot be replaced,
+     * though they can be enabled, disabled, or have their actions changed.
+     * @param {PushRuleKind} kind The kind of the rule.
+     * @param {string} ruleId The ID of the rule. For `room` and `sender` rules, this is the room
+     * ID or user ID respectively.
+     * @param {PushRuleDefinition} rule The definition of the rule.
+     * @param {PushRulePosition} position Where to insert a new rule relative to other user-defined
+     * rules of the same kind. Optional.
+     * @returns {Promise<any>} Resolves when updated
+     */
+    @timedMatrixClientFunctionCall()
+    public async setPushRule(kind: PushRuleKind, ruleId: string, rule: PushRuleDefinition, position: PushRulePosition = {}): Promise<any> {
+        const qs = {};
+        if (position.before) qs["before"] = position.before;
+        if (position.after) qs["after"] = position.after;
+        return this.doRequest("PUT", pushRulePath(kind, ruleId), qs, rule);
+    }
+
+    /**
+     * Deletes a user-defined push rule.
+     * @param {PushRuleKind} kind The kind of the rule.
+     * @param {string} ruleId The ID of the rule.
+     * @returns {Promise<any>} Resolves when updated
+     */
+    @timedMatrixClientFunctionCall()
+    public async deletePushRule(kind: PushRuleKind, ruleId: string): Promise<any> {
+        return this.doRequest("DELETE", pushRulePath(kind, ruleId));
+    }
+
+    /**
+     * Determines whether a push rule is enabled.
+     * @param {PushRuleKind} kind The kind of the rule.
+     * @param {string} ruleId The ID of the rule.
+     * @returns {Promise<boolean>} Resolves to true if the rule is enabled, false otherwise.
+     */
+    @timedMatrixClientFunctionCall()
+    public async isPushRuleEnabled(kind: PushRuleKind, ruleId: string): Promise<boolean> {
+        const res = await this.doRequest("GET", pushRulePath(kind, ruleId) + "/enabled");
+        return !!res['enabled'];
+    }
+
+    /**
+     * Enables or disables a push rule.
+     * @param {PushRuleKind} kind The kind of the rule.
+     * @param {string} ruleId The ID of the rule.
+     * @param {boolean} enabled Whether the rule should be enabled.
+     * @returns {Promise<any>} Resolves when updated
+     */
+    @timedMatrixClientFunctionCall()
+    public async setPushRuleEnabled(kind: PushRuleKind, ruleId: string, enabled: boolean): Promise<any> {
+        return this.doRequest("PUT", pushRulePath(kind, ruleId) + "/enabled", null, { enabled });
+    }
+
+    /**
+     * Gets the actions of a push rule.
+     * @param {PushRuleKind} kind The kind of the rule.
+     * @param {string} ruleId The ID of the rule.
+     * @returns {Promise<PushRuleAction[]>} Resolves to the actions of the rule.
+     */
+    @timedMatrixClientFunctionCall()
+    public async getPushRuleActions(kind: PushRuleKind, ruleId: string): Promise<PushRuleAction[]> {
+        const res = await this.doRequest("GET", pushRulePath(kind, ruleId) + "/actions");
+        return res['actions'] ?? [];
+    }
+
+    /**
+     * Sets the actions of a push rule. An empty list of actions stops the rule from notifying.
+     * @param {PushRuleKind} kind The kind of the rule.
+     * @param {string} ruleId The ID of the rule.
+     * @param {PushRuleAction[]} actions The new actions of the rule.
+     * @returns {Promise<any>} Resolves when updated
+     */
+    @timedMatrixClientFunctionCall()
+    public async setPushRuleActions(kind: PushRuleKind, ruleId: string, actions: PushRuleAction[]): Promise<any> {
+        return this.doRequest("PUT", pushRulePath(kind, ruleId) + "/actions", null, { actions });
+    }
+
     /**
      * Gets the presence information for the current user.
      * @returns {Promise<Presence>} Resolves to the presence status of the user.
@@ -516,6 +860,71 @@ export class MatrixClient extends EventEmitter {
         });
     }
 
+    /**
+     * Searches the user directory for users matching a search term. Which users are included
+     * in the directory depends on the homeserver's configuration, though it typically includes
+     * users who share a room with the client, and users in public rooms.
+     * @param {string} searchTerm The term to search for.
+     * @param {number} limit The maximum number of results to return.
+     * @returns {Promise<UserDirectoryResults>} Resolves to the matching users.
+     */
+    @timedMatrixClientFunctionCall()
+    public async searchUserDirectory(searchTerm: string, limit = 10): Promise<UserDirectoryResults> {
+        const res = await this.doRequest("POST", "/_matrix/client/v3/user_directory/search", null, {
+            search_term: searchTerm,
+            limit: limit,
+        });
+        return {
+            limited: !!res['limited'],
+            results: res['results'] ?? [],
+        };
+    }
+
+    /**
+     * Gets a page of the public room directory.
+     * @param {PublicRoomsOptions} opts The options for browsing the directory.
+     * @returns {Promise<PublicRoomsPage>} Resolves to the page of rooms.
+     * @see getPublicRooms
+     */
+    @timedMatrixClientFunctionCall()
+    public async getPublicRoomsPage(opts: PublicRoomsOptions = {}): Promise<PublicRoomsPage> {
+        const qs = opts.server ? { server: opts.server } : null;
+        const body = {};
+        if (opts.limit) body["limit"] = opts.limit;
+        if (opts.since) body["since"] = opts.since;
+        if (opts.includeAllNetworks) body["include_all_networks"] = true;
+        else if (opts.thirdPartyInstanceId) body["third_party_instance_id"] = opts.thirdPartyInstanceId;
+        if (opts.genericSearchTerm || opts.roomTypes) {
+            body["filter"] = {};
+            if (opts.genericSearchTerm) body["filter"]["generic_search_term"] = opts.genericSearchTerm;
+            if (opts.roomTypes) body["filter"]["room_types"] = opts.roomTypes;
+        }
+
+        const res = await this.doRequest("POST", "/_matrix/client/v3/publicRooms", qs, body);
+        return {
+            chunk: res['chunk'] ?? [],
+            nextBatch: res['next_batch'],
+            prevBatch: res['prev_batch'],
+            totalRoomCountEstimate: res['total_room_count_estimate'],
+        };
+    }
+
+    /**
+     * Iterates over the public room directory, requesting further pages as needed.
+     * @param {PublicRoomsOptions} opts The options for browsing the directory. The `limit`
+     * applies per page.
+     * @returns {AsyncGenerator<PublicRoom>} The rooms in the directory.
+     */
+    public async* getPublicRooms(opts: PublicRoomsOptions = {}): AsyncGenerator<PublicRoom> {
+        let since = opts.since;
+        while (true) {
+            const page = await this.getPublicRoomsPage({ ...opts, since });
+            yield* page.chunk;
+            if (!page.nextBatch) return;
+            since = page.nextBatch;
+        }
+    }
+
     /**
      * Resolves a room ID or alias to a room ID. If the given ID or alias looks like a room ID
      * already, it will be returned as-is. If the room ID or alias looks like a room alias, it
@@ -628,9 +1037,12 @@ export class MatrixClient extends EventEmitter {
 
     /**
      * Stops the client from syncing.
+     * @param {boolean} cancelPendingSync If true, a sync request in progress is cancelled instead of
+     * being waited for and processed. Useful for shutting down promptly. Defaults to false.
      */
-    public stop() {
+    public stop(cancelPendingSync = false) {
         this.stopSyncing = true;
+        if (cancelPendingSync) this.syncAbortController?.abort();
     }
 
     /**
@@ -658,6 +1070,12 @@ export class MatrixClient extends EventEmitter {
             LogService.info("MatrixClientLite", "End-to-end encryption enabled");
         }
 
+        if (this.slidingSync) {
+            if (filter) LogService.warn("MatrixClientLite", "Filters are not supported by sliding sync - ignoring filter");
+            LogService.trace("MatrixClientLite", "Starting simplified sliding sync");
+            return this.startSyncInternal();
+        }
+
         let createFilter = false;
 
         // noinspection ES6RedundantAwait
@@ -697,8 +1115,7 @@ export class MatrixClient extends EventEmitter {
     }
 
     protected async startSync(emitFn: (emitEventType: string, ...payload: any[]) => Promise<any> = null) {
-        // noinspection ES6RedundantAwait
-        let token = await Promise.resolve(this.storage.getSyncToken());
+        let token = await this.getStoredSyncToken();
 
         const promiseWhile = async () => {
             if (this.stopSyncing) {
@@ -707,18 +1124,19 @@ export class MatrixClient extends EventEmitter {
             }
 
             try {
-                const response = await this.doSync(token);
+                this.syncAbortController = new AbortController();
+                const response = await this.doSync(token, this.syncAbortController.signal);
                 token = response["next_batch"];
 
                 if (!this.persistTokenAfterSync) {
-                    await Promise.resolve(this.storage.setSyncToken(token));
+                    await this.setStoredSyncToken(token);
                 }
 
                 LogService.debug("MatrixClientLite", "Received sync. Next token: " + token);
                 await this.processSync(response, emitFn);
 
                 if (this.persistTokenAfterSync) {
-                    await Promise.resolve(this.storage.setSyncToken(token));
+                    await this.setStoredSyncToken(token);
                 }
             } catch (e) {
                 // If we've requested to stop syncing, don't bother checking the error.
@@ -739,8 +1157,29 @@ export class MatrixClient extends EventEmitter {
         promiseWhile(); // start the loop
     }
 
+    private async getStoredSyncToken(): Promise<string | null> {
+        if (this.slidingSync) {
+            // noinspection ES6RedundantAwait
+            return (await Promise.resolve(this.storage.readValue(SLIDING_SYNC_TOKEN_KEY))) ?? null;
+        }
+        // noinspection ES6RedundantAwait
+        return Promise.resolve(this.storage.getSyncToken());
+    }
+
+    private async setStoredSyncToken(token: string): Promise<void> {
+        if (this.slidingSync) {
+            // noinspection ES6RedundantAwait
+            await Promise.resolve(this.storage.storeValue(SLIDING_SYNC_TOKEN_KEY, token));
+        } else {
+            // noinspection ES6RedundantAwait
+            await Promise.resolve(this.storage.setSyncToken(token));
+        }
+    }
+
     @timedMatrixClientFunctionCall()
-    protected doSync(token: string): Promise<any> {
+    protected doSync(token: string, signal: AbortSignal = null): Promise<any> {
+        if (this.slidingSync) return this.doSlidingSync(token, signal);
+
         LogService.debug("MatrixClientLite", "Performing sync with token " + token);
         const conf = {
             full_state: false,
@@ -752,7 +1191,117 @@ export class MatrixClient extends EventEmitter {
         if (this.syncingPresence) conf['presence'] = this.syncingPresence;
 
         // timeout is 40s if we have a token, otherwise 10min
-        return this.doRequest("GET", "/_matrix/client/v3/sync", conf, null, (token ? 40000 : 600000));
+        return this.doRequest("GET", "/_matrix/client/v3/sync", conf, null, (token ? 40000 : 600000), false, "application/json", false, signal);
+    }
+
+    /**
+     * Performs a simplified sliding sync request, returning the response converted to the shape
+     * of a `/v3/sync` response. The token is an opaque value tracking the sliding sync position
+     * and extension tokens, as produced in the `next_batch` of a previous response.
+     * @param {string} token The token from the previous sync, or null to start a new session.
+     * @param {AbortSignal} signal A signal to cancel the request with. Optional.
+     * @returns {Promise<any>} Resolves to the converted sync response.
+     */
+    private async doSlidingSync(token: string, signal: AbortSignal = null): Promise<any> {
+        LogService.debug("MatrixClientLite", "Performing sliding sync with token " + token);
+        const tokens: { pos?: string, to_device?: string } = token ? JSON.parse(token) : {};
+
+        const lists = this.slidingSync.lists ?? { all: DEFAULT_SLIDING_SYNC_LIST };
+        const subscriptions = this.slidingSync.room_subscriptions ?? {};
+        const request = {
+            lists: Object.fromEntries(Object.entries(lists).map(([k, v]) => [k, withOwnMembership(v)])),
+            room_subscriptions: Object.fromEntries(Object.entries(subscriptions).map(([k, v]) => [k, withOwnMembership(v)])),
+            extensions: {
+                account_data: { enabled: true },
+                to_device: { enabled: !!this.crypto, since: tokens.to_device },
+                e2ee: { enabled: !!this.crypto },
+                typing: { enabled: true },
+                receipts: { enabled: true },
+            },
+        };
+
+        const qs = { timeout: Math.max(0, this.syncingTimeout) };
+        if (tokens.pos) qs["pos"] = tokens.pos;
+        if (this.syncingPresence) qs["set_presence"] = this.syncingPresence;
+
+        let response: any;
+        try {
+            // timeout is 40s if we have a position, otherwise 10min
+            response = await this.doRequest("POST", SLIDING_SYNC_ENDPOINT, qs, request, (tokens.pos ? 40000 : 600000), false, "application/json", false, signal);
+        } catch (e) {
+            if (tokens.pos && e instanceof MatrixError && e.errcode === "M_UNKNOWN_POS") {
+                LogService.warn("MatrixClientLite", "Sliding sync position expired - starting a new session");
+                return this.doSlidingSync(JSON.stringify({ to_device: tokens.to_device }), signal);
+            }
+            throw e;
+        }
+
+        const userId = await this.getUserId();
+        const extensions = response['extensions'] ?? {};
+        const roomAccountData = extensions['account_data']?.['rooms'] ?? {};
+        const roomEphemeral: Record<string, any[]> = {};
+        for (const ext of ["typing", "receipts"]) {
+            for (const [roomId, event] of Object.entries(extensions[ext]?.['rooms'] ?? {})) {
+                if (!roomEphemeral[roomId]) roomEphemeral[roomId] = [];
+                roomEphemeral[roomId].push(event);
+            }
+        }
+        const rooms = { join: {}, invite: {}, leave: {}, knock: {} };
+        for (const [roomId, room] of Object.entries<any>(response['rooms'] ?? {})) {
+            const strippedState: any[] = room['invite_state'] ?? room['stripped_state'];
+            if (strippedState) {
+                const member = strippedState.find(e => e['type'] === "m.room.member" && e['state_key'] === userId);
+                const strippedMembership = member?.['content']?.['membership'];
+                if (strippedMembership === "invite") {
+                    rooms.invite[roomId] = { invite_state: { events: strippedState } };
+                } else if (strippedMembership === "knock") {
+                    rooms.knock[roomId] = { knock_state: { events: strippedState } };
+                }
+                continue;
+            }
+
+            const requiredState: any[] = room['required_state'] ?? [];
+            const timeline: any[] = room['timeline'] ?? [];
+            const isOwnMember = (e: any) => e['type'] === "m.room.member" && e['state_key'] === userId;
+            const membershipEvent = requiredState.find(isOwnMember) ?? timeline.filter(isOwnMember).pop();
+            const membership = membershipEvent?.['content']?.['membership'];
+
+            if (membership === "leave" || membership === "ban") {
+                const inTimeline = timeline.some(e => e === membershipEvent || e['event_id'] === membershipEvent['event_id']);
+                const events = inTimeline ? timeline : [...timeline, membershipEvent];
+                rooms.leave[roomId] = {
+                    timeline: { events },
+                    account_data: { events: roomAccountData[roomId] ?? [] },
+                };
+            } else {
+                rooms.join[roomId] = {
+                    state: { events: requiredState },
+                    timeline: { events: timeline, limited: !!room['limited'], prev_batch: room['prev_batch'] },
+                    account_data: { events: roomAccountData[roomId] ?? [] },
+                    ephemeral: { events: roomEphemeral[roomId] ?? [] },
+                };
+            }
+        }
+        for (const roomId of new Set([...Object.keys(roomAccountData), ...Object.keys(roomEphemeral)])) {
+            if (rooms.join[roomId] || rooms.leave[roomId] || rooms.invite[roomId] || rooms.knock[roomId]) continue;
+            rooms.join[roomId] = {
+                account_data: { events: roomAccountData[roomId] ?? [] },
+                ephemeral: { events: roomEphemeral[roomId] ?? [] },
+            };
+        }
+
+        return {
+            next_batch: JSON.stringify({
+                pos: response['pos'],
+                to_device: extensions['to_device']?.['next_batch'] ?? tokens.to_device,
+            }),
+            account_data: { events: extensions['account_data']?.['global'] ?? [] },
+            to_device: { events: extensions['to_device']?.['events'] ?? [] },
+            device_lists: extensions['e2ee']?.['device_lists'],
+            device_one_time_keys_count: extensions['e2ee']?.['device_one_time_keys_count'],
+            device_unused_fallback_key_types: extensions['e2ee']?.['device_unused_fallback_key_types'],
+            rooms,
+        };
     }
 
     @timedMatrixClientFunctionCall()
@@ -791,10 +1340,20 @@ export class MatrixClient extends EventEmitter {
             }
         }
 
+        if (raw['presence']?.['events']) {
+            for (let event of raw['presence']['events']) {
+                event = await this.processEphemeralEvent(event);
+                if (event['type'] === "m.presence") {
+                    await emitFn("presence", new PresenceEvent(event));
+                }
+            }
+        }
+
         if (!raw['rooms']) return; // nothing more to process
 
         const leftRooms = raw['rooms']['leave'] || {};
         const inviteRooms = raw['rooms']['invite'] || {};
+        const knockRooms = raw['rooms']['knock'] || {};
         const joinedRooms = raw['rooms']['join'] || {};
 
         // Process rooms we've left first
@@ -829,6 +1388,11 @@ export class MatrixClient extends EventEmitter {
                 continue;
             }
 
+            if (this.roomStateStore) {
+                // noinspection ES6RedundantAwait
+                await Promise.resolve(this.roomStateStore.clearRoomState(roomId));
+            }
+
             leaveEvent = await this.processEvent(leaveEvent);
             await emitFn("room.leave", roomId, leaveEvent);
             this.lastJoinedRoomIds = this.lastJoinedRoomIds.filter(r => r !== roomId);
@@ -862,6 +1426,24 @@ export class MatrixClient extends EventEmitter {
             await emitFn("room.invite", roomId, inviteEvent);
         }
 
+        // Process rooms we've knocked on
+        for (const roomId in knockRooms) {
+            const room = knockRooms[roomId];
+            const userId = await this.getUserId();
+            const knockEvent = (room['knock_state']?.['events'] ?? []).find(e => {
+                return e['type'] === 'm.room.member'
+                    && e['state_key'] === userId
+                    && e['content']?.['membership'] === "knock";
+            });
+
+            if (!knockEvent) {
+                LogService.warn("MatrixClientLite", "Knocked on room " + roomId + " without receiving an event");
+                continue;
+            }
+
+            await emitFn("room.knock", roomId, await this.processEvent(knockEvent));
+        }
+
         // Process rooms we've joined and their events
         for (const roomId in joinedRooms) {
             const room = joinedRooms[roomId];
@@ -872,9 +1454,27 @@ export class MatrixClient extends EventEmitter {
                 }
             }
 
-            if (!room['timeline'] || !room['timeline']['events']) continue;
+            if (this.roomStateStore && room['state']?.['events']) {
+                for (const event of room['state']['events']) {
+                    await this.storeRoomStateEvent(roomId, event);
+                }
+            }
+
+            let timelineEvents: any[] = room['timeline']?.['events'] ?? [];
+            if (this.fillTimelineGaps && room['timeline']?.['limited'] && room['timeline']['prev_batch']) {
+                const recovered = await this.fetchTimelineGap(roomId, room['timeline']['prev_batch']);
+                timelineEvents = [...recovered, ...timelineEvents];
+            }
+
+            const seenEvents = new Map<string, any>();
+            for (let event of timelineEvents) {
+                const backfilled = !!event['unsigned']?.[BACKFILLED_EVENT_ANNOTATION_KEY];
+
+                // Recovered state is older than the state block, so should not replace it.
+                if (this.roomStateStore && !backfilled) {
+                    await this.storeRoomStateEvent(roomId, event);
+                }
 
-            for (let event of room['timeline']['events']) {
                 if (event['type'] === "m.room.member" && event['state_key'] === await this.getUserId()) {
                     if (event['content']?.['membership'] === "join" && this.lastJoinedRoomIds.indexOf(roomId) === -1) {
                         await emitFn("room.join", roomId, await this.processEvent(event));
@@ -904,9 +1504,137 @@ export class MatrixClient extends EventEmitter {
                     && event['content']['predecessor'] && event['content']['predecessor']['room_id']) {
                     await emitFn("room.upgraded", roomId, event);
                 }
+                const threadRootId = getThreadRootId(event);
+                if (threadRootId) {
+                    const threadRoot = seenEvents.get(threadRootId)
+                        ?? this.threadRootCache.get(threadRootId)
+                        ?? await this.getThreadRoot(roomId, threadRootId);
+                    if (threadRoot) {
+                        this.threadRootCache.set(threadRootId, threadRoot);
+                        await emitFn("room.thread_event", roomId, event, threadRoot);
+                    }
+                }
                 await emitFn("room.event", roomId, event);
+                if (event['event_id']) seenEvents.set(event['event_id'], event);
+            }
+
+            if (this.fillTimelineGaps) {
+                const lastEvent = timelineEvents.filter(e => !!e['event_id']).pop();
+                if (lastEvent) await this.setLastTimelineEventId(roomId, lastEvent['event_id']);
+            }
+
+            for (let event of room['ephemeral']?.['events'] ?? []) {
+                event = await this.processEphemeralEvent(event);
+                if (event['type'] === "m.typing") {
+                    await emitFn("room.typing", roomId, new TypingEvent(event));
+                } else if (event['type'] === "m.receipt") {
+                    const receiptEvent = new ReceiptEvent(event);
+                    await this.recordOwnReceipts(roomId, receiptEvent);
+                    await emitFn("room.receipt", roomId, receiptEvent);
+                }
+            }
+        }
+    }
+
+    private async getThreadRoot(roomId: string, eventId: string): Promise<any> {
+        try {
+            return await this.getEvent(roomId, eventId);
+        } catch (e) {
+            LogService.warn("MatrixClientLite", `Unable to get thread root ${eventId} in ${roomId}:`, extractRequestError(e));
+            return null;
+        }
+    }
+
+    /**
+     * Paginates backwards from the given token until the last seen event in the room is found,
+     * returning the events in between in chronological order. Returns an empty array if the room
+     * has no last seen event or the gap could not be filled.
+     * @param {string} roomId The room ID to recover events in.
+     * @param {string} fromToken The `prev_batch` token of the limited timeline.
+     * @returns {Promise<any[]>} Resolves to the recovered events, annotated as backfilled.
+     */
+    private async fetchTimelineGap(roomId: string, fromToken: string): Promise<any[]> {
+        const lastEventId = await this.getLastTimelineEventId(roomId);
+        if (!lastEventId) return [];
+
+        const recovered = [];
+        let found = false;
+        try {
+            let from = fromToken;
+            while (!found && recovered.length < this.timelineGapLimit) {
+                const res = await this.doRequest("GET", "/_matrix/client/v3/rooms/" + encodeURIComponent(roomId) + "/messages", {
+                    dir: "b",
+                    from: from,
+                    limit: Math.min(100, this.timelineGapLimit - recovered.length),
+                });
+                const chunk: any[] = res['chunk'] ?? [];
+                for (const event of chunk) {
+                    if (event['event_id'] === lastEventId) {
+                        found = true;
+                        break;
+                    }
+                    recovered.push(event);
+                }
+                if (!res['end'] || chunk.length === 0) break;
+                from = res['end'];
             }
+        } catch (e) {
+            LogService.error("MatrixClientLite", `Error filling timeline gap in ${roomId}:`, extractRequestError(e));
+        }
+
+        if (!found) {
+            LogService.warn("MatrixClientLite", `Could not find the last seen event in ${roomId} - some events may have been missed`);
+        }
+
+        return recovered.reverse().map(e => ({
+            ...e,
+            unsigned: { ...e['unsigned'], [BACKFILLED_EVENT_ANNOTATION_KEY]: true },
+        }));
+    }
+
+    private async getLastTimelineEventId(roomId: string): Promise<string | null> {
+        if (!this.lastTimelineEventIds.has(roomId)) {
+            // noinspection ES6RedundantAwait
+            const stored = await Promise.resolve(this.storage.readValue(LAST_TIMELINE_EVENT_KEY_PREFIX + roomId));
+            if (stored) this.lastTimelineEventIds.set(roomId, stored);
+        }
+        return this.lastTimelineEventIds.get(roomId) ?? null;
+    }
+
+    private async setLastTimelineEventId(roomId: string, eventId: string): Promise<void> {
+        if (this.lastTimelineEventIds.get(roomId) === eventId) return;
+        this.lastTimelineEventIds.set(roomId, eventId);
+        // noinspection ES6RedundantAwait
+        await Promise.resolve(this.storage.storeValue(LAST_TIMELINE_EVENT_KEY_PREFIX + roomId, eventId));
+    }
+
+    private async recordOwnReceipts(roomId: string, event: ReceiptEvent): Promise<void> {
+        const userId = await this.getUserId();
+        const ownReceipts = event.receipts.filter(r => r.userId === userId);
+        if (!ownReceipts.length) return;
+
+        const receipts = { ...await this.getOwnReceipts(roomId) };
+        for (const receipt of ownReceipts) {
+            receipts[ownReceiptKey(receipt.receiptType, receipt.threadId)] = receipt.eventId;
+        }
+        this.ownReceipts.set(roomId, receipts);
+        // noinspection ES6RedundantAwait
+        await Promise.resolve(this.storage.storeValue(OWN_RECEIPTS_KEY_PREFIX + roomId, JSON.stringify(receipts)));
+    }
+
+    private async getOwnReceipts(roomId: string): Promise<Record<string, string>> {
+        if (!this.ownReceipts.has(roomId)) {
+            // noinspection ES6RedundantAwait
+            const stored = await Promise.resolve(this.storage.readValue(OWN_RECEIPTS_KEY_PREFIX + roomId));
+            if (stored) this.ownReceipts.set(roomId, JSON.parse(stored));
         }
+        return this.ownReceipts.get(roomId) ?? {};
+    }
+
+    private async storeRoomStateEvent(roomId: string, event: any): Promise<void> {
+        if (typeof event?.['state_key'] !== "string") return;
+        // noinspection ES6RedundantAwait
+        await Promise.resolve(this.roomStateStore.setRoomStateEvent(roomId, event));
     }
 
     /**
@@ -938,14 +1666,26 @@ export class MatrixClient extends EventEmitter {
     }
 
     /**
-     * Gets the room state for the given room. Returned as raw events.
+     * Gets the room state for the given room. Returned as raw events. If the client has a
+     * room state store holding the complete state for the room, the store is used instead
+     * of the homeserver.
      * @param {string} roomId the room ID to get state for
      * @returns {Promise<any[]>} resolves to the room's state
      */
     @timedMatrixClientFunctionCall()
-    public getRoomState(roomId: string): Promise<any[]> {
-        return this.doRequest("GET", "/_matrix/client/v3/rooms/" + encodeURIComponent(roomId) + "/state")
-            .then(state => Promise.all(state.map(ev => this.processEvent(ev))));
+    public async getRoomState(roomId: string): Promise<any[]> {
+        if (this.roomStateStore) {
+            // noinspection ES6RedundantAwait
+            const cached = await Promise.resolve(this.roomStateStore.getRoomState(roomId));
+            if (cached) return Promise.all(cached.map(ev => this.processEvent(ev)));
+        }
+
+        const state = await this.doRequest("GET", "/_matrix/client/v3/rooms/" + encodeURIComponent(roomId) + "/state");
+        if (this.roomStateStore) {
+            // noinspection ES6RedundantAwait
+            await Promise.resolve(this.roomStateStore.setRoomState(roomId, state));
+        }
+        return Promise.all(state.map(ev => this.processEvent(ev)));
     }
 
     /**
@@ -962,14 +1702,22 @@ export class MatrixClient extends EventEmitter {
     }
 
     /**
-     * Gets a state event for a given room of a given type under the given state key.
+     * Gets a state event for a given room of a given type under the given state key. If the
+     * client has a room state store which knows of the event, the store is used instead of
+     * the homeserver.
      * @param {string} roomId the room ID
      * @param {string} type the event type
      * @param {String} stateKey the state key
      * @returns {Promise<any>} resolves to the state event
      */
     @timedMatrixClientFunctionCall()
-    public getRoomStateEvent(roomId, type, stateKey): Promise<any> {
+    public async getRoomStateEvent(roomId, type, stateKey): Promise<any> {
+        if (this.roomStateStore) {
+            // noinspection ES6RedundantAwait
+            const cached = await Promise.resolve(this.roomStateStore.getRoomStateEvent(roomId, type, stateKey ? stateKey : ''));
+            if (cached) return this.processEvent(cached['content'] ?? {});
+        }
+
         const path = "/_matrix/client/v3/rooms/"
             + encodeURIComponent(roomId) + "/state/"
             + encodeURIComponent(type) + "/"
@@ -996,6 +1744,206 @@ export class MatrixClient extends EventEmitter {
         };
     }
 
+    /**
+     * Gets a page of events from a room's timeline. If the client supports encryption and the
+     * room is encrypted, the events will be decrypted where possible. Events which cannot be
+     * decrypted are returned as-is.
+     * @param {string} roomId The room ID to get the timeline of.
+     * @param {RoomMessagesOptions} opts The pagination options.
+     * @returns {Promise<RoomMessagesPage>} Resolves to the page of events.
+     * @see iterateRoomMessages
+     */
+    @timedMatrixClientFunctionCall()
+    public async getRoomMessages(roomId: string, opts: RoomMessagesOptions = {}): Promise<RoomMessagesPage> {
+        const qs = { dir: opts.direction ?? "b" };
+        if (opts.from) qs["from"] = opts.from;
+        if (opts.to) qs["to"] = opts.to;
+        if (opts.limit) qs["limit"] = opts.limit;
+        if (opts.filter) qs["filter"] = JSON.stringify(opts.filter);
+
+        const res = await this.doRequest("GET", "/_matrix/client/v3/rooms/" + encodeURIComponent(roomId) + "/messages", qs);
+        const chunk = [];
+        for (const event of res['chunk'] ?? []) {
+            chunk.push(wrapRoomEvent(await this.processTimelineEvent(roomId, event)));
+        }
+        return {
+            chunk,
+            start: res['start'],
+            end: res['end'],
+            state: (res['state'] ?? []).map(e => new StateEvent<RoomEventContent>(e)),
+        };
+    }
+
+    /**
+     * Iterates over a room's timeline, requesting further pages as needed. Iteration ends when
+     * there are no more events available, or the `to` token is reached. If the client supports
+     * encryption and the room is encrypted, the events will be decrypted where possible.
+     * @param {string} roomId The room ID to iterate the timeline of.
+     * @param {RoomMessagesOptions} opts The pagination options. The `limit` applies per page.
+     * @returns {AsyncGenerator<RoomEvent<RoomEventContent>>} The events of the timeline, in the
+     * order of the requested direction.
+     */
+    public async* iterateRoomMessages(roomId: string, opts: RoomMessagesOptions = {}): AsyncGenerator<RoomEvent<RoomEventContent>> {
+        let from = opts.from;
+        while (true) {
+            const page = await this.getRoomMessages(roomId, { ...opts, from });
+            yield* page.chunk;
+            if (!page.end) return;
+            from = page.end;
+        }
+    }
+
+    /**
+     * Gets a page of the threads in a room. If the client supports encryption and the room is
+     * encrypted, the thread roots will be decrypted where possible.
+     * @param {string} roomId The room ID to list the threads of.
+     * @param {ThreadsOptions} opts The pagination options.
+     * @returns {Promise<ThreadsPage>} Resolves to the page of thread roots.
+     * @see iterateThreads
+     */
+    @timedMatrixClientFunctionCall()
+    public async getThreads(roomId: string, opts: ThreadsOptions = {}): Promise<ThreadsPage> {
+        const qs = {};
+        if (opts.include) qs["include"] = opts.include;
+        if (opts.from) qs["from"] = opts.from;
+        if (opts.limit) qs["limit"] = opts.limit;
+
+        const res = await this.doRequest("GET", "/_matrix/client/v1/rooms/" + encodeURIComponent(roomId) + "/threads", qs);
+        const chunk = [];
+        for (const event of res['chunk'] ?? []) {
+            chunk.push(wrapRoomEvent(await this.processTimelineEvent(roomId, event)));
+        }
+        return {
+            chunk,
+            nextBatch: res['next_batch'],
+        };
+    }
+
+    /**
+     * Iterates over the threads in a room, requesting further pages as needed. Threads are
+     * returned in order of most recent activity first.
+     * @param {string} roomId The room ID to list the threads of.
+     * @param {ThreadsOptions} opts The pagination options. The `limit` applies per page.
+     * @returns {AsyncGenerator<RoomEvent<RoomEventContent>>} The thread root events.
+     */
+    public async* iterateThreads(roomId: string, opts: ThreadsOptions = {}): AsyncGenerator<RoomEvent<RoomEventContent>> {
+        let from = opts.from;
+        while (true) {
+            const page = await this.getThreads(roomId, { ...opts, from });
+            yield* page.chunk;
+            if (!page.nextBatch) return;
+            from = page.nextBatch;
+        }
+    }
+
+    /**
+     * Searches the rooms the client is in for events matching a search term. Encrypted
+     * events cannot be searched by the server.
+     * @param {string} searchTerm The term to search for.
+     * @param {SearchOptions} opts The search options.
+     * @returns {Promise<SearchResults>} Resolves to a page of search results.
+     * @see iterateSearchResults
+     */
+    @timedMatrixClientFunctionCall()
+    public async searchRoomEvents(searchTerm: string, opts: SearchOptions = {}): Promise<SearchResults> {
+        const criteria = { search_term: searchTerm };
+        if (opts.keys) criteria["keys"] = opts.keys;
+        if (opts.filter) criteria["filter"] = opts.filter;
+        if (opts.orderBy) criteria["order_by"] = opts.orderBy;
+        if (opts.includeState) criteria["include_state"] = true;
+        if (opts.groupings) criteria["groupings"] = { group_by: opts.groupings.map(key => ({ key })) };
+        if (opts.eventContext) {
+            criteria["event_context"] = {};
+            if (opts.eventContext.beforeLimit !== undefined) criteria["event_context"]["before_limit"] = opts.eventContext.beforeLimit;
+            if (opts.eventContext.afterLimit !== undefined) criteria["event_context"]["after_limit"] = opts.eventContext.afterLimit;
+            if (opts.eventContext.includeProfile) criteria["event_context"]["include_profile"] = true;
+        }
+
+        const qs = opts.nextBatch ? { next_batch: opts.nextBatch } : null;
+        const res = await this.doRequest("POST", "/_matrix/client/v3/search", qs, {
+            search_categories: { room_events: criteria },
+        });
+        const roomEvents = res['search_categories']?.['room_events'] ?? {};
+
+        const wrapEvent = async (event: any) => {
+            return wrapRoomEvent(await this.processTimelineEvent(event['room_id'], event));
+        };
+        const results: SearchResult[] = [];
+        for (const result of roomEvents['results'] ?? []) {
+            const searchResult: SearchResult = {
+                rank: result['rank'],
+                event: await wrapEvent(result['result']),
+            };
+            const context = result['context'];
+            if (context) {
+                searchResult.context = {
+                    before: await Promise.all((context['events_before'] ?? []).map(wrapEvent)),
+                    after: await Promise.all((context['events_after'] ?? []).map(wrapEvent)),
+                    start: context['start'],
+                    end: context['end'],
+                    profileInfo: context['profile_info'],
+                };
+            }
+            results.push(searchResult);
+        }
+
+        const searchResults: SearchResults = {
+            count: roomEvents['count'],
+            highlights: roomEvents['highlights'] ?? [],
+            results,
+            nextBatch: roomEvents['next_batch'],
+        };
+        if (roomEvents['state']) {
+            searchResults.state = {};
+            for (const [roomId, events] of Object.entries<any[]>(roomEvents['state'])) {
+                searchResults.state[roomId] = events.map(e => new StateEvent<RoomEventContent>(e));
+            }
+        }
+        if (roomEvents['groups']) {
+            searchResults.groups = {};
+            for (const [groupKey, groups] of Object.entries<Record<string, any>>(roomEvents['groups'])) {
+                searchResults.groups[groupKey] = {};
+                for (const [value, group] of Object.entries(groups)) {
+                    searchResults.groups[groupKey][value] = {
+                        results: group['results'] ?? [],
+                        order: group['order'],
+                        nextBatch: group['next_batch'],
+                    };
+                }
+            }
+        }
+        return searchResults;
+    }
+
+    /**
+     * Iterates over the results of a search, requesting further pages as needed.
+     * @param {string} searchTerm The term to search for.
+     * @param {SearchOptions} opts The search options.
+     * @returns {AsyncGenerator<SearchResult>} The search results.
+     */
+    public async* iterateSearchResults(searchTerm: string, opts: SearchOptions = {}): AsyncGenerator<SearchResult> {
+        let nextBatch = opts.nextBatch;
+        while (true) {
+            const page = await this.searchRoomEvents(searchTerm, { ...opts, nextBatch });
+            yield* page.results;
+            if (!page.nextBatch) return;
+            nextBatch = page.nextBatch;
+        }
+    }
+
+    private async processTimelineEvent(roomId: string, event: any): Promise<any> {
+        event = await this.processEvent(event);
+        if (event['type'] === 'm.room.encrypted' && await this.crypto?.isRoomEncrypted(roomId)) {
+            try {
+                event = (await this.crypto.decryptRoomEvent(new EncryptedRoomEvent(event), roomId)).raw;
+                event = await this.processEvent(event);
+            } catch (e) {
+                LogService.warn("MatrixClientLite", `Unable to decrypt ${event['event_id']} in ${roomId}:`, e);
+            }
+        }
+        return event;
+    }
+
     /**
      * Gets the profile for a given user
      * @param {string} userId the user ID to lookup
@@ -1054,6 +2002,24 @@ export class MatrixClient extends EventEmitter {
         else return apiCall(roomIdOrAlias);
     }
 
+    /**
+     * Knocks on a room, asking to be let in. The room's join rule must allow knocking. Once
+     * a member of the room accepts the knock, the client will be invited to the room.
+     * @param {string} roomIdOrAlias the room ID or alias to knock on
+     * @param {string} reason the reason for knocking, shown to the room's members. Optional.
+     * @param {string[]} viaServers the servers to attempt to knock through, if the homeserver
+     * is not in the room. Optional.
+     * @returns {Promise<string>} resolves to the room ID knocked on
+     */
+    @timedMatrixClientFunctionCall()
+    public async knockRoom(roomIdOrAlias: string, reason?: string, viaServers: string[] = []): Promise<string> {
+        const qs = {};
+        if (viaServers.length > 0) qs['server_name'] = viaServers;
+        const body = reason ? { reason } : {};
+        const response = await this.doRequest("POST", "/_matrix/client/v3/knock/" + encodeURIComponent(roomIdOrAlias), qs, body);
+        return response['room_id'];
+    }
+
     /**
      * Gets a list of joined room IDs
      * @returns {Promise<string[]>} resolves to a list of room IDs the client participates in
@@ -1195,11 +2161,59 @@ export class MatrixClient extends EventEmitter {
      * Sends a read receipt for an event in a room
      * @param {string} roomId the room ID to send the receipt to
      * @param {string} eventId the event ID to set the receipt at
+     * @param {ReceiptType} receiptType the type of receipt to send. Private receipts are only visible to the client's own user.
+     * @param {string} threadId the thread ID the receipt applies to, or "main" for the main timeline. If not
+     * set, the receipt applies to the whole room.
      * @returns {Promise<any>} resolves when the receipt has been sent
      */
     @timedMatrixClientFunctionCall()
-    public sendReadReceipt(roomId: string, eventId: string): Promise<any> {
-        return this.doRequest("POST", "/_matrix/client/v3/rooms/" + encodeURIComponent(roomId) + "/receipt/m.read/" + encodeURIComponent(eventId), null, {});
+    public sendReadReceipt(roomId: string, eventId: string, receiptType: ReceiptType = "m.read", threadId?: string): Promise<any> {
+        const body = threadId ? { thread_id: threadId } : {};
+        const path = "/_matrix/client/v3/rooms/" + encodeURIComponent(roomId)
+            + "/receipt/" + encodeURIComponent(receiptType)
+            + "/" + encodeURIComponent(eventId);
+        return this.doRequest("POST", path, null, body);
+    }
+
+    /**
+     * Sets the read markers for a room, moving the fully read marker and sending read receipts
+     * in a single request.
+     * @param {string} roomId the room ID to set the read markers in
+     * @param {ReadMarkers} markers the markers to set
+     * @returns {Promise<any>} resolves when the markers have been set
+     */
+    @timedMatrixClientFunctionCall()
+    public setReadMarkers(roomId: string, markers: ReadMarkers): Promise<any> {
+        const body = {};
+        if (markers.fullyRead) body["m.fully_read"] = markers.fullyRead;
+        if (markers.read) body["m.read"] = markers.read;
+        if (markers.readPrivate) body["m.read.private"] = markers.readPrivate;
+        return this.doRequest("POST", "/_matrix/client/v3/rooms/" + encodeURIComponent(roomId) + "/read_markers", null, body);
+    }
+
+    /**
+     * Gets the event ID of the client's fully read marker in a room.
+     * @param {string} roomId the room ID to get the marker for
+     * @returns {Promise<string|null>} resolves to the event ID, or null if there is no marker
+     */
+    @timedMatrixClientFunctionCall()
+    public async getFullyReadMarker(roomId: string): Promise<string | null> {
+        const content = await this.getSafeRoomAccountData<{ event_id?: string }>("m.fully_read", roomId, {});
+        return content?.event_id ?? null;
+    }
+
+    /**
+     * Gets the event ID of the client's own receipt in a room, as last seen by the sync loop.
+     * This includes receipts sent by other sessions of the same user.
+     * @param {string} roomId the room ID to get the receipt for
+     * @param {ReceiptType} receiptType the type of receipt to get
+     * @param {string} threadId the thread ID of the receipt, or "main" for the main timeline. If
+     * not set, the unthreaded receipt is returned.
+     * @returns {Promise<string|null>} resolves to the event ID, or null if no receipt has been seen
+     */
+    public async getOwnReceipt(roomId: string, receiptType: ReceiptType = "m.read", threadId?: string): Promise<string | null> {
+        const receipts = await this.getOwnReceipts(roomId);
+        return receipts[ownReceiptKey(receiptType, threadId)] ?? null;
     }
 
     /**
@@ -1284,6 +2298,32 @@ export class MatrixClient extends EventEmitter {
         return this.sendMessage(roomId, reply);
     }
 
+    /**
+     * Sends a message into a thread. If `replyToEventId` is given, the message is a reply to
+     * that event within the thread, otherwise the thread root is used as the reply fallback
+     * for clients which do not support threads. The message will be encrypted if the client
+     * supports encryption and the room is encrypted.
+     * @param {string} roomId the room ID to send the message in
+     * @param {string} threadRootId the event ID of the thread root
+     * @param {any} content the message content to send
+     * @param {string} replyToEventId the event ID within the thread being replied to. Optional.
+     * @returns {Promise<string>} resolves to the event ID which was sent
+     */
+    @timedMatrixClientFunctionCall()
+    public sendThreadReply(roomId: string, threadRootId: string, content: any, replyToEventId?: string): Promise<string> {
+        return this.sendMessage(roomId, {
+            ...content,
+            "m.relates_to": {
+                "rel_type": "m.thread",
+                "event_id": threadRootId,
+                "is_falling_back": !replyToEventId,
+                "m.in_reply_to": {
+                    event_id: replyToEventId ?? threadRootId,
+                },
+            },
+        });
+    }
+
     /**
      * Sends a notice to the given room. The message will be encrypted if the client supports
      * encryption and the room is encrypted.
@@ -1348,6 +2388,96 @@ export class MatrixClient extends EventEmitter {
         });
     }
 
+    /**
+     * Uploads and sends a file to the given room. If the client supports encryption and the room
+     * is encrypted, the file (and its thumbnail) is encrypted before uploading.
+     * @param {string} roomId the room ID to send the file to
+     * @param {Buffer} data the file's content
+     * @param {SendFileOptions} opts the file's name, type, caption and thumbnail. Optional.
+     * @returns {Promise<string>} resolves to the event ID that represents the message
+     */
+    @timedMatrixClientFunctionCall()
+    public sendFile(roomId: string, data: Buffer, opts: SendFileOptions = {}): Promise<string> {
+        return this.sendMediaMessage(roomId, "m.file", data, opts, {});
+    }
+
+    /**
+     * Uploads and sends an image to the given room. If the client supports encryption and the room
+     * is encrypted, the image (and its thumbnail) is encrypted before uploading.
+     * @param {string} roomId the room ID to send the image to
+     * @param {Buffer} data the image's content
+     * @param {SendImageOptions} opts the image's name, type, dimensions, caption and thumbnail. Optional.
+     * @returns {Promise<string>} resolves to the event ID that represents the message
+     */
+    @timedMatrixClientFunctionCall()
+    public sendImage(roomId: string, data: Buffer, opts: SendImageOptions = {}): Promise<string> {
+        return this.sendMediaMessage(roomId, "m.image", data, opts, { w: opts.w, h: opts.h });
+    }
+
+    /**
+     * Uploads and sends a video to the given room. If the client supports encryption and the room
+     * is encrypted, the video (and its thumbnail) is encrypted before uploading.
+     * @param {string} roomId the room ID to send the video to
+     * @param {Buffer} data the video's content
+     * @param {SendVideoOptions} opts the video's name, type, dimensions, duration, caption and
+     * thumbnail. Optional.
+     * @returns {Promise<string>} resolves to the event ID that represents the message
+     */
+    @timedMatrixClientFunctionCall()
+    public sendVideo(roomId: string, data: Buffer, opts: SendVideoOptions = {}): Promise<string> {
+        return this.sendMediaMessage(roomId, "m.video", data, opts, { w: opts.w, h: opts.h, duration: opts.duration });
+    }
+
+    /**
+     * Uploads and sends audio to the given room. If the client supports encryption and the room
+     * is encrypted, the audio is encrypted before uploading.
+     * @param {string} roomId the room ID to send the audio to
+     * @param {Buffer} data the audio's content
+     * @param {SendAudioOptions} opts the audio's name, type, duration and caption. Optional.
+     * @returns {Promise<string>} resolves to the event ID that represents the message
+     */
+    @timedMatrixClientFunctionCall()
+    public sendAudio(roomId: string, data: Buffer, opts: SendAudioOptions = {}): Promise<string> {
+        return this.sendMediaMessage(roomId, "m.audio", data, opts, { duration: opts.duration });
+    }
+
+    private async sendMediaMessage(roomId: string, msgtype: string, data: Buffer, opts: SendFileOptions, extraInfo: object): Promise<string> {
+        const encrypted = !!(await this.crypto?.isRoomEncrypted(roomId));
+        const filename = opts.filename ?? "file";
+        const mimetype = opts.mimetype ?? "application/octet-stream";
+
+        const upload = await this.uploadMediaForRoom(data, mimetype, filename, encrypted);
+        const info: FileWithThumbnailInfo = { size: data.length, mimetype };
+        Object.entries(extraInfo).filter(([, v]) => v !== undefined).forEach(([k, v]) => info[k] = v);
+        if (opts.thumbnail) {
+            const thumbnailType = opts.thumbnail.mimetype ?? "image/png";
+            const thumbnail = await this.uploadMediaForRoom(opts.thumbnail.data, thumbnailType, null, encrypted);
+            if (thumbnail.file) info.thumbnail_file = thumbnail.file;
+            else info.thumbnail_url = thumbnail.url;
+            info.thumbnail_info = {
+                size: opts.thumbnail.data.length,
+                mimetype: thumbnailType,
+                w: opts.thumbnail.w,
+                h: opts.thumbnail.h,
+            };
+        }
+
+        const content = <FileMessageEventContent>{ msgtype, body: opts.caption ?? filename, info, ...upload };
+        if (opts.caption) content["filename"] = filename;
+        return this.sendMessage(roomId, content);
+    }
+
+    private async uploadMediaForRoom(data: Buffer, mimetype: string, filename: string, encrypted: boolean): Promise<{ url?: string, file?: EncryptedFile }> {
+        if (!encrypted) {
+            return { url: await this.uploadContent(data, mimetype, filename) };
+        }
+
+        // The type and name of encrypted media are only revealed in the encrypted event.
+        const result = await this.crypto.encryptMedia(data);
+        const url = await this.uploadContent(result.buffer);
+        return { file: { url, ...result.file } };
+    }
+
     /**
      * Sends a message to the given room. The message will be encrypted if the client supports
      * encryption and the room is encrypted.
@@ -1360,21 +2490,54 @@ export class MatrixClient extends EventEmitter {
         return this.sendEvent(roomId, "m.room.message", content);
     }
 
+    /**
+     * Edits a message previously sent by the client. The edit will be encrypted if the client
+     * supports encryption and the room is encrypted.
+     * @param {string} roomId the room ID the message resides in
+     * @param {string} eventId the event ID of the message to edit
+     * @param {any} newContent the replacement content for the message, such as `{msgtype: "m.text", body: "Hello"}`
+     * @returns {Promise<string>} resolves to the event ID of the edit
+     */
+    @timedMatrixClientFunctionCall()
+    public editMessage(roomId: string, eventId: string, newContent: any): Promise<string> {
+        const content = {
+            ...newContent,
+            "body": `* ${newContent["body"] ?? ""}`,
+            "m.new_content": newContent,
+            "m.relates_to": {
+                rel_type: "m.replace",
+                event_id: eventId,
+            },
+        };
+        if (newContent["formatted_body"]) {
+            content["formatted_body"] = `* ${newContent["formatted_body"]}`;
+        }
+        return this.sendMessage(roomId, content);
+    }
+
     /**
      * Sends an event to the given room. This will encrypt the event before sending if the room is
      * encrypted and the client supports encryption. Use sendRawEvent() to avoid this behaviour.
      * @param {string} roomId the room ID to send the event to
      * @param {string} eventType the type of event to send
      * @param {string} content the event body to send
+     * @param {string} txnId the transaction ID to send the event with. Retrying a send with the same
+     * transaction ID will not send the event twice. Optional - a new ID is generated by default.
      * @returns {Promise<string>} resolves to the event ID that represents the event
      */
     @timedMatrixClientFunctionCall()
-    public async sendEvent(roomId: string, eventType: string, content: any): Promise<string> {
+    public async sendEvent(roomId: string, eventType: string, content: any, txnId: string = null): Promise<string> {
         if (await this.crypto?.isRoomEncrypted(roomId)) {
+            const relatesTo = content?.["m.relates_to"];
             content = await this.crypto.encryptRoomEvent(roomId, eventType, content);
             eventType = "m.room.encrypted";
+
+            // Relations must be left unencrypted for the server to aggregate them.
+            if (relatesTo && !content["m.relates_to"]) {
+                content["m.relates_to"] = relatesTo;
+            }
         }
-        return this.sendRawEvent(roomId, eventType, content);
+        return this.sendRawEvent(roomId, eventType, content, txnId);
     }
 
     /**
@@ -1382,11 +2545,13 @@ export class MatrixClient extends EventEmitter {
      * @param {string} roomId the room ID to send the event to
      * @param {string} eventType the type of event to send
      * @param {string} content the event body to send
+     * @param {string} txnId the transaction ID to send the event with. Retrying a send with the same
+     * transaction ID will not send the event twice. Optional - a new ID is generated by default.
      * @returns {Promise<string>} resolves to the event ID that represents the event
      */
     @timedMatrixClientFunctionCall()
-    public async sendRawEvent(roomId: string, eventType: string, content: any): Promise<string> {
-        const txnId = (new Date().getTime()) + "__inc" + (++this.requestId);
+    public async sendRawEvent(roomId: string, eventType: string, content: any, txnId: string = null): Promise<string> {
+        txnId = txnId ?? (new Date().getTime()) + "__inc" + (++this.requestId);
         const path = "/_matrix/client/v3/rooms/"
             + encodeURIComponent(roomId) + "/send/"
             + encodeURIComponent(eventType) + "/"
@@ -1570,14 +2735,15 @@ export class MatrixClient extends EventEmitter {
     /**
      * Converts a MXC URI to an HTTP URL.
      * @param {string} mxc The MXC URI to convert
+     * @param {boolean} authenticated If true, the URL is for the authenticated media endpoints, and
+     * must be requested with the client's access token. Defaults to the legacy unauthenticated
+     * endpoints, which some homeservers no longer serve new media from.
      * @returns {string} The HTTP URL for the content.
+     * @see getMediaDownloadRequest
      */
-    public mxcToHttp(mxc: string): string {
-        if (!mxc.startsWith("mxc://")) throw new Error("Not a MXC URI");
-        const parts = mxc.substring("mxc://".length).split('/');
-        const originHomeserver = parts[0];
-        const mediaId = parts.slice(1, parts.length).join('/');
-        return `${this.homeserverUrl}/_matrix/media/v3/download/${encodeURIComponent(originHomeserver)}/${encodeURIComponent(mediaId)}`;
+    public mxcToHttp(mxc: string, authenticated = false): string {
+        const { domain, mediaId } = parseMxc(mxc);
+        return `${this.homeserverUrl}${mediaPath("download", authenticated)}/${encodeURIComponent(domain)}/${encodeURIComponent(mediaId)}`;
     }
 
     /**
@@ -1586,14 +2752,84 @@ export class MatrixClient extends EventEmitter {
      * @param {number} width The width, as an integer, for the thumbnail.
      * @param {number} height The height, as an intenger, for the thumbnail.
      * @param {"crop"|"scale"} method Whether to crop or scale (preserve aspect ratio) the content.
+     * @param {boolean} authenticated If true, the URL is for the authenticated media endpoints, and
+     * must be requested with the client's access token. Defaults to false.
      * @returns {string} The HTTP URL for the downsized content.
      */
-    public mxcToHttpThumbnail(mxc: string, width: number, height: number, method: "crop" | "scale"): string {
-        const downloadUri = this.mxcToHttp(mxc);
-        return downloadUri.replace("/_matrix/media/v3/download", "/_matrix/media/v3/thumbnail")
+    public mxcToHttpThumbnail(mxc: string, width: number, height: number, method: ThumbnailMethod, authenticated = false): string {
+        const { domain, mediaId } = parseMxc(mxc);
+        return `${this.homeserverUrl}${mediaPath("thumbnail", authenticated)}/${encodeURIComponent(domain)}/${encodeURIComponent(mediaId)}`
             + `?width=${width}&height=${height}&method=${encodeURIComponent(method)}`;
     }
 
+    /**
+     * Determines whether the homeserver supports the authenticated media endpoints, either by
+     * advertising v1.11 of the specification or the stable MSC3916 feature flag. The media APIs
+     * of the client use them automatically when supported.
+     * @returns {Promise<boolean>} Resolves to true if authenticated media is supported.
+     */
+    public async doesServerSupportAuthenticatedMedia(): Promise<boolean> {
+        return (await this.doesServerSupportVersion(AUTHENTICATED_MEDIA_VERSION))
+            || this.doesServerSupportUnstableFeature(AUTHENTICATED_MEDIA_FEATURE);
+    }
+
+    /**
+     * Builds an authenticated request for downloading content (or a thumbnail of it), for callers
+     * which need to make the request with their own HTTP client, such as bridges streaming media
+     * to a remote network. The authenticated media endpoints are used where supported.
+     * @param {string} mxcUrl The MXC URI for the content.
+     * @param {ThumbnailOptions} thumbnail If set, the request is for a thumbnail of the content.
+     * @param {boolean} allowRemote Whether the homeserver may fetch the media from a remote server.
+     * Defaults to true.
+     * @returns {Promise<MediaDownloadRequest>} Resolves to the request to make.
+     */
+    public async getMediaDownloadRequest(mxcUrl: string, thumbnail?: ThumbnailOptions, allowRemote = true): Promise<MediaDownloadRequest> {
+        const { path, qs } = await this.getMediaDownloadPath(mxcUrl, thumbnail, allowRemote);
+        const query = new URLSearchParams({ ...qs, ...this.getImpersonationParams() }).toString();
+        const headers = {};
+        if (this.accessToken) headers["Authorization"] = `Bearer ${this.accessToken}`;
+        return {
+            url: `${this.homeserverUrl}${path}${query ? `?${query}` : ""}`,
+            headers,
+        };
+    }
+
+    private async getMediaDownloadPath(mxcUrl: string, thumbnail: ThumbnailOptions, allowRemote: boolean): Promise<{ path: string, qs: Record<string, string> }> {
+        const { domain, mediaId } = parseMxc(mxcUrl);
+        const authenticated = await this.doesServerSupportAuthenticatedMedia();
+        const qs = thumbnail ? thumbnailQuery(thumbnail) : {};
+        if (!allowRemote) qs["allow_remote"] = "false";
+        return {
+            path: `${mediaPath(thumbnail ? "thumbnail" : "download", authenticated)}/${encodeURIComponent(domain)}/${encodeURIComponent(mediaId)}`,
+            qs,
+        };
+    }
+
+    /**
+     * Gets the configuration of the homeserver's media repository, such as the upload size limit.
+     * @returns {Promise<MediaConfig>} Resolves to the media configuration.
+     */
+    @timedMatrixClientFunctionCall()
+    public async getMediaConfig(): Promise<MediaConfig> {
+        const authenticated = await this.doesServerSupportAuthenticatedMedia();
+        return this.doRequest("GET", mediaPath("config", authenticated));
+    }
+
+    /**
+     * Gets a preview of a URL from the homeserver, as OpenGraph data.
+     * @param {string} url The URL to preview.
+     * @param {number} timestamp The preferred point in time to preview the URL at, in milliseconds.
+     * The homeserver may return a newer preview. Optional.
+     * @returns {Promise<UrlPreview>} Resolves to the preview.
+     */
+    @timedMatrixClientFunctionCall()
+    public async getUrlPreview(url: string, timestamp?: number): Promise<UrlPreview> {
+        const authenticated = await this.doesServerSupportAuthenticatedMedia();
+        const qs = { url };
+        if (timestamp !== undefined) qs["ts"] = timestamp;
+        return this.doRequest("GET", mediaPath("preview_url", authenticated), qs);
+    }
+
     /**
      * Uploads data to the homeserver's media repository. Note that this will <b>not</b> automatically encrypt
      * media as it cannot determine if the media should be encrypted.
@@ -1619,13 +2855,8 @@ export class MatrixClient extends EventEmitter {
      * @returns {Promise<{data: Buffer, contentType: string}>} Resolves to the downloaded content.
      */
     public async downloadContent(mxcUrl: string, allowRemote = true): Promise<{ data: Buffer, contentType: string }> {
-        if (!mxcUrl.toLowerCase().startsWith("mxc://")) {
-            throw Error("'mxcUrl' does not begin with mxc://");
-        }
-        const urlParts = mxcUrl.substring("mxc://".length).split("/");
-        const domain = encodeURIComponent(urlParts[0]);
-        const mediaId = encodeURIComponent(urlParts[1].split("/")[0]);
-        const path = `/_matrix/client/v1/media/download/${domain}/${mediaId}`;
+        const { domain, mediaId } = parseMxc(mxcUrl);
+        const path = `${mediaPath("download", true)}/${encodeURIComponent(domain)}/${encodeURIComponent(mediaId)}`;
         const res = await this.doRequest("GET", path, { allow_remote: allowRemote }, null, null, true, null, true);
         return {
             data: res.body,
@@ -1633,6 +2864,113 @@ export class MatrixClient extends EventEmitter {
         };
     }
 
+    /**
+     * Downloads a thumbnail of content from the homeserver's media repository. Thumbnails of
+     * encrypted media are not available, as the homeserver cannot read the content.
+     * @param {string} mxcUrl The MXC URI for the content.
+     * @param {ThumbnailOptions} opts The size and method of the thumbnail.
+     * @param {boolean} allowRemote Whether the homeserver may fetch the media from a remote server.
+     * Defaults to true.
+     * @returns {Promise<{data: Buffer, contentType: string}>} Resolves to the thumbnail.
+     */
+    public async downloadThumbnail(mxcUrl: string, opts: ThumbnailOptions, allowRemote = true): Promise<{ data: Buffer, contentType: string }> {
+        const { domain, mediaId } = parseMxc(mxcUrl);
+        const authenticated = await this.doesServerSupportAuthenticatedMedia();
+        const path = `${mediaPath("thumbnail", authenticated)}/${encodeURIComponent(domain)}/${encodeURIComponent(mediaId)}`;
+        const qs = { ...thumbnailQuery(opts), allow_remote: allowRemote };
+        const res = await this.doRequest("GET", path, qs, null, null, true, null, true);
+        return {
+            data: res.body,
+            contentType: res.headers["content-type"],
+        };
+    }
+
+    /**
+     * Uploads content to the homeserver's media repository from a stream, without holding the
+     * whole content in memory. Note that this will <b>not</b> automatically encrypt media: use
+     * `CryptoClient.encryptMediaStream` first for encrypted rooms.
+     * @param {Readable} stream The content to upload.
+     * @param {StreamUploadOptions} opts The options for the upload. Optional.
+     * @returns {Promise<string>} Resolves to the MXC URI of the content.
+     */
+    @timedMatrixClientFunctionCall()
+    public async uploadContentStream(stream: Readable, opts: StreamUploadOptions = {}): Promise<string> {
+        const response = await this.doStreamUpload("POST", "/_matrix/media/v3/upload", stream, opts);
+        return response["content_uri"];
+    }
+
+    /**
+     * Reserves a media ID on the homeserver for uploading content to later. This allows an event
+     * referencing the content to be sent before the content is uploaded, such as when bridging
+     * large files. The content must be uploaded with uploadPendingContent before the media ID expires.
+     * @returns {Promise<PendingMedia>} Resolves to the reserved media.
+     */
+    @timedMatrixClientFunctionCall()
+    public async createMedia(): Promise<PendingMedia> {
+        const response = await this.doRequest("POST", "/_matrix/media/v1/create");
+        return {
+            contentUri: response["content_uri"],
+            unusedExpiresAt: response["unused_expires_at"],
+        };
+    }
+
+    /**
+     * Uploads the content for a media ID previously reserved with createMedia. Content can only
+     * be uploaded once for each media ID: the homeserver rejects further uploads with
+     * `M_CANNOT_OVERWRITE_MEDIA`, and uploads after the media ID has expired with `M_NOT_FOUND`.
+     * Note that this will <b>not</b> automatically encrypt media.
+     * @param {string} mxcUrl The MXC URI of the reserved media.
+     * @param {Buffer|Readable} data The content to upload, either in full or as a stream.
+     * @param {StreamUploadOptions} opts The options for the upload. The `contentLength` and
+     * `onProgress` options only apply to streams. Optional.
+     * @returns {Promise<void>} Resolves when the content has been uploaded.
+     */
+    @timedMatrixClientFunctionCall()
+    public async uploadPendingContent(mxcUrl: string, data: Buffer | Readable, opts: StreamUploadOptions = {}): Promise<void> {
+        const { domain, mediaId } = parseMxc(mxcUrl);
+        const path = `/_matrix/media/v3/upload/${encodeURIComponent(domain)}/${encodeURIComponent(mediaId)}`;
+        if (data instanceof Readable) {
+            await this.doStreamUpload("PUT", path, data, opts);
+        } else {
+            const qs = opts.filename ? { filename: opts.filename } : null;
+            await this.doRequest("PUT", path, qs, data, opts.timeout ?? 60000, false, opts.contentType ?? "application/octet-stream");
+        }
+    }
+
+    private async doStreamUpload(method: "POST" | "PUT", path: string, stream: Readable, opts: StreamUploadOptions): Promise<any> {
+        const contentLength = opts.contentLength ?? await getStreamLength(stream);
+        const headers = { "Content-Type": opts.contentType ?? "application/octet-stream" };
+        if (contentLength !== undefined) headers["Content-Length"] = String(contentLength);
+        const qs = opts.filename ? { filename: opts.filename } : null;
+
+        const body = opts.onProgress ? withProgress(stream, opts.onProgress, contentLength) : stream;
+        const res = await this.doStreamRequest(method, path, qs, body, headers, opts.timeout ?? 60000);
+        return JSON.parse((await readStream(res.body)).toString() || "{}");
+    }
+
+    /**
+     * Downloads content from the homeserver's media repository as a stream, without holding the
+     * whole content in memory. Note that this will <b>not</b> automatically decrypt media: use
+     * `CryptoClient.decryptMediaStream` for encrypted media instead.
+     * @param {string} mxcUrl The MXC URI for the content.
+     * @param {StreamDownloadOptions} opts The options for the download. Optional.
+     * @returns {Promise<MediaDownloadStream>} Resolves to the content once the homeserver has
+     * started sending it.
+     */
+    @timedMatrixClientFunctionCall()
+    public async downloadContentStream(mxcUrl: string, opts: StreamDownloadOptions = {}): Promise<MediaDownloadStream> {
+        const { path, qs } = await this.getMediaDownloadPath(mxcUrl, opts.thumbnail, opts.allowRemote ?? true);
+        const res = await this.doStreamRequest("GET", path, qs, null, {}, opts.timeout ?? 60000);
+
+        const lengthHeader = Number(res.headers["content-length"]);
+        const contentLength = Number.isInteger(lengthHeader) ? lengthHeader : undefined;
+        return {
+            stream: opts.onProgress ? withProgress(res.body, opts.onProgress, contentLength) : res.body,
+            contentType: <string>res.headers["content-type"] ?? "application/octet-stream",
+            contentLength,
+        };
+    }
+
     /**
      * Uploads data to the homeserver's media repository after downloading it from the
      * provided URL.
@@ -1640,31 +2978,23 @@ export class MatrixClient extends EventEmitter {
      * @returns {Promise<string>} Resolves to the MXC URI of the content
      */
     @timedMatrixClientFunctionCall()
-    public uploadContentFromUrl(url: string): Promise<string> {
-        return new Promise<{ body: Buffer, contentType: string }>((resolve, reject) => {
-            const requestId = ++this.requestId;
-            const params = {
-                uri: url,
-                method: "GET",
-                encoding: null,
-            };
-            getRequestFn()(params, (err, response, resBody) => {
-                if (err) {
-                    LogService.error("MatrixClientLite", "(REQ-" + requestId + ")", extractRequestError(err));
-                    reject(err);
-                } else {
-                    const contentType = response.headers['content-type'] || "application/octet-stream";
-
-                    LogService.trace("MatrixClientLite", "(REQ-" + requestId + " RESP-H" + response.statusCode + ")", "<data>");
-                    if (response.statusCode < 200 || response.statusCode >= 300) {
-                        LogService.error("MatrixClientLite", "(REQ-" + requestId + ")", "<data>");
-                        reject(response);
-                    } else resolve({ body: resBody, contentType: contentType });
-                }
-            });
-        }).then(obj => {
-            return this.uploadContent(obj.body, obj.contentType);
-        });
+    public async uploadContentFromUrl(url: string): Promise<string> {
+        const requestId = ++this.requestId;
+        let response: HttpTransportResponse;
+        try {
+            response = await getHttpTransport().request({ method: "GET", url, headers: {}, binaryResponse: true });
+        } catch (err) {
+            LogService.error("MatrixClientLite", "(REQ-" + requestId + ")", extractRequestError(err));
+            throw err;
+        }
+
+        LogService.trace("MatrixClientLite", "(REQ-" + requestId + " RESP-H" + response.statusCode + ")", "<data>");
+        if (response.statusCode < 200 || response.statusCode >= 300) {
+            LogService.error("MatrixClientLite", "(REQ-" + requestId + ")", "<data>");
+            throw response;
+        }
+        const contentType = <string>response.headers['content-type'] || "application/octet-stream";
+        return this.uploadContent(response.body, contentType);
     }
 
     /**
@@ -1783,6 +3113,80 @@ export class MatrixClient extends EventEmitter {
         return result;
     }
 
+    /**
+     * Upgrades a room to a new room version. The homeserver creates the replacement room,
+     * copying the essential state across, and tombstones the old room. Further state and
+     * memberships can be carried over with the options: failures to do so are logged and
+     * do not fail the upgrade, as the replacement room already exists at that point.
+     * @param {string} roomId the room ID to upgrade
+     * @param {string} newVersion the room version to upgrade to
+     * @param {RoomUpgradeOptions} opts the options for what to carry over. Optional.
+     * @returns {Promise<string>} resolves to the room ID of the replacement room
+     */
+    @timedMatrixClientFunctionCall()
+    public async upgradeRoom(roomId: string, newVersion: string, opts: RoomUpgradeOptions = {}): Promise<string> {
+        const copyTypes = new Set<string>(opts.copyStateTypes ?? []);
+        if (opts.copyWidgets) WIDGET_STATE_TYPES.forEach(t => copyTypes.add(t));
+        if (opts.copyPinnedEvents) copyTypes.add("m.room.pinned_events");
+        if (opts.copySpaceParents) copyTypes.add("m.space.parent");
+
+        // Read the state before upgrading so the upgrade isn't attempted if it can't be read.
+        const needsState = copyTypes.size > 0 || opts.copyBans || opts.updateParentSpaces;
+        const state = needsState ? await this.getRoomState(roomId) : [];
+        const members = opts.reinviteMembers ? await this.getJoinedRoomMembers(roomId) : [];
+
+        const response = await this.doRequest("POST", "/_matrix/client/v3/rooms/" + encodeURIComponent(roomId) + "/upgrade", null, {
+            new_version: newVersion,
+        });
+        const newRoomId = response['replacement_room'];
+
+        const tryOrWarn = async (description: string, fn: () => Promise<any>) => {
+            try {
+                await fn();
+            } catch (e) {
+                LogService.warn("MatrixClientLite", `Failed to ${description} while upgrading ${roomId} to ${newRoomId}:`, extractRequestError(e));
+            }
+        };
+
+        for (const event of state) {
+            const content = event['content'] ?? {};
+            if (Object.keys(content).length === 0) continue; // removed state
+
+            if (copyTypes.has(event['type'])) {
+                await tryOrWarn(`copy ${event['type']} (${event['state_key']})`, () => {
+                    return this.sendStateEvent(newRoomId, event['type'], event['state_key'], content);
+                });
+            } else if (opts.copyBans && event['type'] === "m.room.member" && content['membership'] === "ban") {
+                await tryOrWarn(`ban ${event['state_key']}`, () => {
+                    return this.banUser(event['state_key'], newRoomId, content['reason'] ?? null);
+                });
+            }
+        }
+
+        if (members.length > 0) {
+            const userId = await this.getUserId();
+            for (const member of members) {
+                if (member === userId) continue;
+                await tryOrWarn(`invite ${member}`, () => this.inviteUser(member, newRoomId));
+            }
+        }
+
+        if (opts.updateParentSpaces) {
+            const parents = state.filter(e => e['type'] === "m.space.parent" && Object.keys(e['content'] ?? {}).length > 0);
+            for (const parent of parents) {
+                const spaceId = parent['state_key'];
+                await tryOrWarn(`update the child link in ${spaceId}`, async () => {
+                    const child = await this.getRoomStateEvent(spaceId, "m.space.child", roomId);
+                    if (!child?.['via']) return;
+                    await this.sendStateEvent(spaceId, "m.space.child", newRoomId, child);
+                    await this.sendStateEvent(spaceId, "m.space.child", roomId, {});
+                });
+            }
+        }
+
+        return newRoomId;
+    }
+
     /**
      * Creates a Space room.
      * @param {SpaceCreateOptions} opts The creation options.
@@ -1854,6 +3258,29 @@ export class MatrixClient extends EventEmitter {
         return new Space(roomId, this);
     }
 
+    /**
+     * Gets a page of the hierarchy of a space, walking the space's children depth-first.
+     * Rooms the client has not joined are included if the homeserver can preview them.
+     * @param {string} roomId The room ID of the space.
+     * @param {SpaceHierarchyOptions} opts The options for walking the hierarchy.
+     * @returns {Promise<SpaceHierarchyPage>} Resolves to the page of rooms.
+     * @see Space.getHierarchy
+     */
+    @timedMatrixClientFunctionCall()
+    public async getSpaceHierarchyPage(roomId: string, opts: SpaceHierarchyOptions = {}): Promise<SpaceHierarchyPage> {
+        const qs = {};
+        if (opts.maxDepth !== undefined) qs["max_depth"] = opts.maxDepth;
+        if (opts.suggestedOnly) qs["suggested_only"] = true;
+        if (opts.limit) qs["limit"] = opts.limit;
+        if (opts.from) qs["from"] = opts.from;
+
+        const res = await this.doRequest("GET", "/_matrix/client/v1/rooms/" + encodeURIComponent(roomId) + "/hierarchy", qs);
+        return {
+            rooms: res['rooms'] ?? [],
+            nextBatch: res['next_batch'],
+        };
+    }
+
     /**
      * Uploads One Time Keys for the current device.
      * @param {OTKs} keys The keys to upload.
@@ -1988,6 +3415,94 @@ export class MatrixClient extends EventEmitter {
         return this.doRequest("GET", url);
     }
 
+    /**
+     * Reacts to an event with the given key. The reaction will be encrypted if the client
+     * supports encryption and the room is encrypted.
+     * @param {string} roomId The room ID the event resides in.
+     * @param {string} eventId The event ID to react to.
+     * @param {string} key The reaction key, usually an emoji.
+     * @returns {Promise<string>} Resolves to the event ID of the reaction.
+     */
+    @timedMatrixClientFunctionCall()
+    public sendReaction(roomId: string, eventId: string, key: string): Promise<string> {
+        return this.sendEvent(roomId, "m.reaction", {
+            "m.relates_to": {
+                rel_type: "m.annotation",
+                event_id: eventId,
+                key: key,
+            },
+        });
+    }
+
+    /**
+     * Removes the client's reactions to an event with the given key by redacting them.
+     * @param {string} roomId The room ID the event resides in.
+     * @param {string} eventId The event ID to remove the reaction from.
+     * @param {string} key The reaction key to remove.
+     * @returns {Promise<string[]>} Resolves to the event IDs of the redactions. This will be
+     * empty if the client had not reacted with the key.
+     */
+    @timedMatrixClientFunctionCall()
+    public async removeReaction(roomId: string, eventId: string, key: string): Promise<string[]> {
+        const userId = await this.getUserId();
+        const redactionIds = [];
+        for (const reaction of await this.getReactions(roomId, eventId)) {
+            if (reaction.sender !== userId || reaction.key !== key) continue;
+            redactionIds.push(await this.redactEvent(roomId, reaction.eventId));
+        }
+        return redactionIds;
+    }
+
+    /**
+     * Gets the reactions to an event, aggregated by reaction key. Each user is counted at most
+     * once per key. If the client supports encryption and the room is encrypted, encrypted
+     * reactions are decrypted where possible.
+     * @param {string} roomId The room ID the event resides in.
+     * @param {string} eventId The event ID to get the reactions of.
+     * @returns {Promise<ReactionSummary[]>} Resolves to the reactions, most popular first.
+     */
+    @timedMatrixClientFunctionCall()
+    public async getReactionSummary(roomId: string, eventId: string): Promise<ReactionSummary[]> {
+        const summaries = new Map<string, ReactionSummary>();
+        for (const reaction of await this.getReactions(roomId, eventId)) {
+            let summary = summaries.get(reaction.key);
+            if (!summary) {
+                summary = { key: reaction.key, count: 0, senders: [] };
+                summaries.set(reaction.key, summary);
+            }
+            if (!summary.senders.includes(reaction.sender)) {
+                summary.senders.push(reaction.sender);
+                summary.count++;
+            }
+        }
+        return Array.from(summaries.values()).sort((a, b) => b.count - a.count);
+    }
+
+    private async getReactions(roomId: string, eventId: string): Promise<ReactionEvent[]> {
+        const url = `/_matrix/client/v1/rooms/${encodeURIComponent(roomId)}/relations/${encodeURIComponent(eventId)}/m.annotation`;
+        const reactions: ReactionEvent[] = [];
+        let from: string;
+        do {
+            const res = await this.doRequest("GET", url, from ? { from } : null);
+            for (let event of res['chunk'] ?? []) {
+                // Encrypted reactions can't be filtered by type on the server, so decrypt then filter.
+                event = await this.processTimelineEvent(roomId, event);
+                if (event['type'] !== "m.reaction") continue;
+                const reaction = new ReactionEvent(event);
+                if (reaction.key) reactions.push(reaction);
+            }
+            from = res['next_batch'];
+        } while (from);
+        return reactions;
+    }
+
+    private getImpersonationParams(): Record<string, string> {
+        const params = {};
+        if (this.impersonatedUserId) params["user_id"] = this.impersonatedUserId;
+        if (this.impersonatedDeviceId) params["org.matrix.msc3202.device_id"] = this.impersonatedDeviceId;
+        return params;
+    }
+
     /**
      * Performs a web request to the homeserver, applying appropriate authorization headers for
      * this client.
@@ -1999,10 +3514,21 @@ export class MatrixClient extends EventEmitter {
      * @param {boolean} raw If true, the raw response will be returned instead of the response body.
      * @param {string} contentType The content type to send. Only used if the `body` is a Buffer.
      * @param {string} noEncoding Set to true to disable encoding, and return a Buffer. Defaults to false
+     * @param {AbortSignal} signal A signal to cancel the request with. Optional.
      * @returns {Promise<any>} Resolves to the response (body), rejected if a non-2xx status code was returned.
      */
     @timedMatrixClientFunctionCall()
-    public doRequest(method, endpoint, qs = null, body = null, timeout = 60000, raw = false, contentType = "application/json", noEncoding = false): Promise<any> {
+    public doRequest(
+        method,
+        endpoint,
+        qs = null,
+        body = null,
+        timeout = 60000,
+        raw = false,
+        contentType = "application/json",
+        noEncoding = false,
+        signal: AbortSignal = null,
+    ): Promise<any> {
         if (this.impersonatedUserId) {
             if (!qs) qs = { "user_id": this.impersonatedUserId };
             else qs["user_id"] = this.impersonatedUserId;
@@ -2011,12 +3537,157 @@ export class MatrixClient extends EventEmitter {
             if (!qs) qs = { "org.matrix.msc3202.device_id": this.impersonatedDeviceId };
             else qs["org.matrix.msc3202.device_id"] = this.impersonatedDeviceId;
         }
-        const headers = {};
-        if (this.accessToken) {
-            headers["Authorization"] = `Bearer ${this.accessToken}`;
-        }
-        return doHttpRequest(this.homeserverUrl, method, endpoint, qs, body, headers, timeout, raw, contentType, noEncoding);
+        return this.sendRequest("doRequest", signal, (headers) => {
+            return doHttpRequest(this.homeserverUrl, method, endpoint, qs, body, headers, timeout, raw, contentType, noEncoding, signal);
+        });
+    }
+
+    /**
+     * Performs a web request to the homeserver like doRequest, but streams the request and response
+     * bodies rather than buffering them in memory. A streamed request body can only be sent once, so
+     * the request is not retried after a rate limit or an access token refresh once its body was read.
+     * @param {"GET"|"POST"|"PUT"|"DELETE"} method The HTTP method to use in the request
+     * @param {string} endpoint The endpoint to call. For example: "/_matrix/media/v3/upload"
+     * @param {Record<string, string>} qs The query string to send. Optional.
+     * @param {Readable} body The request body to stream. Optional.
+     * @param {Record<string, string>} headers Additional headers to send, such as the content type. Optional.
+     * @param {number} timeout The number of milliseconds to wait for the response headers before timing out.
+     * @param {AbortSignal} signal A signal to cancel the request with. Optional.
+     * @returns {Promise<HttpStreamResponse>} Resolves to the response once its headers have been received,
+     * rejected if a non-2xx status code was returned. The response body must be consumed (or destroyed).
+     */
+    @timedMatrixClientFunctionCall()
+    public doStreamRequest(
+        method: "GET" | "POST" | "PUT" | "DELETE",
+        endpoint: string,
+        qs: Record<string, string> = null,
+        body: Readable = null,
+        headers: Record<string, string> = {},
+        timeout = 60000,
+        signal: AbortSignal = null,
+    ): Promise<HttpStreamResponse> {
+        const query = new URLSearchParams({ ...qs, ...this.getImpersonationParams() }).toString();
+        const url = `${this.homeserverUrl}${endpoint}${query ? `?${query}` : ""}`;
+        let lastError: any;
+        return this.sendRequest("doStreamRequest", signal, async (authHeaders) => {
+            if (lastError && body?.readableDidRead) throw lastError;
+            try {
+                return await doHttpStreamRequest(method, url, body, { ...headers, ...authHeaders }, timeout, signal);
+            } catch (e) {
+                lastError = e;
+                throw e;
+            }
+        });
+    }
+
+    private sendRequest<T>(functionName: string, signal: AbortSignal, send: (headers: Record<string, string>) => Promise<T>): Promise<T> {
+        const sendWithToken = (accessToken: string) => {
+            const headers = {};
+            if (accessToken) {
+                headers["Authorization"] = `Bearer ${accessToken}`;
+            }
+            return send(headers);
+        };
+        const request = async () => {
+            const accessToken = this.accessToken;
+            try {
+                return await sendWithToken(accessToken);
+            } catch (e) {
+                if (!this.refreshToken || !isSoftLogout(e)) throw e;
+
+                // Another request may have already refreshed the token while this one was in flight.
+                if (this.accessToken === accessToken) {
+                    LogService.info("MatrixClientLite", "Access token has expired - refreshing");
+                    await this.refreshAccessToken();
+                }
+                return sendWithToken(this.accessToken);
+            }
+        };
+        if (!this.requestScheduler) return request();
+
+        const context = this.metrics.assignUniqueContextId(<MatrixClientCallContext>{
+            functionName,
+            client: <MatrixClient>this,
+        });
+        return this.requestScheduler.schedule(request, this.metrics, context, signal);
+    }
+}
+
+function isSoftLogout(err: any): boolean {
+    return err instanceof MatrixError && err.errcode === "M_UNKNOWN_TOKEN" && !!err.body?.["soft_logout"];
+}
+
+function parseMxc(mxc: string): { domain: string, mediaId: string } {
+    if (!mxc?.toLowerCase().startsWith("mxc://")) throw new Error("Not a MXC URI");
+    const [domain, ...mediaIdParts] = mxc.substring("mxc://".length).split("/");
+    const mediaId = mediaIdParts.join("/");
+    if (!domain || !mediaId) throw new Error("Missing domain or media ID");
+    return { domain, mediaId };
+}
+
+function mediaPath(endpoint: "download" | "thumbnail" | "config" | "preview_url", authenticated: boolean): string {
+    return (authenticated ? "/_matrix/client/v1/media/" : "/_matrix/media/v3/") + endpoint;
+}
+
+function thumbnailQuery(opts: ThumbnailOptions): Record<string, string> {
+    const qs = {
+        width: String(opts.width),
+        height: String(opts.height),
+        method: opts.method ?? "scale",
+    };
+    if (opts.animated !== undefined) qs["animated"] = String(opts.animated);
+    return qs;
+}
+
+async function getStreamLength(stream: Readable): Promise<number | undefined> {
+    // Only whole files have a known length: anything else has to be sent chunked.
+    const file = <ReturnType<typeof createReadStream>>stream;
+    if (typeof file.path !== "string" || file["start"] !== undefined || file["end"] !== Infinity) return undefined;
+    return (await fs.stat(file.path)).size;
+}
+
+function withProgress(stream: Readable, onProgress: MediaProgressCallback, totalBytes?: number): Readable {
+    let transferred = 0;
+    const counter = new Transform({
+        transform(chunk, encoding, callback) {
+            transferred += chunk.length;
+            onProgress(transferred, totalBytes);
+            callback(null, chunk);
+        },
+    });
+    // Errors are surfaced to whoever consumes the counter.
+    return pipeline(stream, counter, () => null);
+}
+
+async function readStream(stream: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+        chunks.push(Buffer.from(chunk));
     }
+    return Buffer.concat(chunks);
+}
+
+function pushRulePath(kind: PushRuleKind, ruleId: string): string {
+    return "/_matrix/client/v3/pushrules/global/" + encodeURIComponent(kind) + "/" + encodeURIComponent(ruleId);
+}
+
+function ownReceiptKey(receiptType: string, threadId?: string): string {
+    return JSON.stringify([receiptType, threadId ?? null]);
+}
+
+function getThreadRootId(event: any): string | null {
+    const relation = event['content']?.['m.relates_to'];
+    if (relation?.['rel_type'] !== "m.thread" || typeof relation['event_id'] !== "string") return null;
+    return relation['event_id'];
+}
+
+function withOwnMembership<T extends SlidingSyncRoomConfig>(config: T): T {
+    const requiredState = config.required_state ?? [];
+    const hasOwnMembership = requiredState.some(([type, stateKey]) => {
+        return (type === "m.room.member" || type === "*") && (stateKey === "$ME" || stateKey === "*");
+    });
+    if (hasOwnMembership) return config;
+    return { ...config, required_state: [...requiredState, ["m.room.member", "$ME"]] };
 }
 
 export interface RoomDirectoryLookupResponse {
@@ -0,0 +1,257 @@
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+
+import { MatrixClient } from "./MatrixClient";
+import { extractRequestError, LogService } from "./logging/LogService";
+import { MatrixError } from "./models/MatrixError";
+
+/**
+ * A message waiting in an outbox to be sent.
+ * @category Utilities
+ * @see Outbox
+ */
+export interface OutboxEntry {
+    /**
+     * The transaction ID the message is sent with. This stays the same across retries and
+     * restarts, so the homeserver never sends the message twice as long as the client keeps
+     * using the same access token.
+     */
+    txnId: string;
+
+    /**
+     * The room ID the message is being sent to.
+     */
+    roomId: string;
+
+    /**
+     * The event type of the message.
+     */
+    eventType: string;
+
+    /**
+     * The content of the message, before any encryption.
+     */
+    content: any;
+
+    /**
+     * The timestamp (in milliseconds) the message was queued at.
+     */
+    queuedAt: number;
+
+    /**
+     * The number of attempts made to send the message so far.
+     */
+    attempts: number;
+}
+
+/**
+ * The options for an outbox.
+ * @category Utilities
+ * @see Outbox
+ */
+export interface OutboxOptions {
+    /**
+     * The storage key to persist pending messages under. Outboxes sharing a storage provider
+     * must use different keys. Defaults to "outbox".
+     */
+    storageKey?: string;
+
+    /**
+     * The number of attempts to make at sending a message before it is considered failed.
+     * Defaults to 10.
+     */
+    maxAttempts?: number;
+
+    /**
+     * The delay before the first retry of a message, doubling with each further retry.
+     * Defaults to 1 second.
+     */
+    retryDelayMs?: number;
+
+    /**
+     * The longest delay between retries of a message. Defaults to 5 minutes.
+     */
+    maxRetryDelayMs?: number;
+}
+
+/**
+ * Reliably sends messages, persisting them in the client's storage provider until they have
+ * been sent. Pending messages are retried with the same transaction ID, including after a
+ * restart, and messages to the same room are always sent in the order they were queued.
+ *
+ * Messages are only sent once the outbox has been started. The outbox emits the following
+ * events for each message:
+ * - "queued" with the OutboxEntry, once the message has been persisted.
+ * - "sent" with the OutboxEntry and the event ID of the sent message.
+ * - "failed" with the OutboxEntry and the error, once the outbox has given up on the message.
+ * Messages are failed when the homeserver rejects them outright, or when they run out of attempts.
+ * @category Utilities
+ */
+export class Outbox extends EventEmitter {
+    private readonly storageKey: string;
+    private readonly maxAttempts: number;
+    private readonly retryDelayMs: number;
+    private readonly maxRetryDelayMs: number;
+    private entries: OutboxEntry[] = [];
+    private loaded: Promise<void>;
+    private persisting: Promise<void> = Promise.resolve();
+    private sendingRooms = new Set<string>();
+    private retryTimers = new Map<NodeJS.Timeout, () => void>(); // timer => resolves the wait
+    private running = false;
+
+    /**
+     * Creates a new outbox.
+     * @param {MatrixClient} client The client to send messages with, and persist them in the storage of.
+     * @param {OutboxOptions} options The options for the outbox. Optional.
+     */
+    public constructor(private client: MatrixClient, options: OutboxOptions = {}) {
+        super();
+        this.storageKey = options.storageKey ?? "outbox";
+        this.maxAttempts = options.maxAttempts ?? 10;
+        this.retryDelayMs = options.retryDelayMs ?? 1000;
+        this.maxRetryDelayMs = options.maxRetryDelayMs ?? 5 * 60 * 1000;
+    }
+
+    /**
+     * The messages which have not yet been sent or failed, in the order they were queued.
+     */
+    public get pending(): OutboxEntry[] {
+        return [...this.entries];
+    }
+
+    /**
+     * Starts sending messages, including any left over from a previous run.
+     * @returns {Promise<void>} Resolves once the persisted messages have been loaded.
+     */
+    public async start(): Promise<void> {
+        await this.load();
+        this.running = true;
+        for (const roomId of new Set(this.entries.map(e => e.roomId))) {
+            // noinspection JSIgnoredPromiseFromCall
+            this.sendRoomMessages(roomId);
+        }
+    }
+
+    /**
+     * Stops sending messages. Messages already being sent will finish their current attempt,
+     * and messages waiting to be retried stop waiting.
+     */
+    public stop() {
+        this.running = false;
+        for (const [timer, resolve] of this.retryTimers) {
+            clearTimeout(timer);
+            resolve();
+        }
+        this.retryTimers.clear();
+    }
+
+    /**
+     * Queues a message to be sent. The message will be encrypted if the room is encrypted
+     * and the client supports encryption.
+     * @param {string} roomId The room ID to send the message to.
+     * @param {string} eventType The event type of the message.
+     * @param {any} content The content of the message.
+     * @returns {Promise<OutboxEntry>} Resolves to the queued message once it has been persisted.
+     */
+    public async enqueue(roomId: string, eventType: string, content: any): Promise<OutboxEntry> {
+        await this.load();
+        const entry: OutboxEntry = {
+            txnId: `outbox_${randomUUID()}`,
+            roomId,
+            eventType,
+            content,
+            queuedAt: Date.now(),
+            attempts: 0,
+        };
+        this.entries.push(entry);
+        await this.persist();
+        this.emit("queued", entry);
+
+        if (this.running) {
+            // noinspection JSIgnoredPromiseFromCall
+            this.sendRoomMessages(roomId);
+        }
+        return entry;
+    }
+
+    private load(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = Promise.resolve(this.client.storageProvider.readValue(this.storageKey)).then(value => {
+                this.entries = [...JSON.parse(value || "[]"), ...this.entries];
+            });
+        }
+        return this.loaded;
+    }
+
+    private persist(): Promise<void> {
+        // Writes are chained so that an older snapshot can never overwrite a newer one.
+        const value = JSON.stringify(this.entries);
+        const write = this.persisting.then(() => this.client.storageProvider.storeValue(this.storageKey, value));
+        this.persisting = write.catch(() => {});
+        return write;
+    }
+
+    private async sendRoomMessages(roomId: string) {
+        // Only one message is sent to each room at a time, to keep them in order.
+        if (this.sendingRooms.has(roomId)) return;
+        this.sendingRooms.add(roomId);
+        try {
+            let entry: OutboxEntry;
+            while (this.running && (entry = this.entries.find(e => e.roomId === roomId))) {
+                await this.trySend(entry);
+            }
+        } catch (e) {
+            LogService.error("Outbox", `Stopped sending messages to ${roomId}:`, extractRequestError(e));
+        } finally {
+            this.sendingRooms.delete(roomId);
+        }
+    }
+
+    private async trySend(entry: OutboxEntry) {
+        entry.attempts++;
+        let eventId: string;
+        try {
+            eventId = await this.client.sendEvent(entry.roomId, entry.eventType, entry.content, entry.txnId);
+        } catch (e) {
+            if (!isRetryable(e) || entry.attempts >= this.maxAttempts) {
+                LogService.error("Outbox", `Failed to send ${entry.txnId} to ${entry.roomId}:`, extractRequestError(e));
+                await this.remove(entry);
+                this.emit("failed", entry, e);
+                return;
+            }
+
+            const backoffMs = Math.min(this.retryDelayMs * Math.pow(2, entry.attempts - 1), this.maxRetryDelayMs);
+            const delayMs = (e instanceof MatrixError ? e.retryAfterMs : undefined) ?? backoffMs;
+            LogService.warn("Outbox", `Error sending ${entry.txnId} to ${entry.roomId} - retrying in ${delayMs}ms:`, extractRequestError(e));
+            await this.persist();
+            await this.waitForRetry(delayMs);
+            return;
+        }
+
+        await this.remove(entry);
+        this.emit("sent", entry, eventId);
+    }
+
+    private waitForRetry(delayMs: number): Promise<void> {
+        return new Promise<void>(resolve => {
+            if (!this.running) return resolve();
+            const timer = setTimeout(() => {
+                this.retryTimers.delete(timer);
+                resolve();
+            }, delayMs);
+            this.retryTimers.set(timer, resolve);
+        });
+    }
+
+    private remove(entry: OutboxEntry): Promise<void> {
+        this.entries = this.entries.filter(e => e !== entry);
+        return this.persist();
+    }
+}
+
+function isRetryable(err: any): boolean {
+    // Requests the homeserver refused will be refused again, unless it was rate limiting.
+    const statusCode = err?.statusCode;
+    if (typeof statusCode !== "number" || statusCode < 400 || statusCode >= 500) return true;
+    return statusCode === 429 || (err instanceof MatrixError && err.errcode === "M_LIMIT_EXCEEDED");
+}
@@ -0,0 +1,180 @@
+import { LogService } from "./logging/LogService";
+import { MatrixError } from "./models/MatrixError";
+import { Metrics } from "./metrics/Metrics";
+import { IMetricContext } from "./metrics/contexts";
+import { METRIC_MATRIX_CLIENT_RATE_LIMITED_REQUEST, METRIC_MATRIX_CLIENT_REQUEST_QUEUE_DEPTH } from "./metrics/names";
+
+/**
+ * The options for a request scheduler.
+ * @category Utilities
+ * @see RequestScheduler
+ */
+export interface RequestSchedulerOptions {
+    /**
+     * The maximum number of requests to have in flight at once. Further requests wait
+     * in a queue until a slot is free. Defaults to 10.
+     */
+    maxConcurrent?: number;
+
+    /**
+     * The maximum number of times to retry a rate limited request before giving up
+     * and rejecting with the error. Defaults to 5.
+     */
+    maxRetries?: number;
+
+    /**
+     * The delay to use when the server rate limits a request without saying how long
+     * to wait for. Defaults to 5 seconds.
+     */
+    defaultRetryAfterMs?: number;
+
+    /**
+     * The longest delay the scheduler will wait before retrying. If the server asks for
+     * a longer delay, the request is rejected with the error instead. Defaults to 5 minutes.
+     */
+    maxRetryAfterMs?: number;
+
+    /**
+     * The maximum random delay to add on top of the server's delay, so that requests
+     * which were rate limited together are not retried together. Defaults to 1 second.
+     */
+    jitterMs?: number;
+}
+
+/**
+ * Schedules the requests made by a client, capping how many are in flight at once and
+ * retrying requests which were rate limited after the delay the server asked for.
+ * @category Utilities
+ * @see MatrixClient.setRequestScheduler
+ */
+export class RequestScheduler {
+    private readonly maxConcurrent: number;
+    private readonly maxRetries: number;
+    private readonly defaultRetryAfterMs: number;
+    private readonly maxRetryAfterMs: number;
+    private readonly jitterMs: number;
+    private inFlight = 0;
+    private queue: (() => void)[] = [];
+
+    /**
+     * Creates a new request scheduler.
+     * @param {RequestSchedulerOptions} options The options for the scheduler. Optional.
+     */
+    constructor(options: RequestSchedulerOptions = {}) {
+        this.maxConcurrent = options.maxConcurrent ?? 10;
+        this.maxRetries = options.maxRetries ?? 5;
+        this.defaultRetryAfterMs = options.defaultRetryAfterMs ?? 5000;
+        this.maxRetryAfterMs = options.maxRetryAfterMs ?? 5 * 60 * 1000;
+        this.jitterMs = options.jitterMs ?? 1000;
+
+        if (this.maxConcurrent < 1) throw new Error("At least one concurrent request must be allowed");
+    }
+
+    /**
+     * The number of requests waiting for a slot to be in flight.
+     */
+    public get queueDepth(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * The number of requests currently in flight.
+     */
+    public get inFlightCount(): number {
+        return this.inFlight;
+    }
+
+    /**
+     * Schedules a request, retrying it while it is rate limited. The request function may
+     * be called several times, so must make a new request each time.
+     * @param {Function} request The function which makes the request.
+     * @param {Metrics} metrics The metrics to record the queue depth and rate limiting with. Optional.
+     * @param {IMetricContext} context The context to record metrics with. Required if metrics are supplied.
+     * @param {AbortSignal} signal A signal to cancel the request with. Optional. A cancelled request is
+     * removed from the queue and not retried, rejecting with the reason of the signal.
+     * @returns {Promise<T>} Resolves to the result of the request, or rejects with its error.
+     */
+    public async schedule<T>(request: () => Promise<T>, metrics?: Metrics, context?: IMetricContext, signal?: AbortSignal): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            signal?.throwIfAborted();
+            await this.acquire(metrics, context, signal);
+            let delayMs: number;
+            try {
+                return await request();
+            } catch (e) {
+                delayMs = this.getRetryDelay(e, attempt);
+                if (delayMs === undefined) throw e;
+            } finally {
+                this.release();
+            }
+
+            metrics?.increment(METRIC_MATRIX_CLIENT_RATE_LIMITED_REQUEST, context, 1);
+            LogService.warn("RequestScheduler", `Request was rate limited: retrying in ${delayMs}ms`);
+            await sleep(delayMs, signal);
+        }
+    }
+
+    private acquire(metrics: Metrics, context: IMetricContext, signal: AbortSignal): Promise<void> {
+        if (this.inFlight < this.maxConcurrent) {
+            this.inFlight++;
+            return Promise.resolve();
+        }
+
+        metrics?.increment(METRIC_MATRIX_CLIENT_REQUEST_QUEUE_DEPTH, context, 1);
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                this.queue = this.queue.filter(e => e !== entry);
+                metrics?.decrement(METRIC_MATRIX_CLIENT_REQUEST_QUEUE_DEPTH, context, 1);
+                reject(signal.reason);
+            };
+            const entry = () => {
+                signal?.removeEventListener("abort", onAbort);
+                metrics?.decrement(METRIC_MATRIX_CLIENT_REQUEST_QUEUE_DEPTH, context, 1);
+                resolve();
+            };
+            this.queue.push(entry);
+            signal?.addEventListener("abort", onAbort, { once: true });
+        });
+    }
+
+    private release() {
+        // The slot is handed straight to the next queued request, if there is one.
+        const next = this.queue.shift();
+        if (next) next();
+        else this.inFlight--;
+    }
+
+    private getRetryDelay(err: any, attempt: number): number | undefined {
+        if (attempt >= this.maxRetries) return undefined;
+
+        let delayMs: number;
+        if (err instanceof MatrixError) {
+            if (err.errcode !== "M_LIMIT_EXCEEDED" && err.statusCode !== 429) return undefined;
+            delayMs = err.retryAfterMs;
+        } else if (err?.statusCode === 429) {
+            // Rate limits without a Matrix error body may still say when to retry, in seconds.
+            const retryAfter = Number(err.headers?.["retry-after"]);
+            if (Number.isFinite(retryAfter)) delayMs = retryAfter * 1000;
+        } else {
+            return undefined;
+        }
+
+        delayMs = Math.max(0, delayMs ?? this.defaultRetryAfterMs);
+        if (delayMs > this.maxRetryAfterMs) return undefined;
+        return delayMs + Math.floor(Math.random() * this.jitterMs);
+    }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
@@ -1,4 +1,5 @@
 import { MatrixClient } from "./MatrixClient";
+import { RefreshedTokens, TokenRefreshCallback } from "./models/Tokens";
 
 /**
  * A MatrixClient class that handles events in sync for the /sync loop, instead
@@ -12,26 +13,49 @@ export abstract class SynchronousMatrixClient extends MatrixClient {
      * Creates a new SynchronousMatrixClient. Note that this accepts a MatrixClient, though
      * much of the class's properties are not brought over. Always convert your MatrixClient
      * instance to a SynchronousMatrixClient as soon as possible to avoid diversion in which
-     * properties are proxied over.
+     * properties are proxied over. The access and refresh tokens are shared with the base
+     * client, so a refresh by either client updates both.
      * @param {MatrixClient} baseClient The client to wrap.
      */
-    protected constructor(baseClient: MatrixClient) {
+    protected constructor(private readonly baseClient: MatrixClient) {
         super(baseClient.homeserverUrl, baseClient.accessToken, baseClient.storageProvider);
     }
 
-    private async handleEvent(emitType: string, arg1: any, arg2: any): Promise<any> {
+    public get accessToken(): string {
+        return this.baseClient.accessToken;
+    }
+
+    public get refreshToken(): string {
+        return this.baseClient.refreshToken;
+    }
+
+    public get tokenRefreshCallback(): TokenRefreshCallback {
+        return this.baseClient.tokenRefreshCallback;
+    }
+
+    public setRefreshToken(refreshToken: string | null, callback: TokenRefreshCallback = null): void {
+        this.baseClient.setRefreshToken(refreshToken, callback);
+    }
+
+    public refreshAccessToken(): Promise<RefreshedTokens> {
+        return this.baseClient.refreshAccessToken();
+    }
+
+    private async handleEvent(emitType: string, arg1: any, arg2: any, arg3: any): Promise<any> {
         if (emitType === 'account_data') await this.onAccountData(arg1);
         if (emitType === 'room.account_data') await this.onRoomAccountData(arg1, arg2);
         if (emitType === 'room.leave') await this.onRoomLeave(arg1, arg2);
         if (emitType === 'room.invite') await this.onRoomInvite(arg1, arg2);
+        if (emitType === 'room.knock') await this.onRoomKnock(arg1, arg2);
         if (emitType === 'room.join') await this.onRoomJoin(arg1, arg2);
         if (emitType === 'room.archived') await this.onRoomArchived(arg1, arg2);
         if (emitType === 'room.upgraded') await this.onRoomUpgraded(arg1, arg2);
         if (emitType === 'room.message') await this.onRoomMessage(arg1, arg2);
+        if (emitType === 'room.thread_event') await this.onRoomThreadEvent(arg1, arg2, arg3);
         if (emitType === 'room.event') await this.onRoomEvent(arg1, arg2);
 
         // Still emit though for easier support of plugins.
-        this.emit(emitType, arg1, arg2);
+        this.emit(emitType, arg1, arg2, arg3);
     }
 
     protected startSyncInternal(): Promise<any> {
@@ -77,6 +101,16 @@ export abstract class SynchronousMatrixClient extends MatrixClient {
         return;
     }
 
+    /**
+     * Handles the `room.knock` event raised by the client.
+     * @param {string} roomId The Room ID the event happened in.
+     * @param {any} event The event.
+     * @returns {Promise<any>} Resolves when complete.
+     */
+    protected onRoomKnock(roomId: string, event: any): Promise<any> {
+        return;
+    }
+
     /**
      * Handles the `room.join` event raised by the client.
      * @param {string} roomId The Room ID the event happened in.
@@ -97,6 +131,17 @@ export abstract class SynchronousMatrixClient extends MatrixClient {
         return;
     }
 
+    /**
+     * Handles the `room.thread_event` event raised by the client.
+     * @param {string} roomId The Room ID the event happened in.
+     * @param {any} event The event sent in the thread.
+     * @param {any} threadRoot The root event of the thread.
+     * @returns {Promise<any>} Resolves when complete.
+     */
+    protected onRoomThreadEvent(roomId: string, event: any, threadRoot: any): Promise<any> {
+        return;
+    }
+
     /**
      * Handles the `room.archived` event raised by the client.
      * @param {string} roomId The Room ID the event happened in.
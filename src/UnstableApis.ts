@@ -26,6 +26,7 @@ export class UnstableApis {
      * @param {string} eventId The event ID to react against, in the given room
      * @param {string} emoji The emoji to react with
      * @returns {Promise<string>} Resolves to the event ID of the reaction
+     * @deprecated Use MatrixClient.sendReaction() instead.
      */
     public async addReactionToEvent(roomId: string, eventId: string, emoji: string): Promise<string> {
         return this.client.sendRawEvent(roomId, "m.reaction", {
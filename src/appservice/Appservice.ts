@@ -645,6 +645,8 @@ export class Appservice extends EventEmitter {
             this.emit("room.leave", event["room_id"], event);
         } else if (targetMembership === "invite") {
             this.emit("room.invite", event["room_id"], event);
+        } else if (targetMembership === "knock") {
+            this.emit("room.knock", event["room_id"], event);
         }
     }
 
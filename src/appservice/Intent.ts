@@ -1,3 +1,5 @@
+import { Readable } from "stream";
+
 import {
     DeviceKeyAlgorithm,
     extractRequestError,
@@ -5,6 +7,7 @@ import {
     IAppserviceStorageProvider,
     ICryptoStorageProvider,
     LogService,
+    MatrixAuth,
     MatrixClient,
     Metrics,
 } from "..";
@@ -13,6 +16,14 @@ import { Appservice, IAppserviceOptions } from "./Appservice";
 import { timedIntentFunctionCall } from "../metrics/decorators";
 import { UnstableAppserviceApis } from "./UnstableAppserviceApis";
 import { MatrixError } from "../models/MatrixError";
+import {
+    PendingMedia,
+    SendAudioOptions,
+    SendFileOptions,
+    SendImageOptions,
+    SendVideoOptions,
+    StreamUploadOptions,
+} from "../models/Media";
 
 /**
  * An Intent is an intelligent client that tracks things like the user's membership
@@ -147,15 +158,9 @@ export class Intent {
                         // XXX: We work around servers that don't support device_id impersonation
                         const accessToken = await Promise.resolve(storage?.readValue("accessToken"));
                         if (!accessToken) {
-                            const loginBody = {
-                                type: "m.login.application_service",
-                                identifier: {
-                                    type: "m.id.user",
-                                    user: this.userId,
-                                },
-                            };
-                            const res = await this.client.doRequest("POST", "/_matrix/client/v3/login", {}, loginBody);
-                            this.makeClient(true, res['access_token']);
+                            const auth = new MatrixAuth(this.options.homeserverUrl);
+                            const deviceClient = await auth.appserviceLogin(this.userId, this.options.registration.as_token);
+                            this.makeClient(true, deviceClient.accessToken);
                             storage.storeValue("accessToken", this.client.accessToken);
                             prepared = true;
                         } else {
@@ -252,6 +257,87 @@ export class Intent {
         return this.client.sendMessage(roomId, content);
     }
 
+    /**
+     * Uploads and sends a file to a room, encrypting it if the room is encrypted.
+     * @param {string} roomId The room ID to send the file to.
+     * @param {Buffer} data The file's content.
+     * @param {SendFileOptions} opts The file's name, type, caption and thumbnail. Optional.
+     * @returns {Promise<string>} Resolves to the event ID of the sent message.
+     * @see MatrixClient.sendFile
+     */
+    @timedIntentFunctionCall()
+    public async sendFile(roomId: string, data: Buffer, opts: SendFileOptions = {}): Promise<string> {
+        await this.ensureRegisteredAndJoined(roomId);
+        return this.client.sendFile(roomId, data, opts);
+    }
+
+    /**
+     * Uploads and sends an image to a room, encrypting it if the room is encrypted.
+     * @param {string} roomId The room ID to send the image to.
+     * @param {Buffer} data The image's content.
+     * @param {SendImageOptions} opts The image's name, type, dimensions, caption and thumbnail. Optional.
+     * @returns {Promise<string>} Resolves to the event ID of the sent message.
+     * @see MatrixClient.sendImage
+     */
+    @timedIntentFunctionCall()
+    public async sendImage(roomId: string, data: Buffer, opts: SendImageOptions = {}): Promise<string> {
+        await this.ensureRegisteredAndJoined(roomId);
+        return this.client.sendImage(roomId, data, opts);
+    }
+
+    /**
+     * Uploads and sends a video to a room, encrypting it if the room is encrypted.
+     * @param {string} roomId The room ID to send the video to.
+     * @param {Buffer} data The video's content.
+     * @param {SendVideoOptions} opts The video's name, type, dimensions, duration, caption and thumbnail. Optional.
+     * @returns {Promise<string>} Resolves to the event ID of the sent message.
+     * @see MatrixClient.sendVideo
+     */
+    @timedIntentFunctionCall()
+    public async sendVideo(roomId: string, data: Buffer, opts: SendVideoOptions = {}): Promise<string> {
+        await this.ensureRegisteredAndJoined(roomId);
+        return this.client.sendVideo(roomId, data, opts);
+    }
+
+    /**
+     * Uploads and sends audio to a room, encrypting it if the room is encrypted.
+     * @param {string} roomId The room ID to send the audio to.
+     * @param {Buffer} data The audio's content.
+     * @param {SendAudioOptions} opts The audio's name, type, duration and caption. Optional.
+     * @returns {Promise<string>} Resolves to the event ID of the sent message.
+     * @see MatrixClient.sendAudio
+     */
+    @timedIntentFunctionCall()
+    public async sendAudio(roomId: string, data: Buffer, opts: SendAudioOptions = {}): Promise<string> {
+        await this.ensureRegisteredAndJoined(roomId);
+        return this.client.sendAudio(roomId, data, opts);
+    }
+
+    /**
+     * Reserves a media ID on the homeserver as this user, for uploading content to later.
+     * @returns {Promise<PendingMedia>} Resolves to the reserved media.
+     * @see MatrixClient.createMedia
+     */
+    @timedIntentFunctionCall()
+    public async createMedia(): Promise<PendingMedia> {
+        await this.ensureRegistered();
+        return this.client.createMedia();
+    }
+
+    /**
+     * Uploads the content for a media ID previously reserved with createMedia.
+     * @param {string} mxcUrl The MXC URI of the reserved media.
+     * @param {Buffer|Readable} data The content to upload, either in full or as a stream.
+     * @param {StreamUploadOptions} opts The options for the upload. Optional.
+     * @returns {Promise<void>} Resolves when the content has been uploaded.
+     * @see MatrixClient.uploadPendingContent
+     */
+    @timedIntentFunctionCall()
+    public async uploadPendingContent(mxcUrl: string, data: Buffer | Readable, opts: StreamUploadOptions = {}): Promise<void> {
+        await this.ensureRegistered();
+        return this.client.uploadPendingContent(mxcUrl, data, opts);
+    }
+
     /**
      * Ensures the user is registered and joined to the given room.
      * @param {string} roomId The room ID to join
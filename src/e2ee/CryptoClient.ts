@@ -7,6 +7,8 @@ import {
     Attachment,
     EncryptedAttachment,
 } from "@matrix-org/matrix-sdk-crypto-nodejs";
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { pipeline, Readable, Transform } from "stream";
 
 import { MatrixClient } from "../MatrixClient";
 import { LogService } from "../logging/LogService";
@@ -26,6 +28,8 @@ import { EncryptedFile } from "../models/events/MessageEvent";
 import { RustSdkCryptoStorageProvider } from "../storage/RustSdkCryptoStorageProvider";
 import { RustEngine, SYNC_LOCK_NAME } from "./RustEngine";
 import { MembershipEvent } from "../models/events/MembershipEvent";
+import { UnpaddedBase64 } from "../helpers/UnpaddedBase64";
+import { StreamDownloadOptions } from "../models/Media";
 
 /**
  * Manages encryption for a MatrixClient. Get an instance from a MatrixClient directly
@@ -278,6 +282,59 @@ export class CryptoClient {
         };
     }
 
+    /**
+     * Encrypts a file as it is read from a stream, for uploading in a room without holding the
+     * whole file in memory. The information to include in a message event (except media URL)
+     * is only complete once the encrypted stream has been fully consumed.
+     * @param {Readable} file The file to encrypt.
+     * @returns {{stream: Readable, file: Promise<Omit<EncryptedFile, "url">>}} Resolves to the
+     * encrypted stream, and a promise for the file information which resolves once the stream
+     * has been consumed.
+     */
+    @requiresReady()
+    public async encryptMediaStream(file: Readable): Promise<{ stream: Readable, file: Promise<Omit<EncryptedFile, "url">> }> {
+        const key = randomBytes(32);
+        const iv = Buffer.concat([randomBytes(8), Buffer.alloc(8)]); // the lower half is the block counter
+        const hash = createHash("sha256");
+
+        let resolveInfo: (info: Omit<EncryptedFile, "url">) => void;
+        let rejectInfo: (err: Error) => void;
+        const info = new Promise<Omit<EncryptedFile, "url">>((resolve, reject) => {
+            resolveInfo = resolve;
+            rejectInfo = reject;
+        });
+        info.catch(() => null); // callers may only be interested in the stream's own error
+
+        const hasher = new Transform({
+            transform(chunk, encoding, callback) {
+                hash.update(chunk);
+                callback(null, chunk);
+            },
+            flush(callback) {
+                resolveInfo({
+                    v: "v2",
+                    key: {
+                        kty: "oct",
+                        key_ops: ["encrypt", "decrypt"],
+                        alg: "A256CTR",
+                        k: UnpaddedBase64.encodeBufferUrlSafe(key),
+                        ext: true,
+                    },
+                    iv: UnpaddedBase64.encodeBuffer(iv),
+                    hashes: {
+                        sha256: UnpaddedBase64.encodeBuffer(hash.digest()),
+                    },
+                });
+                callback();
+            },
+        });
+
+        const stream = pipeline(file, createCipheriv("aes-256-ctr", key, iv), hasher, err => {
+            if (err) rejectInfo(err);
+        });
+        return { stream, file: info };
+    }
+
     /**
      * Decrypts a previously-uploaded encrypted file, validating the fields along the way.
      * @param {EncryptedFile} file The file to decrypt.
@@ -293,4 +350,42 @@ export class CryptoClient {
         const decrypted = Attachment.decrypt(encrypted);
         return Buffer.from(decrypted);
     }
+
+    /**
+     * Decrypts a previously-uploaded encrypted file as it is downloaded, without holding the
+     * whole file in memory. The hash of the file can only be checked once it has been downloaded
+     * in full, so the stream errors at its end if the file was tampered with: callers must not
+     * trust the contents until the stream has ended without error.
+     * @param {EncryptedFile} file The file to decrypt.
+     * @param {StreamDownloadOptions} opts The options for downloading the file. Thumbnails are
+     * not available for encrypted files. Optional.
+     * @returns {Promise<Readable>} Resolves to the decrypted contents of the file.
+     */
+    @requiresReady()
+    public async decryptMediaStream(file: EncryptedFile, opts: Omit<StreamDownloadOptions, "thumbnail"> = {}): Promise<Readable> {
+        if (file?.v !== "v2" || file.key?.alg !== "A256CTR" || !file.key.k || !file.iv || !file.hashes?.sha256) {
+            throw new Error("Unsupported or invalid encrypted file");
+        }
+
+        const key = Buffer.from(file.key.k, "base64url");
+        const iv = Buffer.from(file.iv, "base64");
+        const expectedHash = file.hashes.sha256.replace(/=+$/, "");
+        const hash = createHash("sha256");
+        const verifier = new Transform({
+            transform(chunk, encoding, callback) {
+                hash.update(chunk);
+                callback(null, chunk);
+            },
+            flush(callback) {
+                if (UnpaddedBase64.encodeBuffer(hash.digest()) !== expectedHash) {
+                    callback(new Error("Encrypted file hash does not match"));
+                } else {
+                    callback();
+                }
+            },
+        });
+
+        const download = await this.client.downloadContentStream(file.url, opts);
+        return pipeline(download.stream, verifier, createDecipheriv("aes-256-ctr", key, iv), () => null);
+    }
 }
@@ -0,0 +1,294 @@
+import { extractRequestError, LogService, MatrixClient } from "..";
+import { PushRule, PushRuleAction, PushRuleCondition, PushRuleKind, PushRules } from "../models/PushRules";
+
+const RULE_KIND_ORDER: PushRuleKind[] = ["override", "content", "room", "sender", "underride"];
+
+/**
+ * Information about the room an event is being evaluated in. Any values which are not
+ * supplied are looked up with the evaluator's client when a rule needs them.
+ * @category Utilities
+ * @see PushRuleEvaluator
+ */
+export interface PushRuleRoomContext {
+    /**
+     * The number of joined members in the room.
+     */
+    memberCount?: number;
+
+    /**
+     * The display name of the client's user in the room, if any.
+     */
+    displayName?: string | null;
+
+    /**
+     * The content of the room's `m.room.power_levels` state event.
+     */
+    powerLevels?: any;
+}
+
+/**
+ * The result of evaluating push rules against an event.
+ * @category Utilities
+ * @see PushRuleEvaluator
+ */
+export interface PushRuleEvaluation {
+    /**
+     * True if the event should notify the user.
+     */
+    notify: boolean;
+
+    /**
+     * True if the event should be highlighted to the user.
+     */
+    highlight: boolean;
+
+    /**
+     * The sound to play for the notification, if any.
+     */
+    sound?: string;
+
+    /**
+     * The actions of the matching rule. Empty if no rule matched.
+     */
+    actions: PushRuleAction[];
+
+    /**
+     * The rule which matched the event, or null if no rule matched.
+     */
+    rule: PushRule | null;
+}
+
+/**
+ * Evaluates the push rules of the client's account against events locally, making the
+ * same notification decisions the user's own clients would. The push rules are fetched
+ * on first use, and kept up to date from sync when watching a client.
+ * @category Utilities
+ */
+export class PushRuleEvaluator {
+    private rules: PushRules = null;
+
+    /**
+     * Creates a new push rule evaluator.
+     * @param {MatrixClient} client The client to get push rules and room information with.
+     */
+    constructor(private client: MatrixClient) {
+    }
+
+    /**
+     * Watch for push rule changes in the account data of the provided client.
+     * @param {MatrixClient} client The client to watch for push rule changes with.
+     */
+    public watchWithClient(client: MatrixClient) {
+        client.on("account_data", (event: any) => {
+            if (event?.['type'] !== "m.push_rules" || !event['content']) return;
+            this.rules = event['content'];
+        });
+    }
+
+    /**
+     * Sets the push rules to evaluate with, replacing any cached rules.
+     * @param {PushRules} rules The push rules.
+     */
+    public setRules(rules: PushRules) {
+        this.rules = rules;
+    }
+
+    /**
+     * Gets the push rules being evaluated with, fetching them if they are not yet known.
+     * @returns {Promise<PushRules>} Resolves to the push rules.
+     */
+    public async getRules(): Promise<PushRules> {
+        if (!this.rules) {
+            this.rules = await this.client.getPushRules();
+        }
+        return this.rules;
+    }
+
+    /**
+     * Evaluates the push rules against an event.
+     * @param {string} roomId The room ID the event was sent in.
+     * @param {any} event The event to evaluate.
+     * @param {PushRuleRoomContext} context Information about the room, if already known. Optional.
+     * @returns {Promise<PushRuleEvaluation>} Resolves to the outcome of the evaluation.
+     */
+    public async evaluate(roomId: string, event: any, context: PushRuleRoomContext = {}): Promise<PushRuleEvaluation> {
+        const userId = await this.client.getUserId();
+        if (event['sender'] === userId) {
+            // Users are never notified about their own events.
+            return { notify: false, highlight: false, actions: [], rule: null };
+        }
+
+        const ruleset = (await this.getRules())?.global ?? {};
+        const evaluator = new RoomEvaluator(this.client, roomId, userId, context);
+        for (const kind of RULE_KIND_ORDER) {
+            for (const rule of ruleset[kind] ?? []) {
+                if (!rule.enabled) continue;
+                if (await evaluator.matches(kind, rule, event)) {
+                    return toEvaluation(rule);
+                }
+            }
+        }
+        return { notify: false, highlight: false, actions: [], rule: null };
+    }
+}
+
+class RoomEvaluator {
+    constructor(private client: MatrixClient, private roomId: string, private userId: string, private context: PushRuleRoomContext) {
+    }
+
+    public async matches(kind: PushRuleKind, rule: PushRule, event: any): Promise<boolean> {
+        switch (kind) {
+            case "content":
+                if (typeof rule.pattern !== "string") return false;
+                return this.matchesCondition({ kind: "event_match", key: "content.body", pattern: rule.pattern }, event);
+            case "room":
+                return rule.rule_id === this.roomId;
+            case "sender":
+                return rule.rule_id === event['sender'];
+            default:
+                for (const condition of rule.conditions ?? []) {
+                    if (!(await this.matchesCondition(condition, event))) return false;
+                }
+                return true;
+        }
+    }
+
+    private async matchesCondition(condition: PushRuleCondition, event: any): Promise<boolean> {
+        switch (condition.kind) {
+            case "event_match": {
+                const value = getEventProperty(event, condition.key);
+                if (typeof value !== "string" || typeof condition.pattern !== "string") return false;
+                return globToRegex(condition.pattern, condition.key === "content.body").test(value);
+            }
+            case "event_property_is": {
+                const value = getEventProperty(event, condition.key);
+                return value !== undefined && value === condition.value;
+            }
+            case "event_property_contains": {
+                const value = getEventProperty(event, condition.key);
+                return Array.isArray(value) && value.some(v => v === condition.value);
+            }
+            case "contains_display_name": {
+                const body = event['content']?.['body'];
+                const displayName = await this.getDisplayName();
+                if (typeof body !== "string" || !displayName) return false;
+                return new RegExp(`(^|\\W)${escapeRegex(displayName)}(\\W|$)`, "i").test(body);
+            }
+            case "room_member_count": {
+                const memberCount = await this.getMemberCount();
+                return memberCount !== null && compareMemberCount(condition.is, memberCount);
+            }
+            case "sender_notification_permission": {
+                const powerLevels = await this.getPowerLevels();
+                const required = powerLevels?.['notifications']?.[condition.key] ?? 50;
+                const senderLevel = powerLevels?.['users']?.[event['sender']] ?? powerLevels?.['users_default'] ?? 0;
+                return senderLevel >= required;
+            }
+            default:
+                // Unknown conditions never match, per the specification.
+                return false;
+        }
+    }
+
+    private async getDisplayName(): Promise<string | null> {
+        if (this.context.displayName === undefined) {
+            try {
+                const member = await this.client.getRoomStateEvent(this.roomId, "m.room.member", this.userId);
+                this.context.displayName = member?.['displayname'] ?? null;
+            } catch (e) {
+                LogService.warn("PushRuleEvaluator", `Unable to get own display name in ${this.roomId}:`, extractRequestError(e));
+                this.context.displayName = null;
+            }
+        }
+        return this.context.displayName;
+    }
+
+    private async getMemberCount(): Promise<number | null> {
+        if (this.context.memberCount === undefined) {
+            try {
+                this.context.memberCount = (await this.client.getJoinedRoomMembers(this.roomId)).length;
+            } catch (e) {
+                LogService.warn("PushRuleEvaluator", `Unable to get joined members in ${this.roomId}:`, extractRequestError(e));
+                this.context.memberCount = null;
+            }
+        }
+        return this.context.memberCount;
+    }
+
+    private async getPowerLevels(): Promise<any> {
+        if (this.context.powerLevels === undefined) {
+            try {
+                this.context.powerLevels = await this.client.getRoomStateEvent(this.roomId, "m.room.power_levels", "");
+            } catch (e) {
+                LogService.warn("PushRuleEvaluator", `Unable to get power levels in ${this.roomId}:`, extractRequestError(e));
+                this.context.powerLevels = null;
+            }
+        }
+        return this.context.powerLevels;
+    }
+}
+
+function toEvaluation(rule: PushRule): PushRuleEvaluation {
+    const evaluation: PushRuleEvaluation = { notify: false, highlight: false, actions: rule.actions ?? [], rule };
+    for (const action of evaluation.actions) {
+        if (action === "notify") {
+            evaluation.notify = true;
+        } else if (typeof action === "object" && action?.set_tweak === "highlight") {
+            evaluation.highlight = action.value !== false;
+        } else if (typeof action === "object" && action?.set_tweak === "sound") {
+            evaluation.sound = action.value;
+        }
+    }
+    return evaluation;
+}
+
+function getEventProperty(event: any, key: string): any {
+    if (typeof key !== "string") return undefined;
+
+    // Keys are dot-separated, with backslashes escaping literal dots and backslashes.
+    const parts: string[] = [];
+    let current = "";
+    for (let i = 0; i < key.length; i++) {
+        if (key[i] === "\\" && (key[i + 1] === "." || key[i + 1] === "\\")) {
+            current += key[++i];
+        } else if (key[i] === ".") {
+            parts.push(current);
+            current = "";
+        } else {
+            current += key[i];
+        }
+    }
+    parts.push(current);
+
+    let value = event;
+    for (const part of parts) {
+        if (value === null || typeof value !== "object" || !Object.prototype.hasOwnProperty.call(value, part)) return undefined;
+        value = value[part];
+    }
+    return value;
+}
+
+function compareMemberCount(is: string, count: number): boolean {
+    const matches = (is ?? "").match(/^(==|<=|>=|<|>)?([0-9]+)$/);
+    if (!matches) return false;
+    const target = Number(matches[2]);
+    switch (matches[1]) {
+        case "<": return count < target;
+        case ">": return count > target;
+        case "<=": return count <= target;
+        case ">=": return count >= target;
+        default: return count === target;
+    }
+}
+
+function globToRegex(glob: string, wordBoundary: boolean): RegExp {
+    const pattern = escapeRegex(glob).replace(/\\\*/g, ".*").replace(/\\\?/g, ".");
+    if (wordBoundary) {
+        return new RegExp(`(^|\\W)${pattern}(\\W|$)`, "i");
+    }
+    return new RegExp(`^${pattern}$`, "i");
+}
+
+function escapeRegex(val: string): string {
+    return val.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
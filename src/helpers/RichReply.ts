@@ -10,7 +10,8 @@ export class RichReply {
 
     /**
      * Generates the event content required to reply to the provided event with the
-     * provided text.
+     * provided text. If the event being replied to is part of a thread, the reply will
+     * be sent to the same thread.
      * @param {string} roomId the room ID the event being replied to resides in
      * @param {any} event the event to reply to
      * @param {string} withText the plain text to reply with
@@ -31,12 +32,20 @@ export class RichReply {
             + "<br />" + originalHtml
             + "</blockquote></mx-reply>";
 
-        return {
-            "m.relates_to": {
-                "m.in_reply_to": {
-                    "event_id": event["event_id"],
-                },
+        const relatesTo = {
+            "m.in_reply_to": {
+                "event_id": event["event_id"],
             },
+        };
+        const threadRelation = event["content"]?.["m.relates_to"];
+        if (threadRelation?.["rel_type"] === "m.thread" && threadRelation["event_id"]) {
+            relatesTo["rel_type"] = "m.thread";
+            relatesTo["event_id"] = threadRelation["event_id"];
+            relatesTo["is_falling_back"] = false;
+        }
+
+        return {
+            "m.relates_to": relatesTo,
             "msgtype": "m.text", // for those who just want to send the reply as-is
             "body": fallbackText + "\n\n" + withText,
             "format": "org.matrix.custom.html",
@@ -1,8 +1,32 @@
+import { Readable } from "stream";
+
 import { LogLevel, LogService } from "./logging/LogService";
-import { getRequestFn } from "./request";
 import { MatrixError } from "./models/MatrixError";
+import { HttpTransportResponse, IHttpTransport } from "./transport/IHttpTransport";
+import { RequestHttpTransport } from "./transport/RequestHttpTransport";
 
 let lastRequestId = 0;
+let transport: IHttpTransport = new RequestHttpTransport();
+
+/**
+ * Sets the transport to send all HTTP requests with, such as a FetchHttpTransport
+ * configured with a proxy. Defaults to a RequestHttpTransport.
+ * @category Transports
+ * @param {IHttpTransport} newTransport The transport to use.
+ */
+export function setHttpTransport(newTransport: IHttpTransport) {
+    if (!newTransport) throw new Error("Transport cannot be null");
+    transport = newTransport;
+}
+
+/**
+ * Gets the transport all HTTP requests are sent with.
+ * @category Transports
+ * @returns {IHttpTransport} The transport.
+ */
+export function getHttpTransport(): IHttpTransport {
+    return transport;
+}
 
 /**
  * Performs a web request to a server.
@@ -17,6 +41,7 @@ let lastRequestId = 0;
  * @param {boolean} raw If true, the raw response will be returned instead of the response body.
  * @param {string} contentType The content type to send. Only used if the `body` is a Buffer.
  * @param {string} noEncoding Set to true to disable encoding, and return a Buffer. Defaults to false
+ * @param {AbortSignal} signal A signal to cancel the request with. Optional.
  * @returns {Promise<any>} Resolves to the response (body), rejected if a non-2xx status code was returned.
  */
 export async function doHttpRequest(
@@ -30,6 +55,7 @@ export async function doHttpRequest(
     raw = false,
     contentType = "application/json",
     noEncoding = false,
+    signal: AbortSignal = null,
 ): Promise<any> {
     if (!endpoint.startsWith('/')) {
         endpoint = '/' + endpoint;
@@ -48,62 +74,45 @@ export async function doHttpRequest(
         if (body && Buffer.isBuffer(body)) LogService.trace("MatrixHttpClient", "(REQ-" + requestId + ")", "body = <Buffer>");
     }
 
-    const params: { uri: string, [k: string]: any } = {
-        uri: url,
-        method: method,
-        qs: qs,
-        // If this is undefined, then a string will be returned. If it's null, a Buffer will be returned.
-        encoding: noEncoding === false ? undefined : null,
-        useQuerystring: true,
-        qsStringifyOptions: {
-            options: { arrayFormat: 'repeat' },
-        },
-        timeout: timeout,
-        headers: headers,
-        // Enable KeepAlive for HTTP
-        forever: true,
-    };
-
+    let encodedBody: string | Buffer;
     if (body) {
         if (Buffer.isBuffer(body)) {
-            params.headers["Content-Type"] = contentType;
-            params.body = body;
+            headers["Content-Type"] = contentType;
+            encodedBody = body;
         } else {
-            params.headers["Content-Type"] = "application/json";
-            params.body = JSON.stringify(body);
+            headers["Content-Type"] = "application/json";
+            encodedBody = JSON.stringify(body);
         }
     }
 
-    const { response, resBody } = await new Promise<{ response: any, resBody: any }>((resolve, reject) => {
-        getRequestFn()(params, (err, res, rBody) => {
-            if (err) {
-                LogService.error("MatrixHttpClient", "(REQ-" + requestId + ")", err);
-                reject(err);
-                return;
-            }
-
-            if (typeof (rBody) === 'string') {
-                try {
-                    rBody = JSON.parse(rBody);
-                } catch (e) {
-                }
-            }
-
-            if (typeof (res.body) === 'string') {
-                try {
-                    res.body = JSON.parse(res.body);
-                } catch (e) {
-                }
-            }
-
-            resolve({ response: res, resBody: rBody });
+    let response;
+    try {
+        response = await transport.request({
+            method,
+            url,
+            qs,
+            headers,
+            body: encodedBody,
+            timeout,
+            binaryResponse: noEncoding !== false,
+            signal,
         });
-    });
+    } catch (err) {
+        LogService.error("MatrixHttpClient", "(REQ-" + requestId + ")", err);
+        throw err;
+    }
+
+    if (typeof (response.body) === 'string') {
+        try {
+            response.body = JSON.parse(response.body);
+        } catch (e) {
+        }
+    }
 
     const respIsBuffer = (response.body instanceof Buffer);
 
     // Check for errors.
-    const errBody = response.body || resBody;
+    const errBody = response.body;
     if (typeof (errBody) === "object" && 'errcode' in errBody) {
         const redactedBody = respIsBuffer ? '<Buffer>' : redactObjectForLogging(errBody);
         LogService.error("MatrixHttpClient", "(REQ-" + requestId + ")", redactedBody);
@@ -121,7 +130,83 @@ export async function doHttpRequest(
         LogService.error("MatrixHttpClient", "(REQ-" + requestId + ")", redactedBody);
         throw response;
     }
-    return raw ? response : resBody;
+    return raw ? response : response.body;
+}
+
+/**
+ * A response to a streamed web request.
+ * @category Unit testing
+ */
+export interface HttpStreamResponse {
+    /**
+     * The HTTP status code of the response.
+     */
+    statusCode: number;
+
+    /**
+     * The response headers, with lowercase names.
+     */
+    headers: Record<string, string | string[]>;
+
+    /**
+     * The response body. It must be consumed (or destroyed) by the caller.
+     */
+    body: Readable;
+}
+
+/**
+ * Performs a web request to a server, streaming the request and response bodies rather than
+ * buffering them in memory. Used for media which may be too large to hold in memory.
+ * @category Unit testing
+ * @param {"GET"|"POST"|"PUT"|"DELETE"} method The HTTP method to use in the request
+ * @param {string} url The URL to request, including any query string.
+ * @param {Readable} body The request body to stream. Optional.
+ * @param {any} headers Additional headers to send in the request.
+ * @param {number} timeout The number of milliseconds to wait for a response before timing out.
+ * @param {AbortSignal} signal A signal to cancel the request with. Optional.
+ * @returns {Promise<HttpStreamResponse>} Resolves to the response once its headers have been
+ * received, rejected if a non-2xx status code was returned.
+ */
+export async function doHttpStreamRequest(
+    method: "GET" | "POST" | "PUT" | "DELETE",
+    url: string,
+    body: Readable = null,
+    headers = {},
+    timeout = 60000,
+    signal: AbortSignal = null,
+): Promise<HttpStreamResponse> {
+    const requestId = ++lastRequestId;
+    LogService.debug("MatrixHttpClient", "(REQ-" + requestId + ")", method + " " + url.split("?")[0] + " <stream>");
+
+    let response: HttpStreamResponse;
+    try {
+        response = await transport.stream({ method, url, headers, timeout, signal }, body);
+    } catch (err) {
+        LogService.error("MatrixHttpClient", "(REQ-" + requestId + ")", err);
+        throw err;
+    }
+
+    LogService.trace("MatrixHttpClient", "(REQ-" + requestId + " RESP-H" + response.statusCode + ")", "<stream>");
+    if (response.statusCode >= 200 && response.statusCode < 300) {
+        return response;
+    }
+
+    // Errors are small enough to buffer, and are needed to build a useful rejection.
+    const chunks: Buffer[] = [];
+    for await (const chunk of response.body) {
+        chunks.push(Buffer.from(chunk));
+    }
+    let errBody: any = Buffer.concat(chunks).toString();
+    try {
+        errBody = JSON.parse(errBody);
+    } catch (e) {
+    }
+    LogService.error("MatrixHttpClient", "(REQ-" + requestId + ")", redactObjectForLogging(errBody));
+    if (typeof (errBody) === "object" && "errcode" in errBody) {
+        throw new MatrixError(errBody, response.statusCode);
+    }
+    const errResponse: HttpTransportResponse = { statusCode: response.statusCode, headers: response.headers, body: errBody };
+    throw errResponse;
 }
 
 export function redactObjectForLogging(input: any): any {
@@ -18,6 +18,7 @@ export * from "./helpers/MentionPill";
 export * from "./helpers/Permalinks";
 export * from "./helpers/MatrixGlob";
 export * from "./helpers/ProfileCache";
+export * from "./helpers/PushRuleEvaluator";
 export * from "./helpers/MatrixEntity";
 export * from "./helpers/UnpaddedBase64";
 
@@ -37,11 +38,22 @@ export * from "./metrics/Metrics";
 // Mixins
 export * from "./mixins/AutojoinRoomsMixin";
 export * from "./mixins/AutojoinUpgradedRoomsMixin";
+export * from "./mixins/AutoAcceptKnocksMixin";
 
 // Models
 export * from "./models/Presence";
 export * from "./models/MatrixProfile";
 export * from "./models/EventContext";
+export * from "./models/RoomMessages";
+export * from "./models/Threads";
+export * from "./models/Reactions";
+export * from "./models/ReadMarkers";
+export * from "./models/RoomTags";
+export * from "./models/PushRules";
+export * from "./models/Search";
+export * from "./models/Directory";
+export * from "./models/RoomUpgrade";
+export * from "./models/Media";
 export * from "./models/PowerLevelBounds";
 export * from "./models/OpenIDConnect";
 export * from "./models/Policies";
@@ -55,6 +67,9 @@ export * from "./models/PowerLevelAction";
 export * from "./models/ServerVersions";
 export * from "./models/MatrixError";
 export * from "./models/CreateRoom";
+export * from "./models/SlidingSync";
+export * from "./models/Tokens";
+export * from "./models/Login";
 
 // Unstable models
 export * from "./models/unstable/MediaInfo";
@@ -74,6 +89,7 @@ export * from "./models/events/CreateEvent";
 export * from "./models/events/JoinRulesEvent";
 export * from "./models/events/PowerLevelsEvent";
 export * from "./models/events/RedactionEvent";
+export * from "./models/events/ReactionEvent";
 export * from "./models/events/PinnedEventsEvent";
 export * from "./models/events/RoomAvatarEvent";
 export * from "./models/events/RoomNameEvent";
@@ -81,15 +97,20 @@ export * from "./models/events/RoomTopicEvent";
 export * from "./models/events/SpaceChildEvent";
 export * from "./models/events/EncryptionEvent";
 export * from "./models/events/EncryptedRoomEvent";
+export * from "./models/events/TypingEvent";
+export * from "./models/events/ReceiptEvent";
 
 // Preprocessors
 export * from "./preprocessors/IPreprocessor";
 export * from "./preprocessors/RichRepliesPreprocessor";
+export * from "./preprocessors/EditsPreprocessor";
 
 // Storage stuff
 export * from "./storage/IAppserviceStorageProvider";
 export * from "./storage/IStorageProvider";
 export * from "./storage/MemoryStorageProvider";
+export * from "./storage/IRoomStateStorageProvider";
+export * from "./storage/MemoryRoomStateStorageProvider";
 export * from "./storage/SimpleFsStorageProvider";
 export * from "./storage/ICryptoStorageProvider";
 export * from "./storage/RustSdkCryptoStorageProvider";
@@ -99,6 +120,11 @@ export * from "./storage/SimplePostgresStorageProvider";
 export * from "./strategies/AppserviceJoinRoomStrategy";
 export * from "./strategies/JoinRoomStrategy";
 
+// Transports
+export * from "./transport/IHttpTransport";
+export * from "./transport/RequestHttpTransport";
+export * from "./transport/FetchHttpTransport";
+
 // Other clients
 export * from "./identity/IdentityClient";
 
@@ -115,4 +141,6 @@ export * from "./SynapseAdminApis";
 export * from "./simple-validation";
 export * from "./b64";
 export * from "./http";
+export * from "./RequestScheduler";
 export * from "./DMs";
+export * from "./Outbox";
@@ -51,3 +51,17 @@ export const METRIC_INTENT_FAILED_FUNCTION_CALL = "intent_failed_function_call";
  * @category Metrics
  */
 export const METRIC_INTENT_SUCCESSFUL_FUNCTION_CALL = "intent_successful_function_call";
+
+/**
+ * Counter metric for requests waiting for a slot in a MatrixClient's request scheduler. Incremented
+ * when a request is queued and decremented when it is sent. Uses a MatrixClientCallContext.
+ * @category Metrics
+ */
+export const METRIC_MATRIX_CLIENT_REQUEST_QUEUE_DEPTH = "matrix_client_request_queue_depth";
+
+/**
+ * Counter metric for requests which a MatrixClient's request scheduler retried after being rate
+ * limited. Uses a MatrixClientCallContext.
+ * @category Metrics
+ */
+export const METRIC_MATRIX_CLIENT_RATE_LIMITED_REQUEST = "matrix_client_rate_limited_request";
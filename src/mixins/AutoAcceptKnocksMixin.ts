@@ -0,0 +1,49 @@
+import { BACKFILLED_EVENT_ANNOTATION_KEY, MatrixClient } from "../MatrixClient";
+import { Appservice } from "../appservice/Appservice";
+
+/**
+ * A function which decides whether to accept a knock. The knock is accepted if the
+ * function returns (or resolves to) true.
+ * @category Mixins
+ */
+export type KnockConditional = (roomId: string, knockEvent: any) => boolean | Promise<boolean>;
+
+/**
+ * Automatically accepts knocks on rooms by inviting the knocking user. The client
+ * must have permission to invite users to the room. Knocks recovered by gap filling
+ * are ignored, and a knock is only accepted while the user's membership in the room
+ * is still "knock".
+ * @category Mixins
+ */
+export class AutoAcceptKnocksMixin {
+    public static setupOnClient(client: MatrixClient, conditional: KnockConditional = null): void {
+        client.on("room.event", (roomId: string, event: any) => {
+            return acceptKnock(client, roomId, event, conditional);
+        });
+    }
+
+    public static setupOnAppservice(appservice: Appservice, conditional: KnockConditional = null): void {
+        appservice.on("room.event", (roomId: string, event: any) => {
+            return acceptKnock(appservice.botClient, roomId, event, conditional);
+        });
+    }
+}
+
+async function acceptKnock(client: MatrixClient, roomId: string, event: any, conditional: KnockConditional): Promise<any> {
+    if (!isKnock(event)) return;
+    if (event["unsigned"]?.[BACKFILLED_EVENT_ANNOTATION_KEY]) return;
+    if (conditional && !(await conditional(roomId, event))) return;
+
+    // The timeline can replay knocks which have since been rejected, retracted or
+    // superseded, so only invite if the knock is still pending.
+    const member = await client.getRoomStateEvent(roomId, "m.room.member", event["state_key"]);
+    if (member?.["membership"] !== "knock") return;
+
+    return client.inviteUser(event["state_key"], roomId);
+}
+
+function isKnock(event: any): boolean {
+    return event?.["type"] === "m.room.member"
+        && typeof event["state_key"] === "string"
+        && event["content"]?.["membership"] === "knock";
+}
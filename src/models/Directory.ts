@@ -0,0 +1,111 @@
+/**
+ * A user found in the user directory.
+ * @category Models
+ */
+export interface UserDirectoryUser {
+    user_id: string;
+    display_name?: string;
+    avatar_url?: string;
+}
+
+/**
+ * The results of a user directory search.
+ * @category Models
+ */
+export interface UserDirectoryResults {
+    /**
+     * True if the results were limited, and more users matched the search.
+     */
+    limited: boolean;
+
+    /**
+     * The users which matched the search.
+     */
+    results: UserDirectoryUser[];
+}
+
+/**
+ * The options available when browsing the public room directory.
+ * @category Models
+ */
+export interface PublicRoomsOptions {
+    /**
+     * The server to browse the room directory of. Defaults to the client's homeserver.
+     */
+    server?: string;
+
+    /**
+     * The maximum number of rooms to request per page.
+     */
+    limit?: number;
+
+    /**
+     * The token to start browsing from, as returned by a previous page.
+     */
+    since?: string;
+
+    /**
+     * A term to search room names, topics and aliases for.
+     */
+    genericSearchTerm?: string;
+
+    /**
+     * The room types to include. Use null to include rooms without a type, which are
+     * regular rooms.
+     */
+    roomTypes?: (string | null)[];
+
+    /**
+     * The third party network to browse the rooms of, as returned by the `/thirdparty/protocols`
+     * endpoint. Ignored if `includeAllNetworks` is set.
+     */
+    thirdPartyInstanceId?: string;
+
+    /**
+     * If true, rooms from all networks are included, rather than just Matrix rooms.
+     */
+    includeAllNetworks?: boolean;
+}
+
+/**
+ * A room in the public room directory.
+ * @category Models
+ */
+export interface PublicRoom {
+    room_id: string;
+    num_joined_members: number;
+    world_readable: boolean;
+    guest_can_join: boolean;
+    name?: string;
+    topic?: string;
+    canonical_alias?: string;
+    avatar_url?: string;
+    join_rule?: string;
+    room_type?: string;
+}
+
+/**
+ * A page of the public room directory.
+ * @category Models
+ */
+export interface PublicRoomsPage {
+    /**
+     * The rooms in the page.
+     */
+    chunk: PublicRoom[];
+
+    /**
+     * The token to request the next page with. If not set, there are no more rooms.
+     */
+    nextBatch?: string;
+
+    /**
+     * The token to request the previous page with, if any.
+     */
+    prevBatch?: string;
+
+    /**
+     * An estimate of the total number of public rooms, if known.
+     */
+    totalRoomCountEstimate?: number;
+}
@@ -0,0 +1,70 @@
+import { TokenRefreshCallback } from "./Tokens";
+
+/**
+ * An identity provider offered by a homeserver for single sign-on.
+ * @category Models
+ */
+export interface SSOIdentityProvider {
+    id: string;
+    name: string;
+    icon?: string;
+    brand?: string;
+}
+
+/**
+ * A login flow supported by a homeserver, as returned by `GET /login`.
+ * @category Models
+ */
+export interface LoginFlow {
+    /**
+     * The login type, such as "m.login.password" or "m.login.sso".
+     */
+    type: string;
+
+    /**
+     * For "m.login.token" flows, whether the homeserver lets clients generate login tokens.
+     */
+    get_login_token?: boolean;
+
+    /**
+     * For "m.login.sso" flows, the identity providers to choose from.
+     */
+    identity_providers?: SSOIdentityProvider[];
+}
+
+/**
+ * The options for logging in through single sign-on.
+ * @category Models
+ */
+export interface SSOLoginOptions {
+    /**
+     * The ID of the identity provider to log in with. Optional: the homeserver will ask
+     * the user to pick one if there are several.
+     */
+    idpId?: string;
+
+    /**
+     * The address for the local callback server to listen on. Defaults to "127.0.0.1".
+     */
+    bindAddress?: string;
+
+    /**
+     * The port for the local callback server to listen on. Defaults to a random free port.
+     */
+    port?: number;
+
+    /**
+     * How long to wait for the user to finish logging in. Defaults to 5 minutes.
+     */
+    timeoutMs?: number;
+
+    /**
+     * The name of the newly created device. Optional.
+     */
+    deviceName?: string;
+
+    /**
+     * Called to persist the tokens after each refresh of the access token. Optional.
+     */
+    onTokensRefreshed?: TokenRefreshCallback;
+}
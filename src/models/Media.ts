@@ -0,0 +1,280 @@
+import { Readable } from "stream";
+
+/**
+ * The ways a homeserver can produce a thumbnail. "crop" fills the requested size, while
+ * "scale" preserves the aspect ratio of the content.
+ * @category Models
+ */
+export type ThumbnailMethod = "crop" | "scale";
+
+/**
+ * The options for requesting a thumbnail of some content.
+ * @category Models
+ */
+export interface ThumbnailOptions {
+    /**
+     * The desired width of the thumbnail, in pixels. The actual thumbnail may be larger.
+     */
+    width: number;
+
+    /**
+     * The desired height of the thumbnail, in pixels. The actual thumbnail may be larger.
+     */
+    height: number;
+
+    /**
+     * How to produce the thumbnail. Defaults to "scale".
+     */
+    method?: ThumbnailMethod;
+
+    /**
+     * If true, an animated thumbnail is requested for animated content, where supported.
+     */
+    animated?: boolean;
+}
+
+/**
+ * The configuration of the homeserver's media repository.
+ * @category Models
+ */
+export interface MediaConfig {
+    /**
+     * The maximum size of an upload, in bytes. If not set, the limit is unknown.
+     */
+    "m.upload.size"?: number;
+}
+
+/**
+ * The OpenGraph data of a URL, as provided by the homeserver. Typical keys include `og:title`,
+ * `og:description` and `og:image` (as an MXC URI).
+ * @category Models
+ */
+export interface UrlPreview {
+    /**
+     * The size of the `og:image`, in bytes, if there is an image.
+     */
+    "matrix:image:size"?: number;
+
+    [key: string]: any;
+}
+
+/**
+ * A ready-to-send HTTP request for downloading content, for callers which need to make the
+ * request themselves (to stream the response, for example).
+ * @category Models
+ */
+export interface MediaDownloadRequest {
+    /**
+     * The URL to request with GET.
+     */
+    url: string;
+
+    /**
+     * The headers to send with the request, including any authorization.
+     */
+    headers: Record<string, string>;
+}
+
+/**
+ * Called as media is transferred to or from the homeserver.
+ * @category Models
+ * @param {number} transferredBytes The number of bytes transferred so far.
+ * @param {number} totalBytes The total number of bytes to transfer, if known.
+ */
+export type MediaProgressCallback = (transferredBytes: number, totalBytes?: number) => void;
+
+/**
+ * The options for uploading content from a stream.
+ * @category Models
+ */
+export interface StreamUploadOptions {
+    /**
+     * The content type of the content. Defaults to application/octet-stream.
+     */
+    contentType?: string;
+
+    /**
+     * The name of the file being uploaded, if any.
+     */
+    filename?: string;
+
+    /**
+     * The size of the content in bytes. Some homeservers reject uploads without a size. When not
+     * set, the size is detected for streams from `fs.createReadStream` without a range, and
+     * otherwise the content is sent with chunked encoding.
+     */
+    contentLength?: number;
+
+    /**
+     * Called as the content is uploaded.
+     */
+    onProgress?: MediaProgressCallback;
+
+    /**
+     * The number of milliseconds to wait for the homeserver to respond. Defaults to 60 seconds.
+     */
+    timeout?: number;
+}
+
+/**
+ * The options for downloading content as a stream.
+ * @category Models
+ */
+export interface StreamDownloadOptions {
+    /**
+     * If set, a thumbnail of the content is downloaded instead.
+     */
+    thumbnail?: ThumbnailOptions;
+
+    /**
+     * Whether the homeserver may fetch the media from a remote server. Defaults to true.
+     */
+    allowRemote?: boolean;
+
+    /**
+     * Called as the content is downloaded.
+     */
+    onProgress?: MediaProgressCallback;
+
+    /**
+     * The number of milliseconds to wait for the homeserver to respond. Defaults to 60 seconds.
+     */
+    timeout?: number;
+}
+
+/**
+ * Content being downloaded from the homeserver as a stream.
+ * @category Models
+ */
+export interface MediaDownloadStream {
+    /**
+     * The content. It must be consumed (or destroyed) by the caller.
+     */
+    stream: Readable;
+
+    /**
+     * The content type of the content.
+     */
+    contentType: string;
+
+    /**
+     * The size of the content in bytes, if the homeserver reported it.
+     */
+    contentLength?: number;
+}
+
+/**
+ * A media ID reserved on the homeserver which content has not been uploaded to yet. The MXC
+ * URI can be used in events straight away: clients downloading it before the content is
+ * uploaded will wait for it (for a limited time).
+ * @category Models
+ */
+export interface PendingMedia {
+    /**
+     * The MXC URI of the media.
+     */
+    contentUri: string;
+
+    /**
+     * The timestamp (in milliseconds since the epoch) at which the media ID expires if no content
+     * has been uploaded to it. Uploads after this time will fail with `M_NOT_FOUND`. If not set,
+     * the homeserver did not specify an expiry.
+     */
+    unusedExpiresAt?: number;
+}
+
+/**
+ * A thumbnail to send alongside a file.
+ * @category Models
+ */
+export interface MediaThumbnail {
+    /**
+     * The thumbnail's content.
+     */
+    data: Buffer;
+
+    /**
+     * The content type of the thumbnail. Defaults to image/png.
+     */
+    mimetype?: string;
+
+    /**
+     * The width of the thumbnail in pixels.
+     */
+    w: number;
+
+    /**
+     * The height of the thumbnail in pixels.
+     */
+    h: number;
+}
+
+/**
+ * The options common to sending all kinds of media.
+ * @category Models
+ */
+export interface SendMediaOptions {
+    /**
+     * The name of the file. Defaults to "file".
+     */
+    filename?: string;
+
+    /**
+     * The content type of the file. Defaults to application/octet-stream.
+     */
+    mimetype?: string;
+
+    /**
+     * A caption to show with the file, in place of its name.
+     */
+    caption?: string;
+}
+
+/**
+ * The options for sending a file.
+ * @category Models
+ */
+export interface SendFileOptions extends SendMediaOptions {
+    /**
+     * A thumbnail for the file, if any.
+     */
+    thumbnail?: MediaThumbnail;
+}
+
+/**
+ * The options for sending an image.
+ * @category Models
+ */
+export interface SendImageOptions extends SendFileOptions {
+    /**
+     * The width of the image in pixels.
+     */
+    w?: number;
+
+    /**
+     * The height of the image in pixels.
+     */
+    h?: number;
+}
+
+/**
+ * The options for sending a video.
+ * @category Models
+ */
+export interface SendVideoOptions extends SendImageOptions {
+    /**
+     * The duration of the video in milliseconds.
+     */
+    duration?: number;
+}
+
+/**
+ * The options for sending audio.
+ * @category Models
+ */
+export interface SendAudioOptions extends SendMediaOptions {
+    /**
+     * The duration of the audio in milliseconds.
+     */
+    duration?: number;
+}
@@ -0,0 +1,145 @@
+/**
+ * The kinds of push rules, in the order they are evaluated.
+ * @category Models
+ */
+export type PushRuleKind = "override" | "content" | "room" | "sender" | "underride";
+
+/**
+ * A tweak to apply to a notification, such as setting the sound or highlighting it.
+ * @category Models
+ */
+export interface PushRuleTweak {
+    set_tweak: "sound" | "highlight" | string;
+    value?: any;
+}
+
+/**
+ * An action to take when a push rule matches. An empty list of actions means the event
+ * does not notify.
+ * @category Models
+ */
+export type PushRuleAction = "notify" | "dont_notify" | "coalesce" | PushRuleTweak | string;
+
+/**
+ * A condition which must be met for a push rule to match.
+ * @category Models
+ */
+export interface PushRuleCondition {
+    /**
+     * The kind of condition, such as `event_match` or `room_member_count`.
+     */
+    kind: "event_match" | "contains_display_name" | "room_member_count" | "sender_notification_permission"
+        | "event_property_is" | "event_property_contains" | string;
+
+    /**
+     * The dot-separated path to the event property to check, for conditions which need one.
+     */
+    key?: string;
+
+    /**
+     * The glob-style pattern to match against, for `event_match` conditions.
+     */
+    pattern?: string;
+
+    /**
+     * The comparison for `room_member_count` conditions, such as `2` or `>10`.
+     */
+    is?: string;
+
+    /**
+     * The exact value to compare against, for `event_property_*` conditions.
+     */
+    value?: string | number | boolean | null;
+
+    [key: string]: any;
+}
+
+/**
+ * A push rule.
+ * @category Models
+ */
+export interface PushRule {
+    /**
+     * The ID of the rule. For `room` and `sender` rules, this is the room ID or user ID
+     * respectively.
+     */
+    rule_id: string;
+
+    /**
+     * Whether the rule is a server-default rule.
+     */
+    default: boolean;
+
+    /**
+     * Whether the rule is enabled.
+     */
+    enabled: boolean;
+
+    /**
+     * The actions to take when the rule matches.
+     */
+    actions: PushRuleAction[];
+
+    /**
+     * The conditions which must all be met, for `override` and `underride` rules.
+     */
+    conditions?: PushRuleCondition[];
+
+    /**
+     * The glob-style pattern to match the event body against, for `content` rules.
+     */
+    pattern?: string;
+}
+
+/**
+ * A set of push rules, grouped by kind.
+ * @category Models
+ */
+export type PushRuleset = {
+    [kind in PushRuleKind]?: PushRule[];
+};
+
+/**
+ * The push rules of an account.
+ * @category Models
+ */
+export interface PushRules {
+    global: PushRuleset;
+}
+
+/**
+ * The definition of a user-defined push rule, as sent to the server.
+ * @category Models
+ */
+export interface PushRuleDefinition {
+    /**
+     * The actions to take when the rule matches.
+     */
+    actions: PushRuleAction[];
+
+    /**
+     * The conditions which must all be met, for `override` and `underride` rules.
+     */
+    conditions?: PushRuleCondition[];
+
+    /**
+     * The glob-style pattern to match the event body against, for `content` rules.
+     */
+    pattern?: string;
+}
+
+/**
+ * Where to position a new push rule relative to other user-defined rules of the same kind.
+ * @category Models
+ */
+export interface PushRulePosition {
+    /**
+     * The rule ID to insert the new rule before.
+     */
+    before?: string;
+
+    /**
+     * The rule ID to insert the new rule after.
+     */
+    after?: string;
+}
@@ -0,0 +1,20 @@
+/**
+ * The reactions to an event for a single reaction key.
+ * @category Models
+ */
+export interface ReactionSummary {
+    /**
+     * The reaction key, usually an emoji.
+     */
+    key: string;
+
+    /**
+     * The number of unique users who reacted with the key.
+     */
+    count: number;
+
+    /**
+     * The user IDs of the users who reacted with the key.
+     */
+    senders: string[];
+}
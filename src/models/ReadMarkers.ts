@@ -0,0 +1,20 @@
+/**
+ * The read markers to set in a room. At least one marker should be supplied.
+ * @category Models
+ */
+export interface ReadMarkers {
+    /**
+     * The event ID to move the `m.fully_read` marker to.
+     */
+    fullyRead?: string;
+
+    /**
+     * The event ID to send a public `m.read` receipt for.
+     */
+    read?: string;
+
+    /**
+     * The event ID to send a private `m.read.private` receipt for.
+     */
+    readPrivate?: string;
+}
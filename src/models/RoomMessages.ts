@@ -0,0 +1,60 @@
+import { RoomEvent, RoomEventContent, StateEvent } from "./events/RoomEvent";
+
+/**
+ * The options available when paginating a room's timeline.
+ * @category Models
+ */
+export interface RoomMessagesOptions {
+    /**
+     * The direction to paginate in: "b" for backwards (newest to oldest), or "f" for forwards
+     * (oldest to newest). Defaults to backwards.
+     */
+    direction?: "b" | "f";
+
+    /**
+     * The token to start paginating from. If not supplied, pagination starts from the end of
+     * the timeline when going backwards, or the start of the timeline when going forwards.
+     */
+    from?: string;
+
+    /**
+     * The token to stop paginating at, if any.
+     */
+    to?: string;
+
+    /**
+     * The maximum number of events to request per page.
+     */
+    limit?: number;
+
+    /**
+     * A RoomEventFilter to apply to the returned events.
+     */
+    filter?: any;
+}
+
+/**
+ * A page of a room's timeline.
+ * @category Models
+ */
+export interface RoomMessagesPage {
+    /**
+     * The events in the page, in the order of the requested direction.
+     */
+    chunk: RoomEvent<RoomEventContent>[];
+
+    /**
+     * The token the page started at.
+     */
+    start: string;
+
+    /**
+     * The token to continue paginating from. If not set, there are no more events available.
+     */
+    end?: string;
+
+    /**
+     * State events relevant to the events in the chunk, such as member events when lazy loading.
+     */
+    state: StateEvent<RoomEventContent>[];
+}
@@ -0,0 +1,26 @@
+/**
+ * The well-known room tags defined by the specification. Custom tags should use the
+ * `u.` prefix, such as `u.work`.
+ * @category Models
+ */
+export type KnownRoomTag = "m.favourite" | "m.lowpriority" | "m.server_notice";
+
+/**
+ * The content of a single room tag.
+ * @category Models
+ */
+export interface RoomTag {
+    /**
+     * The position of the room within the tag, from 0 to 1. Rooms with a lower order
+     * appear first.
+     */
+    order?: number;
+
+    [key: string]: any;
+}
+
+/**
+ * The tags of a room, keyed by tag name.
+ * @category Models
+ */
+export type RoomTags = Record<KnownRoomTag | string, RoomTag>;
@@ -0,0 +1,45 @@
+/**
+ * The options available when upgrading a room. The homeserver already copies the room's
+ * essential state (name, topic, power levels, join rules, etc) into the replacement room;
+ * these options cover the state and memberships it does not.
+ * @category Models
+ */
+export interface RoomUpgradeOptions {
+    /**
+     * If true, users banned from the old room will be banned from the replacement room too.
+     */
+    copyBans?: boolean;
+
+    /**
+     * If true, widgets (`m.widget` and `im.vector.modular.widgets` state) will be copied.
+     */
+    copyWidgets?: boolean;
+
+    /**
+     * If true, the `m.room.pinned_events` state will be copied.
+     */
+    copyPinnedEvents?: boolean;
+
+    /**
+     * If true, `m.space.parent` state will be copied so the replacement room claims the same
+     * parent spaces.
+     */
+    copySpaceParents?: boolean;
+
+    /**
+     * Additional state event types to copy, such as custom state used by a bot. All state
+     * keys of each type are copied.
+     */
+    copyStateTypes?: string[];
+
+    /**
+     * If true, the users joined to the old room will be invited to the replacement room.
+     */
+    reinviteMembers?: boolean;
+
+    /**
+     * If true, any spaces listed as parents of the old room will have their `m.space.child`
+     * link moved to the replacement room. The client must be able to send state in the spaces.
+     */
+    updateParentSpaces?: boolean;
+}
@@ -0,0 +1,179 @@
+import { RoomEvent, RoomEventContent, StateEvent } from "./events/RoomEvent";
+
+/**
+ * The event fields which can be searched.
+ * @category Models
+ */
+export type SearchKey = "content.body" | "content.name" | "content.topic";
+
+/**
+ * The fields search results can be grouped by.
+ * @category Models
+ */
+export type SearchGroupKey = "room_id" | "sender";
+
+/**
+ * The options available when searching room events.
+ * @category Models
+ */
+export interface SearchOptions {
+    /**
+     * The event fields to search. Defaults to all of them.
+     */
+    keys?: SearchKey[];
+
+    /**
+     * A RoomEventFilter to apply to the results, such as to limit the search to certain rooms.
+     */
+    filter?: any;
+
+    /**
+     * The order to return results in: by "rank" (relevance), or most "recent" first.
+     */
+    orderBy?: "rank" | "recent";
+
+    /**
+     * If set, the events surrounding each result will be returned as well.
+     */
+    eventContext?: {
+        /**
+         * The number of events to return before each result. Defaults to 5 on the server.
+         */
+        beforeLimit?: number;
+
+        /**
+         * The number of events to return after each result. Defaults to 5 on the server.
+         */
+        afterLimit?: number;
+
+        /**
+         * If true, the profiles of the senders of the events will be returned.
+         */
+        includeProfile?: boolean;
+    };
+
+    /**
+     * If true, the current state of the rooms the results are in will be returned.
+     */
+    includeState?: boolean;
+
+    /**
+     * The fields to group the results by.
+     */
+    groupings?: SearchGroupKey[];
+
+    /**
+     * The token to continue a previous search from.
+     */
+    nextBatch?: string;
+}
+
+/**
+ * The events surrounding a search result.
+ * @category Models
+ */
+export interface SearchResultContext {
+    /**
+     * The events before the result, most recent first.
+     */
+    before: RoomEvent<RoomEventContent>[];
+
+    /**
+     * The events after the result, oldest first.
+     */
+    after: RoomEvent<RoomEventContent>[];
+
+    /**
+     * The pagination token for the start of the context.
+     */
+    start?: string;
+
+    /**
+     * The pagination token for the end of the context.
+     */
+    end?: string;
+
+    /**
+     * The profiles of the senders of the events, keyed by user ID, if requested.
+     */
+    profileInfo?: Record<string, { displayname?: string, avatar_url?: string }>;
+}
+
+/**
+ * A single search result.
+ * @category Models
+ */
+export interface SearchResult {
+    /**
+     * How closely the result matched the search. Higher is closer.
+     */
+    rank: number;
+
+    /**
+     * The event which matched.
+     */
+    event: RoomEvent<RoomEventContent>;
+
+    /**
+     * The events surrounding the result, if requested.
+     */
+    context?: SearchResultContext;
+}
+
+/**
+ * A group of search results.
+ * @category Models
+ */
+export interface SearchGroup {
+    /**
+     * The event IDs of the results in the group.
+     */
+    results: string[];
+
+    /**
+     * The position of the group relative to other groups.
+     */
+    order?: number;
+
+    /**
+     * The token to continue the search from for this group, if there are more results.
+     */
+    nextBatch?: string;
+}
+
+/**
+ * A page of search results.
+ * @category Models
+ */
+export interface SearchResults {
+    /**
+     * An approximate count of the total number of results.
+     */
+    count?: number;
+
+    /**
+     * The words which should be highlighted in the results, such as stemmed forms of the search term.
+     */
+    highlights: string[];
+
+    /**
+     * The results in this page.
+     */
+    results: SearchResult[];
+
+    /**
+     * The token to request the next page of results with. If not set, there are no more results.
+     */
+    nextBatch?: string;
+
+    /**
+     * The current state of the rooms the results are in, keyed by room ID, if requested.
+     */
+    state?: Record<string, StateEvent<RoomEventContent>[]>;
+
+    /**
+     * The groups of the results, keyed by the field they were grouped by and then the field's value,
+     * if requested.
+     */
+    groups?: Partial<Record<SearchGroupKey, Record<string, SearchGroup>>>;
+}
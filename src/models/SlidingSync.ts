@@ -0,0 +1,58 @@
+/**
+ * A state filter for simplified sliding sync, as a tuple of event type and state key. The
+ * special values `*`, `$ME` and `$LAZY` are supported as described by MSC4186.
+ * @category Models
+ */
+export type SlidingSyncRequiredState = [string, string];
+
+/**
+ * The room configuration shared by simplified sliding sync lists and room subscriptions.
+ * @category Models
+ */
+export interface SlidingSyncRoomConfig {
+    /**
+     * The state events to return for each room.
+     */
+    required_state?: SlidingSyncRequiredState[];
+
+    /**
+     * The maximum number of timeline events to return for each room.
+     */
+    timeline_limit?: number;
+}
+
+/**
+ * A simplified sliding sync list.
+ * @category Models
+ */
+export interface SlidingSyncListConfig extends SlidingSyncRoomConfig {
+    /**
+     * The inclusive index ranges of rooms to return from the list, sorted by recent activity.
+     */
+    ranges: [number, number][];
+
+    /**
+     * Filters to apply to the rooms in the list, such as `is_dm` or `is_invite`.
+     */
+    filters?: Record<string, any>;
+}
+
+/**
+ * Configuration for running a MatrixClient with simplified sliding sync (MSC4186) instead
+ * of the `/v3/sync` long-poll loop.
+ * @category Models
+ */
+export interface SlidingSyncConfig {
+    /**
+     * The lists to request, keyed by list name. Defaults to a single list of the most
+     * recently active rooms.
+     */
+    lists?: Record<string, SlidingSyncListConfig>;
+
+    /**
+     * Rooms to always receive updates for, regardless of their position in any lists.
+     * Keyed by room ID. This may be modified while the client is syncing and will apply
+     * from the next request.
+     */
+    room_subscriptions?: Record<string, SlidingSyncRoomConfig>;
+}
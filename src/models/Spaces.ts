@@ -2,6 +2,7 @@ import { MatrixClient } from "../MatrixClient";
 import { UserID } from "../helpers/MatrixEntity";
 import { validateSpaceOrderString } from "../simple-validation";
 import { SpaceChildEvent, SpaceChildEventContent } from "./events/SpaceChildEvent";
+import { PublicRoom } from "./Directory";
 
 /**
  * Options to be specified when creating a Space.
@@ -76,6 +77,91 @@ export interface SpaceEntityMap {
     [roomId: string]: SpaceChildEvent;
 }
 
+/**
+ * The options available when walking the hierarchy of a space.
+ * @category Models
+ */
+export interface SpaceHierarchyOptions {
+    /**
+     * The maximum depth to walk to, where the space itself is at depth zero. Defaults to
+     * the homeserver's limit.
+     */
+    maxDepth?: number;
+
+    /**
+     * If true, only children marked as suggested are included.
+     */
+    suggestedOnly?: boolean;
+
+    /**
+     * The maximum number of rooms to request per page.
+     */
+    limit?: number;
+
+    /**
+     * The token to start walking from, as returned by a previous page. The other options
+     * must not change between pages.
+     */
+    from?: string;
+}
+
+/**
+ * An `m.space.child` state event of a room in a space hierarchy.
+ * @category Models
+ */
+export interface SpaceHierarchyChildState {
+    type: "m.space.child";
+    state_key: string;
+    sender: string;
+    origin_server_ts: number;
+    content: SpaceChildEventContent;
+}
+
+/**
+ * A summary of a room in a space hierarchy. The client does not need to be joined to
+ * the room.
+ * @category Models
+ */
+export interface SpaceHierarchyRoom extends PublicRoom {
+    /**
+     * The `m.space.child` state of the room, if it is a space.
+     */
+    children_state: SpaceHierarchyChildState[];
+}
+
+/**
+ * A page of a space hierarchy, in depth-first order.
+ * @category Models
+ */
+export interface SpaceHierarchyPage {
+    /**
+     * The rooms in the page.
+     */
+    rooms: SpaceHierarchyRoom[];
+
+    /**
+     * The token to request the next page with. If not set, there are no more rooms.
+     */
+    nextBatch?: string;
+}
+
+/**
+ * A room in the tree of a space hierarchy.
+ * @category Models
+ */
+export interface SpaceHierarchyNode {
+    /**
+     * The summary of the room.
+     */
+    room: SpaceHierarchyRoom;
+
+    /**
+     * The children of the room, in the order the space lists them. Only rooms which are
+     * spaces have children.
+     */
+    children: SpaceHierarchyNode[];
+}
+
 /**
  * An instance representing a Matrix Space. A space is tied to a room.
  * @category Models
@@ -156,6 +242,38 @@ export class Space {
         return mapping;
     }
 
+    /**
+     * Gets the hierarchy of the space: the space, its children, their children and so on.
+     * Unlike getChildEntities, this includes rooms the client has not joined which the
+     * homeserver can preview.
+     * @param {SpaceHierarchyOptions} opts The options for walking the hierarchy. The `limit`
+     * applies per page, and `from` is ignored.
+     * @returns {Promise<SpaceHierarchyNode>} Resolves to the space at the root of the hierarchy.
+     */
+    public async getHierarchy(opts: SpaceHierarchyOptions = {}): Promise<SpaceHierarchyNode> {
+        const rooms = new Map<string, SpaceHierarchyRoom>();
+        let from: string = undefined;
+        do {
+            const page = await this.client.getSpaceHierarchyPage(this.roomId, { ...opts, from });
+            page.rooms.forEach(r => rooms.set(r.room_id, r));
+            from = page.nextBatch;
+        } while (from);
+
+        if (!rooms.has(this.roomId)) throw new Error("Space is not in its own hierarchy");
+
+        // Children may be listed by more than one space, but a space can't be its own descendant.
+        const buildNode = (roomId: string, ancestors: Set<string>): SpaceHierarchyNode => {
+            const room = rooms.get(roomId);
+            const path = new Set(ancestors).add(roomId);
+            const children = (room.children_state ?? [])
+                .filter(s => s.content?.via?.length && rooms.has(s.state_key) && !path.has(s.state_key))
+                .sort(compareSpaceChildren)
+                .map(s => buildNode(s.state_key, path));
+            return { room, children };
+        };
+        return buildNode(this.roomId, new Set());
+    }
+
     /**
      * Invite a user to the current space.
      * @param {string} userId The user ID to invite.
@@ -165,3 +283,16 @@ export class Space {
         return this.client.inviteUser(userId, this.roomId);
     }
 }
+
+function compareSpaceChildren(a: SpaceHierarchyChildState, b: SpaceHierarchyChildState): number {
+    // Ordered by the `order` string first (children without one last), then by age, then by room ID.
+    const orderA = typeof a.content.order === "string" ? a.content.order : null;
+    const orderB = typeof b.content.order === "string" ? b.content.order : null;
+    if (orderA !== orderB) {
+        if (orderA === null) return 1;
+        if (orderB === null) return -1;
+        return orderA < orderB ? -1 : 1;
+    }
+    if (a.origin_server_ts !== b.origin_server_ts) return a.origin_server_ts - b.origin_server_ts;
+    return a.state_key < b.state_key ? -1 : (a.state_key > b.state_key ? 1 : 0);
+}
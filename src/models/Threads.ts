@@ -0,0 +1,40 @@
+import { RoomEvent, RoomEventContent } from "./events/RoomEvent";
+
+/**
+ * The options available when listing the threads in a room.
+ * @category Models
+ */
+export interface ThreadsOptions {
+    /**
+     * Which threads to include: "all" threads in the room, or only those the user has
+     * "participated" in. Defaults to all threads.
+     */
+    include?: "all" | "participated";
+
+    /**
+     * The token to start listing from, as returned by a previous page.
+     */
+    from?: string;
+
+    /**
+     * The maximum number of threads to request per page.
+     */
+    limit?: number;
+}
+
+/**
+ * A page of thread roots in a room, ordered by most recent thread activity first.
+ * @category Models
+ */
+export interface ThreadsPage {
+    /**
+     * The thread root events. The thread summary is available in the unsigned data of each
+     * event under `m.relations.m.thread`.
+     */
+    chunk: RoomEvent<RoomEventContent>[];
+
+    /**
+     * The token to request the next page with. If not set, there are no more threads.
+     */
+    nextBatch?: string;
+}
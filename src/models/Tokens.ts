@@ -0,0 +1,28 @@
+/**
+ * The tokens issued to a client when its access token was refreshed.
+ * @category Models
+ */
+export interface RefreshedTokens {
+    /**
+     * The new access token.
+     */
+    accessToken: string;
+
+    /**
+     * The refresh token to use for the next refresh. This is the previous refresh token
+     * if the homeserver did not issue a new one.
+     */
+    refreshToken: string;
+
+    /**
+     * The lifetime of the new access token in milliseconds, if it expires.
+     */
+    expiresInMs?: number;
+}
+
+/**
+ * Called when a client's access token has been refreshed, to persist the new tokens. The
+ * previous refresh token may no longer be usable once this is called.
+ * @category Models
+ */
+export type TokenRefreshCallback = (tokens: RefreshedTokens) => Promise<void> | void;
@@ -5,7 +5,24 @@ import { StateEvent } from "./RoomEvent";
  * @category Matrix event info
  * @see JoinRulesEventContent
  */
-export type JoinRule = "public" | "knock" | "invite" | "private";
+export type JoinRule = "public" | "knock" | "invite" | "private" | "restricted" | "knock_restricted";
+
+/**
+ * A condition which allows users to join a restricted room without an invite.
+ * @category Matrix event info
+ * @see JoinRulesEventContent
+ */
+export interface JoinRuleAllowCondition {
+    /**
+     * The kind of condition. `m.room_membership` allows members of another room to join.
+     */
+    type: "m.room_membership" | string;
+
+    /**
+     * The room ID the user must be joined to, for `m.room_membership` conditions.
+     */
+    room_id?: string;
+}
 
 /**
  * The content definition for m.room.join_rules events
@@ -17,6 +34,12 @@ export interface JoinRulesEventContent {
      * The join rule for the room.
      */
     join_rule: JoinRule;
+
+    /**
+     * The conditions which allow users to join without an invite, for the `restricted`
+     * and `knock_restricted` join rules.
+     */
+    allow?: JoinRuleAllowCondition[];
 }
 
 /**
@@ -34,4 +57,18 @@ export class JoinRulesEvent extends StateEvent<JoinRulesEventContent> {
     public get rule(): JoinRule {
         return this.content.join_rule;
     }
+
+    /**
+     * True if users may knock on the room to request an invite.
+     */
+    public get allowsKnocking(): boolean {
+        return this.rule === "knock" || this.rule === "knock_restricted";
+    }
+
+    /**
+     * The conditions which allow users to join without an invite, if any.
+     */
+    public get allow(): JoinRuleAllowCondition[] {
+        return this.content.allow ?? [];
+    }
 }
@@ -0,0 +1,45 @@
+import { RoomEvent } from "./RoomEvent";
+
+/**
+ * The content definition for m.reaction events
+ * @category Matrix event contents
+ * @see ReactionEvent
+ */
+export interface ReactionEventContent {
+    /**
+     * The annotation relation to the event being reacted to.
+     */
+    "m.relates_to": {
+        rel_type: "m.annotation";
+        event_id: string;
+
+        /**
+         * The reaction key, usually an emoji.
+         */
+        key: string;
+    };
+}
+
+/**
+ * Represents an m.reaction room event
+ * @category Matrix events
+ */
+export class ReactionEvent extends RoomEvent<ReactionEventContent> {
+    constructor(event: any) {
+        super(event);
+    }
+
+    /**
+     * The event ID being reacted to.
+     */
+    public get targetEventId(): string {
+        return this.content["m.relates_to"]?.event_id;
+    }
+
+    /**
+     * The reaction key, usually an emoji.
+     */
+    public get key(): string {
+        return this.content["m.relates_to"]?.key;
+    }
+}
@@ -0,0 +1,95 @@
+import { MatrixEvent } from "./Event";
+
+/**
+ * The types of receipts that are valid in Matrix.
+ * @category Matrix event info
+ * @see ReceiptEventContent
+ */
+export type ReceiptType = "m.read" | "m.read.private";
+
+/**
+ * The metadata for a single user's receipt.
+ * @category Matrix event info
+ * @see ReceiptEventContent
+ */
+export interface ReceiptInfo {
+    /**
+     * The timestamp in milliseconds the receipt was sent at.
+     */
+    ts?: number;
+
+    /**
+     * The thread the receipt applies to, if any. "main" for the main timeline.
+     */
+    thread_id?: string;
+}
+
+/**
+ * Event content for m.receipt events. Maps event ID to receipt type to user ID.
+ * @category Matrix event contents
+ * @see ReceiptEvent
+ */
+export interface ReceiptEventContent {
+    [eventId: string]: {
+        [receiptType: string]: {
+            [userId: string]: ReceiptInfo;
+        };
+    };
+}
+
+/**
+ * A single receipt, as described by a m.receipt event.
+ * @category Matrix event info
+ * @see ReceiptEvent
+ */
+export interface Receipt {
+    /**
+     * The event ID the receipt is for.
+     */
+    eventId: string;
+
+    /**
+     * The receipt type, such as `m.read`.
+     */
+    receiptType: ReceiptType | string;
+
+    /**
+     * The user ID who sent the receipt.
+     */
+    userId: string;
+
+    /**
+     * The timestamp in milliseconds the receipt was sent at, if known.
+     */
+    ts?: number;
+
+    /**
+     * The thread the receipt applies to, if any.
+     */
+    threadId?: string;
+}
+
+/**
+ * Wraps a m.receipt ephemeral event in Matrix
+ * @category Matrix events
+ */
+export class ReceiptEvent extends MatrixEvent<ReceiptEventContent> {
+    constructor(event: any) {
+        super(event);
+    }
+
+    /**
+     * The receipts described by this event, flattened into a list.
+     */
+    public get receipts(): Receipt[] {
+        const receipts: Receipt[] = [];
+        for (const [eventId, byType] of Object.entries(this.content)) {
+            for (const [receiptType, byUser] of Object.entries(byType ?? {})) {
+                for (const [userId, info] of Object.entries(byUser ?? {})) {
+                    receipts.push({ eventId, receiptType, userId, ts: info?.ts, threadId: info?.thread_id });
+                }
+            }
+        }
+        return receipts;
+    }
+}
@@ -0,0 +1,30 @@
+import { MatrixEvent } from "./Event";
+
+/**
+ * Event content for m.typing events
+ * @category Matrix event contents
+ * @see TypingEvent
+ */
+export interface TypingEventContent {
+    /**
+     * The user IDs of the users currently typing in the room.
+     */
+    user_ids: string[];
+}
+
+/**
+ * Wraps a m.typing ephemeral event in Matrix
+ * @category Matrix events
+ */
+export class TypingEvent extends MatrixEvent<TypingEventContent> {
+    constructor(event: any) {
+        super(event);
+    }
+
+    /**
+     * The user IDs of the users currently typing in the room.
+     */
+    public get userIds(): string[] {
+        return this.content.user_ids ?? [];
+    }
+}
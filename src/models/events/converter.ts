@@ -9,6 +9,7 @@ import {
     TextualMessageEventContent,
     VideoMessageEventContent,
 } from "./MessageEvent";
+import { ReactionEvent } from "./ReactionEvent";
 
 /**
  * Wraps a room event into a more suitable container.
@@ -41,6 +42,8 @@ export function wrapRoomEvent(event: any): RoomEvent<any> {
         } else {
             return new MessageEvent<MessageEventContent>(event);
         }
+    } else if (event['type'] === 'm.reaction') {
+        return new ReactionEvent(event);
     } else {
         return new RoomEvent<any>(event);
     }
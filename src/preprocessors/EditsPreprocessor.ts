@@ -0,0 +1,108 @@
+import { MatrixClient } from "../MatrixClient";
+import { IPreprocessor } from "./IPreprocessor";
+import { EventKind, extractRequestError, LogService } from "..";
+
+/**
+ * Metadata for a message edit. Usually stored under the "mx_edit"
+ * field of an event (at the top level).
+ * @category Preprocessors
+ * @see EditsPreprocessor
+ */
+export interface IEditMetadata {
+    /**
+     * True if the event is itself an edit of another event, false if the
+     * event is an original event which the homeserver reported as edited.
+     */
+    isEdit: boolean;
+
+    /**
+     * The event ID of the event being edited.
+     */
+    targetEventId: string;
+
+    /**
+     * The latest content for the edited event. Handlers should use this
+     * in place of the event's own content, which for edits contains a
+     * fallback representation.
+     */
+    latestContent: any;
+
+    /**
+     * If the preprocessor is configured to fetch event content, this field
+     * will contain the event being edited as reported by the homeserver.
+     * May be null if the event could not be fetched.
+     */
+    originalEvent: any;
+}
+
+/**
+ * Processes message edits found in events. Edits are annotated with the
+ * event they replace and their new content under a top level "mx_edit"
+ * key, as are original events which the homeserver has bundled an edit
+ * with. The "mx_edit" property may be cast to the type IEditMetadata.
+ * @category Preprocessors
+ */
+export class EditsPreprocessor implements IPreprocessor {
+    /**
+     * Creates a new edits preprocessor.
+     * @param fetchOriginalEvents If enabled, this preprocessor will attempt
+     * to get the event being edited and append it to the edit information.
+     * Edits sent by a different user than the original event are then ignored,
+     * as required by the specification.
+     */
+    public constructor(private fetchOriginalEvents = false) {
+    }
+
+    public getSupportedEventTypes(): string[] {
+        return ["m.room.message"];
+    }
+
+    public async processEvent(event: any, client: MatrixClient, kind?: EventKind): Promise<any> {
+        if (kind && kind !== EventKind.RoomEvent) return;
+        if (!event["content"]) return;
+
+        const relation = event["content"]["m.relates_to"];
+        if (relation?.["rel_type"] === "m.replace") {
+            const targetEventId = relation["event_id"];
+            const newContent = event["content"]["m.new_content"];
+            if (!targetEventId || typeof newContent !== "object") return;
+
+            const metadata: IEditMetadata = {
+                isEdit: true,
+                targetEventId: targetEventId,
+                latestContent: newContent,
+                originalEvent: null,
+            };
+
+            if (this.fetchOriginalEvents) {
+                try {
+                    metadata.originalEvent = await client.getEvent(event["room_id"], targetEventId);
+                } catch (e) {
+                    LogService.error("EditsPreprocessor", "Failed to fetch original event:");
+                    LogService.error("EditsPreprocessor", extractRequestError(e));
+                }
+
+                if (metadata.originalEvent && metadata.originalEvent["sender"] !== event["sender"]) {
+                    LogService.warn("EditsPreprocessor", `Ignoring edit ${event["event_id"]} from a different sender than ${targetEventId}`);
+                    return;
+                }
+            }
+
+            event["mx_edit"] = metadata;
+            return event;
+        }
+
+        const bundledEdit = event["unsigned"]?.["m.relations"]?.["m.replace"];
+        const latestContent = bundledEdit?.["content"]?.["m.new_content"];
+        if (event["event_id"] && typeof latestContent === "object") {
+            const metadata: IEditMetadata = {
+                isEdit: false,
+                targetEventId: event["event_id"],
+                latestContent: latestContent,
+                originalEvent: null,
+            };
+            event["mx_edit"] = metadata;
+            return event;
+        }
+    }
+}
@@ -0,0 +1,51 @@
+/**
+ * Represents a storage provider for room state, as seen by a MatrixClient through its
+ * sync loop and state lookups.
+ * @category Storage providers
+ */
+export interface IRoomStateStorageProvider {
+    /**
+     * Stores a single state event for a room, replacing any existing event with the same
+     * type and state key.
+     * @param {string} roomId The room ID the event belongs to.
+     * @param {any} event The raw state event to store.
+     * @returns {Promise<any>|void} Resolves when complete.
+     */
+    setRoomStateEvent(roomId: string, event: any): Promise<any> | void;
+
+    /**
+     * Gets a single state event for a room. If the event is not known to the store, null
+     * or undefined is returned.
+     * @param {string} roomId The room ID to look up state in.
+     * @param {string} type The event type.
+     * @param {string} stateKey The state key. May be an empty string.
+     * @returns {any|Promise<any>} The raw state event, or null/undefined if not found. This
+     * may also be a promise for the value.
+     */
+    getRoomStateEvent(roomId: string, type: string, stateKey: string): any | Promise<any>;
+
+    /**
+     * Replaces the entire state for a room. The store should consider the given events to
+     * be the complete state of the room until it is cleared.
+     * @param {string} roomId The room ID to store state for.
+     * @param {any[]} events The raw state events.
+     * @returns {Promise<any>|void} Resolves when complete.
+     */
+    setRoomState(roomId: string, events: any[]): Promise<any> | void;
+
+    /**
+     * Gets the complete state for a room. If the store does not hold the complete state
+     * for the room, null or undefined is returned.
+     * @param {string} roomId The room ID to get state for.
+     * @returns {any[]|Promise<any[]|null|undefined>|null|undefined} The raw state events, or
+     * null/undefined if the complete state is not known. This may also be a promise for the value.
+     */
+    getRoomState(roomId: string): any[] | Promise<any[] | null | undefined> | null | undefined;
+
+    /**
+     * Removes all state held for a room.
+     * @param {string} roomId The room ID to clear state for.
+     * @returns {Promise<any>|void} Resolves when complete.
+     */
+    clearRoomState(roomId: string): Promise<any> | void;
+}
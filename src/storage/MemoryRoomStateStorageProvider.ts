@@ -0,0 +1,54 @@
+import { IRoomStateStorageProvider } from "./IRoomStateStorageProvider";
+
+interface RoomStateEntry {
+    complete: boolean;
+    events: Map<string, any>; // [type, stateKey] => event
+}
+
+/**
+ * A room state storage provider that persists no information by keeping it all in memory.
+ * Events are copied on the way in and out so callers cannot mutate the stored state.
+ * @category Storage providers
+ */
+export class MemoryRoomStateStorageProvider implements IRoomStateStorageProvider {
+    private rooms = new Map<string, RoomStateEntry>();
+
+    setRoomStateEvent(roomId: string, event: any): void {
+        if (typeof event?.['state_key'] !== "string") return;
+
+        let entry = this.rooms.get(roomId);
+        if (!entry) {
+            entry = { complete: false, events: new Map() };
+            this.rooms.set(roomId, entry);
+        }
+        entry.events.set(stateKeyFor(event['type'], event['state_key']), structuredClone(event));
+    }
+
+    getRoomStateEvent(roomId: string, type: string, stateKey: string): any {
+        const event = this.rooms.get(roomId)?.events.get(stateKeyFor(type, stateKey));
+        return event ? structuredClone(event) : null;
+    }
+
+    setRoomState(roomId: string, events: any[]): void {
+        const entry: RoomStateEntry = { complete: true, events: new Map() };
+        for (const event of events) {
+            if (typeof event?.['state_key'] !== "string") continue;
+            entry.events.set(stateKeyFor(event['type'], event['state_key']), structuredClone(event));
+        }
+        this.rooms.set(roomId, entry);
+    }
+
+    getRoomState(roomId: string): any[] | null {
+        const entry = this.rooms.get(roomId);
+        if (!entry?.complete) return null;
+        return Array.from(entry.events.values()).map(e => structuredClone(e));
+    }
+
+    clearRoomState(roomId: string): void {
+        this.rooms.delete(roomId);
+    }
+}
+
+function stateKeyFor(type: string, stateKey: string): string {
+    return JSON.stringify([type, stateKey]);
+}
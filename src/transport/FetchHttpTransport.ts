@@ -0,0 +1,88 @@
+import { stringify } from "querystring";
+import { Readable } from "stream";
+import { Agent, Dispatcher, fetch, ProxyAgent, Response } from "undici";
+
+import { HttpStreamResponse } from "../http";
+import { HttpTransportOptions, HttpTransportRequest, HttpTransportResponse, IHttpTransport } from "./IHttpTransport";
+
+/**
+ * An HTTP transport using the `fetch` implementation of undici, the HTTP client behind Node's
+ * built-in `fetch`.
+ * @category Transports
+ */
+export class FetchHttpTransport implements IHttpTransport {
+    private readonly dispatcher: Dispatcher;
+
+    /**
+     * Creates a new transport using `fetch`.
+     * @param {HttpTransportOptions} options The network configuration for the transport. Optional.
+     */
+    constructor(options: HttpTransportOptions = {}) {
+        if (options.proxyUrl) {
+            this.dispatcher = new ProxyAgent({
+                uri: options.proxyUrl,
+                requestTls: { ca: options.ca },
+                proxyTls: { ca: options.ca },
+            });
+        } else if (options.ca) {
+            this.dispatcher = new Agent({ connect: { ca: options.ca } });
+        }
+    }
+
+    public async request(request: HttpTransportRequest): Promise<HttpTransportResponse> {
+        const { signal, cancelTimeout } = withTimeout(request);
+        try {
+            const response = await this.fetch(request, request.body, signal);
+            const body = Buffer.from(await response.arrayBuffer());
+            return {
+                statusCode: response.status,
+                headers: getHeaders(response),
+                body: request.binaryResponse ? body : body.toString("utf-8"),
+            };
+        } finally {
+            cancelTimeout();
+        }
+    }
+
+    public async stream(request: HttpTransportRequest, body: Readable = null): Promise<HttpStreamResponse> {
+        const { signal, cancelTimeout } = withTimeout(request);
+        try {
+            const response = await this.fetch(request, body, signal);
+            return {
+                statusCode: response.status,
+                headers: getHeaders(response),
+                body: response.body ? Readable.fromWeb(response.body) : Readable.from([]),
+            };
+        } finally {
+            cancelTimeout();
+        }
+    }
+
+    private fetch(request: HttpTransportRequest, body: string | Buffer | Readable, signal: AbortSignal): Promise<Response> {
+        const query = request.qs ? stringify(request.qs) : "";
+        return fetch(query ? `${request.url}?${query}` : request.url, {
+            method: request.method,
+            headers: request.headers,
+            body: body ?? undefined,
+            // Required by fetch for streamed request bodies.
+            duplex: body instanceof Readable ? "half" : undefined,
+            signal,
+            dispatcher: this.dispatcher,
+        });
+    }
+}
+
+function withTimeout(request: HttpTransportRequest): { signal: AbortSignal, cancelTimeout: () => void } {
+    if (!request.timeout) return { signal: request.signal, cancelTimeout: () => {} };
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error(`Request timed out after ${request.timeout}ms`)), request.timeout);
+    const signal = request.signal ? AbortSignal.any([request.signal, controller.signal]) : controller.signal;
+    return { signal, cancelTimeout: () => clearTimeout(timer) };
+}
+
+function getHeaders(response: Response): Record<string, string> {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => headers[name] = value);
+    return headers;
+}
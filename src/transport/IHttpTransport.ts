@@ -0,0 +1,113 @@
+import { Readable } from "stream";
+
+import { HttpStreamResponse } from "../http";
+
+/**
+ * Network configuration for an HTTP transport.
+ * @category Transports
+ */
+export interface HttpTransportOptions {
+    /**
+     * The URL of an HTTP(S) proxy to send all requests through, such as an egress proxy.
+     * For example: "http://proxy.example.org:3128".
+     */
+    proxyUrl?: string;
+
+    /**
+     * The certificate authorities to trust, in PEM format, in place of the default set.
+     * Used for homeservers (and proxies) with certificates from a private CA.
+     */
+    ca?: string | Buffer | (string | Buffer)[];
+}
+
+/**
+ * A request to be sent by an HTTP transport.
+ * @category Transports
+ */
+export interface HttpTransportRequest {
+    /**
+     * The HTTP method to use.
+     */
+    method: "GET" | "POST" | "PUT" | "DELETE";
+
+    /**
+     * The URL to request. The parameters in `qs` are appended to it as a query string.
+     */
+    url: string;
+
+    /**
+     * The query string parameters to send. Array values are repeated.
+     */
+    qs?: Record<string, any>;
+
+    /**
+     * The headers to send.
+     */
+    headers: Record<string, string>;
+
+    /**
+     * The request body, already encoded.
+     */
+    body?: string | Buffer;
+
+    /**
+     * The number of milliseconds to wait before timing out. If not set, the request never times out.
+     */
+    timeout?: number;
+
+    /**
+     * If true, the response body is returned as a Buffer instead of a string.
+     */
+    binaryResponse?: boolean;
+
+    /**
+     * A signal to cancel the request with. The request rejects with the signal's reason when
+     * it is aborted.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * A response received by an HTTP transport.
+ * @category Transports
+ */
+export interface HttpTransportResponse {
+    /**
+     * The HTTP status code of the response.
+     */
+    statusCode: number;
+
+    /**
+     * The response headers, with lowercase names.
+     */
+    headers: Record<string, string | string[]>;
+
+    /**
+     * The response body. A string unless a binary response was requested.
+     */
+    body: any;
+}
+
+/**
+ * Sends HTTP requests on behalf of the SDK. Transports only move bytes: error handling and
+ * (de)serialization are done by the caller, so transports resolve for any HTTP status code.
+ * @category Transports
+ * @see setHttpTransport
+ */
+export interface IHttpTransport {
+    /**
+     * Sends a request, buffering the whole response body.
+     * @param {HttpTransportRequest} request The request to send.
+     * @returns {Promise<HttpTransportResponse>} Resolves to the response.
+     */
+    request(request: HttpTransportRequest): Promise<HttpTransportResponse>;
+
+    /**
+     * Sends a request, streaming the request and response bodies. The timeout only applies
+     * until the response headers are received.
+     * @param {HttpTransportRequest} request The request to send. The body is ignored.
+     * @param {Readable} body The request body to stream. Optional.
+     * @returns {Promise<HttpStreamResponse>} Resolves to the response once its headers have been received.
+     */
+    stream(request: HttpTransportRequest, body?: Readable): Promise<HttpStreamResponse>;
+}
@@ -0,0 +1,114 @@
+import { PassThrough, Readable } from "stream";
+
+import { getRequestFn } from "../request";
+import { HttpStreamResponse } from "../http";
+import { HttpTransportOptions, HttpTransportRequest, HttpTransportResponse, IHttpTransport } from "./IHttpTransport";
+
+/**
+ * An HTTP transport using the `request` library, or whichever compatible function has been
+ * set with `setRequestFn`. This is the default transport.
+ * @category Transports
+ */
+export class RequestHttpTransport implements IHttpTransport {
+    /**
+     * Creates a new transport using the `request` library.
+     * @param {HttpTransportOptions} options The network configuration for the transport. Optional.
+     */
+    constructor(private options: HttpTransportOptions = {}) {
+    }
+
+    public request(request: HttpTransportRequest): Promise<HttpTransportResponse> {
+        return new Promise<HttpTransportResponse>((resolve, reject) => {
+            let req = null;
+            const removeAbortListener = onAbort(request.signal, reason => {
+                req?.abort();
+                reject(reason);
+            });
+            req = getRequestFn()(this.getParams(request, {
+                qs: request.qs,
+                body: request.body,
+                // If this is undefined, then a string will be returned. If it's null, a Buffer will be returned.
+                encoding: request.binaryResponse ? null : undefined,
+                useQuerystring: true,
+                qsStringifyOptions: {
+                    options: { arrayFormat: 'repeat' },
+                },
+            }), (err, res, resBody) => {
+                removeAbortListener();
+                if (err) {
+                    reject(err);
+                    return;
+                }
+                resolve({ statusCode: res.statusCode, headers: res.headers ?? {}, body: resBody ?? res.body });
+            });
+        });
+    }
+
+    public stream(request: HttpTransportRequest, body: Readable = null): Promise<HttpStreamResponse> {
+        return new Promise<HttpStreamResponse>((resolve, reject) => {
+            const req = getRequestFn()(this.getParams(request, { encoding: null }));
+            const removeAbortListener = onAbort(request.signal, reason => {
+                req.abort();
+                reject(reason);
+            });
+
+            req.on("error", err => {
+                removeAbortListener();
+                reject(err);
+            });
+            req.on("response", response => {
+                removeAbortListener();
+
+                // Once the headers have arrived, aborting errors the body instead.
+                const responseBody = new PassThrough();
+                const removeBodyAbortListener = onAbort(request.signal, reason => {
+                    req.abort();
+                    responseBody.destroy(reason);
+                });
+                responseBody.on("end", removeBodyAbortListener);
+                responseBody.on("close", removeBodyAbortListener);
+
+                resolve({
+                    statusCode: response.statusCode,
+                    headers: response.headers,
+                    body: req.pipe(responseBody),
+                });
+            });
+
+            if (body) {
+                body.on("error", err => {
+                    req.abort();
+                    reject(err);
+                });
+                body.pipe(req);
+            }
+        });
+    }
+
+    private getParams(request: HttpTransportRequest, extra: object): { uri: string, [k: string]: any } {
+        const params = {
+            uri: request.url,
+            method: request.method,
+            timeout: request.timeout,
+            headers: request.headers,
+            // Enable KeepAlive for HTTP
+            forever: true,
+            ...extra,
+        };
+        if (this.options.proxyUrl) params["proxy"] = this.options.proxyUrl;
+        if (this.options.ca) params["ca"] = this.options.ca;
+        return params;
+    }
+}
+
+function onAbort(signal: AbortSignal | undefined, fn: (reason: any) => void): () => void {
+    if (!signal) return () => {};
+    if (signal.aborted) {
+        // Deferred so that callers can finish setting up the request before it is aborted.
+        process.nextTick(() => fn(signal.reason));
+        return () => {};
+    }
+    const listener = () => fn(signal.reason);
+    signal.addEventListener("abort", listener, { once: true });
+    return () => signal.removeEventListener("abort", listener);
+}
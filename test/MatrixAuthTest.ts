@@ -1,6 +1,7 @@
 import HttpBackend from 'matrix-mock-request';
+import * as simple from "simple-mock";
 
-import { MatrixAuth } from "../src";
+import { MatrixAuth, MatrixClient } from "../src";
 import { createTestClient } from "./TestUtils";
 
 export function createTestAuth(): { auth: MatrixAuth, http: HttpBackend, hsUrl: string } {
@@ -102,6 +103,159 @@ describe('MatrixAuth', () => {
             const [client] = await Promise.all([auth.passwordLogin(username, password), http.flushAllExpected()]);
             expect(client.homeserverUrl).toEqual(hsUrl);
             expect(client.accessToken).toEqual(accessToken);
+            expect(client.refreshToken).toBeNull();
+        });
+
+        it('should request a refresh token when the tokens can be persisted', async () => {
+            const { auth, http } = createTestAuth();
+
+            const accessToken = "1234";
+            const refreshToken = "5678";
+            const onTokensRefreshed = simple.stub();
+
+            http.when("POST", "/_matrix/client/v3/login").respond(200, (path, content) => {
+                expect(content).toMatchObject({ refresh_token: true });
+                return { access_token: accessToken, refresh_token: refreshToken, expires_in_ms: 60000 };
+            });
+
+            const [client] = await Promise.all([auth.passwordLogin("testing_username", "P@ssw0rd", undefined, onTokensRefreshed), http.flushAllExpected()]);
+            expect(client.accessToken).toEqual(accessToken);
+            expect(client.refreshToken).toEqual(refreshToken);
+            expect(client.tokenRefreshCallback).toBe(onTokensRefreshed);
+        });
+
+        it('should not request a refresh token when the tokens cannot be persisted', async () => {
+            const { auth, http } = createTestAuth();
+
+            http.when("POST", "/_matrix/client/v3/login").respond(200, (path, content) => {
+                expect(content["refresh_token"]).toBeUndefined();
+                return { access_token: "1234" };
+            });
+
+            const [client] = await Promise.all([auth.passwordLogin("testing_username", "P@ssw0rd"), http.flushAllExpected()]);
+            expect(client.refreshToken).toBeNull();
+        });
+    });
+
+    describe('getLoginFlows', () => {
+        it('should call the right endpoint', async () => {
+            const { auth, http } = createTestAuth();
+
+            const flows = [{ type: "m.login.password" }, { type: "m.login.token", get_login_token: true }];
+            http.when("GET", "/_matrix/client/v3/login").respond(200, { flows });
+
+            const [result] = await Promise.all([auth.getLoginFlows(), http.flushAllExpected()]);
+            expect(result).toEqual(flows);
+        });
+    });
+
+    describe('tokenLogin', () => {
+        it('should call the right endpoint', async () => {
+            const { auth, http, hsUrl } = createTestAuth();
+
+            const loginToken = "abcd";
+            const accessToken = "1234";
+
+            http.when("POST", "/_matrix/client/v3/login").respond(200, (path, content) => {
+                expect(content).toMatchObject({ type: "m.login.token", token: loginToken });
+                return { access_token: accessToken };
+            });
+
+            const [client] = await Promise.all([auth.tokenLogin(loginToken), http.flushAllExpected()]);
+            expect(client.homeserverUrl).toEqual(hsUrl);
+            expect(client.accessToken).toEqual(accessToken);
+        });
+    });
+
+    describe('jwtLogin', () => {
+        it('should call the right endpoint', async () => {
+            const { auth, http } = createTestAuth();
+
+            const jwt = "header.payload.signature";
+            const accessToken = "1234";
+
+            http.when("POST", "/_matrix/client/v3/login").respond(200, (path, content) => {
+                expect(content).toMatchObject({ type: "org.matrix.login.jwt", token: jwt });
+                return { access_token: accessToken };
+            });
+
+            const [client] = await Promise.all([auth.jwtLogin(jwt), http.flushAllExpected()]);
+            expect(client.accessToken).toEqual(accessToken);
+        });
+    });
+
+    describe('appserviceLogin', () => {
+        it('should call the right endpoint', async () => {
+            const { auth, http } = createTestAuth();
+
+            const userId = "@bridged:example.org";
+            const accessToken = "1234";
+
+            http.when("POST", "/_matrix/client/v3/login").respond(200, (path, content) => {
+                expect(content).toMatchObject({
+                    type: "m.login.application_service",
+                    identifier: {
+                        type: "m.id.user",
+                        user: userId,
+                    },
+                    initial_device_display_name: "Bridge",
+                });
+                expect(content["refresh_token"]).toBeUndefined();
+                return { access_token: accessToken, device_id: "DEVICE" };
+            });
+
+            const [client] = await Promise.all([auth.appserviceLogin(userId, "as_token", "Bridge"), http.flushAllExpected()]);
+            expect(client.accessToken).toEqual(accessToken);
+        });
+
+        it('should authenticate with the application service token', async () => {
+            const auth = new MatrixAuth("https://localhost");
+            const templateSpy = simple.mock(auth, "createTemplateClient").callFn((accessToken) => {
+                const client = new MatrixClient("https://localhost", accessToken);
+                simple.mock(client, "doRequest").resolveWith({ access_token: "1234" });
+                return client;
+            });
+
+            await auth.appserviceLogin("@bridged:example.org", "as_token");
+            expect(templateSpy.lastCall.arg).toEqual("as_token");
+        });
+    });
+
+    describe('ssoLogin', () => {
+        it('should log in with the token sent to the callback server', async () => {
+            const { auth, http, hsUrl } = createTestAuth();
+
+            const loginToken = "abcd";
+            const accessToken = "1234";
+
+            http.when("POST", "/_matrix/client/v3/login").respond(200, (path, content) => {
+                expect(content).toMatchObject({ type: "m.login.token", token: loginToken, initial_device_display_name: "Bot" });
+                return { access_token: accessToken };
+            });
+
+            let callbackResponse: Promise<Response>;
+            const openUrl = (url: string) => {
+                const ssoUrl = new URL(url);
+                expect(ssoUrl.origin + ssoUrl.pathname).toEqual(`${hsUrl}/_matrix/client/v3/login/sso/redirect/oidc-github`);
+                const redirectUrl = ssoUrl.searchParams.get("redirectUrl");
+                expect(redirectUrl).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/$/);
+                callbackResponse = fetch(`${redirectUrl}?loginToken=${loginToken}`);
+            };
+
+            const [client] = await Promise.all([
+                auth.ssoLogin(openUrl, { idpId: "oidc-github", deviceName: "Bot" }),
+                http.flushAllExpected(),
+            ]);
+            expect(client.accessToken).toEqual(accessToken);
+            expect((await callbackResponse).status).toBe(200);
+        });
+
+        it('should time out if the user does not sign in', async () => {
+            const auth = new MatrixAuth("https://localhost");
+            const openUrl = simple.stub();
+
+            await expect(auth.ssoLogin(openUrl, { timeoutMs: 10 })).rejects.toThrow("Timed out waiting for single sign-on after 10ms");
+            expect(openUrl.callCount).toBe(1);
         });
     });
 });
@@ -1,26 +1,36 @@
 import * as tmp from "tmp";
 import * as simple from "simple-mock";
+import { createReadStream, writeFileSync } from "fs";
+import { Duplex, Readable } from "stream";
 import { StoreType } from "@matrix-org/matrix-sdk-crypto-nodejs";
 
 import {
+    BACKFILLED_EVENT_ANNOTATION_KEY,
     EventKind,
     IJoinRoomStrategy,
     IPreprocessor,
     MatrixClient,
     Membership,
+    MemoryRoomStateStorageProvider,
     MemoryStorageProvider,
+    MembershipEvent,
+    MessageEvent,
     OpenIDConnectToken,
     OTKAlgorithm,
     OTKCounts,
     OTKs,
     PowerLevelAction,
+    PresenceEvent,
+    ReceiptEvent,
     redactObjectForLogging,
+    RequestScheduler,
     RoomCreateOptions,
     RoomDirectoryLookupResponse,
     RoomEvent,
     RustSdkCryptoStorageProvider,
     ServerVersions,
     setRequestFn,
+    TypingEvent,
 } from "../src";
 import { createTestClient, expectArrayEquals, testCryptoStores, TEST_DEVICE_ID } from "./TestUtils";
 
@@ -216,6 +226,107 @@ describe('MatrixClient', () => {
 
             await Promise.all([client.doRequest("GET", "/test", null, null, timeout), http.flushAllExpected()]);
         });
+
+        it('should send requests through the request scheduler, if set', async () => {
+            const { client } = createTestClient();
+
+            const responses = [
+                { statusCode: 429, body: JSON.stringify({ errcode: "M_LIMIT_EXCEEDED", error: "Too many requests", retry_after_ms: 1 }) },
+                { statusCode: 200, body: JSON.stringify({ test: 1234 }) },
+            ];
+            const spy = simple.spy((_, cb) => {
+                const response = responses.shift();
+                cb(null, response, response.body);
+            });
+            setRequestFn(spy);
+
+            const scheduler = new RequestScheduler({ jitterMs: 0 });
+            const scheduleSpy = simple.mock(scheduler, "schedule");
+            client.setRequestScheduler(scheduler);
+
+            const response = await client.doRequest("GET", "/test");
+            expect(response).toEqual({ test: 1234 });
+            expect(spy.callCount).toBe(2);
+            expect(scheduleSpy.callCount).toBe(1);
+        });
+
+        it('should cancel the request when the signal is aborted', async () => {
+            const { client } = createTestClient();
+
+            const abortSpy = simple.stub();
+            setRequestFn(() => ({ abort: abortSpy }));
+
+            const controller = new AbortController();
+            const reason = new Error("Shutting down");
+            const promise = client.doRequest("GET", "/test", null, null, 60000, false, "application/json", false, controller.signal);
+            controller.abort(reason);
+            await expect(promise).rejects.toBe(reason);
+            expect(abortSpy.callCount).toBe(1);
+        });
+
+        it('should refresh an expired access token and retry the request', async () => {
+            const { client, accessToken } = createTestClient();
+
+            const refreshSpy = simple.stub();
+            client.setRefreshToken("refresh1", refreshSpy);
+
+            const spy = simple.spy((params, cb) => {
+                if (params.uri.endsWith("/_matrix/client/v3/refresh")) {
+                    expect(params.headers["Authorization"]).toBeUndefined();
+                    expect(JSON.parse(params.body)).toEqual({ refresh_token: "refresh1" });
+                    cb(null, { statusCode: 200 }, JSON.stringify({ access_token: "new_token", refresh_token: "refresh2", expires_in_ms: 60000 }));
+                } else if (params.headers["Authorization"] === `Bearer ${accessToken}`) {
+                    cb(null, { statusCode: 401 }, JSON.stringify({ errcode: "M_UNKNOWN_TOKEN", error: "Expired", soft_logout: true }));
+                } else {
+                    expect(params.headers["Authorization"]).toEqual("Bearer new_token");
+                    cb(null, { statusCode: 200 }, JSON.stringify({ test: 1234 }));
+                }
+            });
+            setRequestFn(spy);
+
+            const response = await client.doRequest("GET", "/test");
+            expect(response).toEqual({ test: 1234 });
+            expect(spy.callCount).toBe(3);
+            expect(client.accessToken).toEqual("new_token");
+            expect(client.refreshToken).toEqual("refresh2");
+            expect(refreshSpy.callCount).toBe(1);
+            expect(refreshSpy.lastCall.arg).toEqual({ accessToken: "new_token", refreshToken: "refresh2", expiresInMs: 60000 });
+        });
+
+        it('should refresh the access token once for concurrent requests', async () => {
+            const { client, accessToken } = createTestClient();
+            client.setRefreshToken("refresh1");
+
+            const spy = simple.spy((params, cb) => {
+                if (params.uri.endsWith("/_matrix/client/v3/refresh")) {
+                    setTimeout(() => cb(null, { statusCode: 200 }, JSON.stringify({ access_token: "new_token" })), 10);
+                } else if (params.headers["Authorization"] === `Bearer ${accessToken}`) {
+                    cb(null, { statusCode: 401 }, JSON.stringify({ errcode: "M_UNKNOWN_TOKEN", error: "Expired", soft_logout: true }));
+                } else {
+                    cb(null, { statusCode: 200 }, JSON.stringify({ test: 1234 }));
+                }
+            });
+            setRequestFn(spy);
+
+            const responses = await Promise.all([client.doRequest("GET", "/test1"), client.doRequest("GET", "/test2")]);
+            expect(responses).toEqual([{ test: 1234 }, { test: 1234 }]);
+            expect(spy.calls.filter(c => c.args[0].uri.endsWith("/_matrix/client/v3/refresh")).length).toBe(1);
+            expect(client.accessToken).toEqual("new_token");
+            expect(client.refreshToken).toEqual("refresh1");
+        });
+
+        it('should not refresh the access token after a hard logout', async () => {
+            const { client } = createTestClient();
+            client.setRefreshToken("refresh1");
+
+            const spy = simple.spy((params, cb) => {
+                cb(null, { statusCode: 401 }, JSON.stringify({ errcode: "M_UNKNOWN_TOKEN", error: "Logged out", soft_logout: false }));
+            });
+            setRequestFn(spy);
+
+            await expect(client.doRequest("GET", "/test")).rejects.toMatchObject({ errcode: "M_UNKNOWN_TOKEN" });
+            expect(spy.callCount).toBe(1);
+        });
     });
 
     describe('impersonateUserId', () => {
@@ -392,6 +503,22 @@ describe('MatrixClient', () => {
         });
     });
 
+    describe('doesServerSupportAuthenticatedMedia', () => {
+        test.each(<[ServerVersions, boolean][]>[
+            [{ versions: ["v1.10"] }, false],
+            [{ versions: ["v1.10", "v1.11"] }, true],
+            [{ versions: ["v1.10"], unstable_features: { "org.matrix.msc3916.stable": true } }, true],
+            [{ versions: ["v1.10"], unstable_features: { "org.matrix.msc3916.stable": false } }, false],
+        ])("should find that %p supports authenticated media as %p", async (versionsResponse, target) => {
+            const { client, http } = createTestClient();
+
+            http.when("GET", "/_matrix/client/versions").respond(200, versionsResponse);
+
+            const [result] = await Promise.all([client.doesServerSupportAuthenticatedMedia(), http.flushAllExpected()]);
+            expect(result).toEqual(target);
+        });
+    });
+
     describe('doesServerSupportAnyOneVersion', () => {
         test.each(<[ServerVersions["versions"], string[], boolean][]>[
             [[], ["v1.1", "v1.2"], false],
@@ -519,6 +646,207 @@ describe('MatrixClient', () => {
         });
     });
 
+    describe('getRoomTags', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient(null, "@alice:example.org");
+
+            const roomId = "!test:example.org";
+            const tags = { "m.favourite": { order: 0.5 }, "u.work": {} };
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/user").respond(200, (path) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/user/${encodeURIComponent("@alice:example.org")}/rooms/${encodeURIComponent(roomId)}/tags`);
+                return { tags };
+            });
+
+            const [result] = await Promise.all([client.getRoomTags(roomId), http.flushAllExpected()]);
+            expect(result).toEqual(tags);
+        });
+    });
+
+    describe('addRoomTag', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient(null, "@alice:example.org");
+
+            const roomId = "!test:example.org";
+            const tag = "u.work";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("PUT", "/_matrix/client/v3/user").respond(200, (path, content) => {
+                // eslint-disable-next-line max-len
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/user/${encodeURIComponent("@alice:example.org")}/rooms/${encodeURIComponent(roomId)}/tags/${encodeURIComponent(tag)}`);
+                expect(content).toEqual({ order: 0.25 });
+                return {};
+            });
+
+            await Promise.all([client.addRoomTag(roomId, tag, { order: 0.25 }), http.flushAllExpected()]);
+        });
+    });
+
+    describe('removeRoomTag', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient(null, "@alice:example.org");
+
+            const roomId = "!test:example.org";
+            const tag = "u.work";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("DELETE", "/_matrix/client/v3/user").respond(200, (path) => {
+                // eslint-disable-next-line max-len
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/user/${encodeURIComponent("@alice:example.org")}/rooms/${encodeURIComponent(roomId)}/tags/${encodeURIComponent(tag)}`);
+                return {};
+            });
+
+            await Promise.all([client.removeRoomTag(roomId, tag), http.flushAllExpected()]);
+        });
+    });
+
+    describe('getPushRules', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const rules = {
+                global: {
+                    override: [{ rule_id: ".m.rule.master", default: true, enabled: false, actions: [], conditions: [] }],
+                },
+            };
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/pushrules").respond(200, (path) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/pushrules/`);
+                return rules;
+            });
+
+            const [result] = await Promise.all([client.getPushRules(), http.flushAllExpected()]);
+            expect(result).toEqual(rules);
+        });
+    });
+
+    describe('getPushRule', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!test:example.org";
+            const rule = { rule_id: roomId, default: false, enabled: true, actions: [] };
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/pushrules").respond(200, (path) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/pushrules/global/room/${encodeURIComponent(roomId)}`);
+                return rule;
+            });
+
+            const [result] = await Promise.all([client.getPushRule("room", roomId), http.flushAllExpected()]);
+            expect(result).toEqual(rule);
+        });
+    });
+
+    describe('setPushRule', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!test:example.org";
+            const rule = {
+                actions: [],
+                conditions: [{ kind: "event_match", key: "room_id", pattern: roomId }],
+            };
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("PUT", "/_matrix/client/v3/pushrules").respond(200, (path, content, req) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/pushrules/global/override/${encodeURIComponent(roomId)}`);
+                expect(req.queryParams).toEqual({ before: "other.rule" });
+                expect(content).toEqual(rule);
+                return {};
+            });
+
+            await Promise.all([client.setPushRule("override", roomId, rule, { before: "other.rule" }), http.flushAllExpected()]);
+        });
+    });
+
+    describe('deletePushRule', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const ruleId = "example.rule";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("DELETE", "/_matrix/client/v3/pushrules").respond(200, (path) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/pushrules/global/content/${encodeURIComponent(ruleId)}`);
+                return {};
+            });
+
+            await Promise.all([client.deletePushRule("content", ruleId), http.flushAllExpected()]);
+        });
+    });
+
+    describe('isPushRuleEnabled', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const ruleId = ".m.rule.master";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/pushrules").respond(200, (path) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/pushrules/global/override/${encodeURIComponent(ruleId)}/enabled`);
+                return { enabled: true };
+            });
+
+            const [result] = await Promise.all([client.isPushRuleEnabled("override", ruleId), http.flushAllExpected()]);
+            expect(result).toBe(true);
+        });
+    });
+
+    describe('setPushRuleEnabled', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const ruleId = ".m.rule.master";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("PUT", "/_matrix/client/v3/pushrules").respond(200, (path, content) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/pushrules/global/override/${encodeURIComponent(ruleId)}/enabled`);
+                expect(content).toEqual({ enabled: false });
+                return {};
+            });
+
+            await Promise.all([client.setPushRuleEnabled("override", ruleId, false), http.flushAllExpected()]);
+        });
+    });
+
+    describe('getPushRuleActions', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const ruleId = ".m.rule.message";
+            const actions = ["notify", { set_tweak: "sound", value: "default" }];
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/pushrules").respond(200, (path) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/pushrules/global/underride/${encodeURIComponent(ruleId)}/actions`);
+                return { actions };
+            });
+
+            const [result] = await Promise.all([client.getPushRuleActions("underride", ruleId), http.flushAllExpected()]);
+            expect(result).toEqual(actions);
+        });
+    });
+
+    describe('setPushRuleActions', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const ruleId = ".m.rule.message";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("PUT", "/_matrix/client/v3/pushrules").respond(200, (path, content) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/pushrules/global/underride/${encodeURIComponent(ruleId)}/actions`);
+                expect(content).toEqual({ actions: [] });
+                return {};
+            });
+
+            await Promise.all([client.setPushRuleActions("underride", ruleId, []), http.flushAllExpected()]);
+        });
+    });
+
     describe('getPresenceStatus', () => {
         it('should call the right endpoint', async () => {
             const { client, http, hsUrl } = createTestClient();
@@ -854,6 +1182,128 @@ describe('MatrixClient', () => {
         });
     });
 
+    describe('searchUserDirectory', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const users = [{ user_id: "@alice:example.org", display_name: "Alice" }];
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/user_directory/search").respond(200, (path, content) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/user_directory/search`);
+                expect(content).toEqual({ search_term: "alice", limit: 5 });
+                return { limited: true, results: users };
+            });
+
+            const [result] = await Promise.all([client.searchUserDirectory("alice", 5), http.flushAllExpected()]);
+            expect(result).toEqual({ limited: true, results: users });
+        });
+    });
+
+    describe('getPublicRoomsPage', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const rooms = [{ room_id: "!a:example.org", num_joined_members: 4, world_readable: false, guest_can_join: false }];
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/publicRooms").respond(200, (path, content, req) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/publicRooms`);
+                expect(req.queryParams).toEqual({ server: "remote.example.org" });
+                expect(content).toEqual({
+                    limit: 10,
+                    since: "since_token",
+                    third_party_instance_id: "irc-network",
+                    filter: {
+                        generic_search_term: "matrix",
+                        room_types: [null, "m.space"],
+                    },
+                });
+                return { chunk: rooms, next_batch: "next", prev_batch: "prev", total_room_count_estimate: 20 };
+            });
+
+            const [result] = await Promise.all([client.getPublicRoomsPage({
+                server: "remote.example.org",
+                limit: 10,
+                since: "since_token",
+                genericSearchTerm: "matrix",
+                roomTypes: [null, "m.space"],
+                thirdPartyInstanceId: "irc-network",
+            }), http.flushAllExpected()]);
+            expect(result).toEqual({ chunk: rooms, nextBatch: "next", prevBatch: "prev", totalRoomCountEstimate: 20 });
+        });
+
+        it('should include all networks when requested', async () => {
+            const { client, http } = createTestClient();
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/publicRooms").respond(200, (path, content, req) => {
+                expect(req.queryParams).toBeFalsy();
+                expect(content).toEqual({ include_all_networks: true });
+                return { chunk: [] };
+            });
+
+            const [result] = await Promise.all([client.getPublicRoomsPage({
+                includeAllNetworks: true,
+                thirdPartyInstanceId: "ignored",
+            }), http.flushAllExpected()]);
+            expect(result.chunk).toEqual([]);
+        });
+    });
+
+    describe('getPublicRooms', () => {
+        it('should paginate until there are no more rooms', async () => {
+            const { client, http } = createTestClient();
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/publicRooms").respond(200, (path, content) => {
+                expect(content).toEqual({ limit: 1 });
+                return { chunk: [{ room_id: "!a:example.org" }], next_batch: "second" };
+            });
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/publicRooms").respond(200, (path, content) => {
+                expect(content).toEqual({ limit: 1, since: "second" });
+                return { chunk: [{ room_id: "!b:example.org" }] };
+            });
+
+            const collect = async () => {
+                const ids = [];
+                for await (const room of client.getPublicRooms({ limit: 1 })) {
+                    ids.push(room.room_id);
+                }
+                return ids;
+            };
+
+            const [ids] = await Promise.all([collect(), http.flushAllExpected()]);
+            expect(ids).toEqual(["!a:example.org", "!b:example.org"]);
+        });
+
+        it('should continue past empty pages', async () => {
+            const { client, http } = createTestClient();
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/publicRooms").respond(200, () => {
+                return { chunk: [], next_batch: "second" };
+            });
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/publicRooms").respond(200, (path, content) => {
+                expect(content).toEqual({ since: "second" });
+                return { chunk: [{ room_id: "!a:example.org" }] };
+            });
+
+            const collect = async () => {
+                const ids = [];
+                for await (const room of client.getPublicRooms()) {
+                    ids.push(room.room_id);
+                }
+                return ids;
+            };
+
+            const [ids] = await Promise.all([collect(), http.flushAllExpected()]);
+            expect(ids).toEqual(["!a:example.org"]);
+        });
+    });
+
     describe('resolveRoom', () => {
         it('should return the raw room ID if given an ID', async () => {
             const { client } = createTestClient();
@@ -1119,6 +1569,35 @@ describe('MatrixClient', () => {
             await flush;
             client.stop();
         }, 10000);
+
+        it('should cancel a pending sync when requested', async () => {
+            const { client } = createTestClient();
+
+            (<any>client).userId = "@not_used:example.org"; // to prevent calls to /whoami
+            client.dms.update = simple.stub();
+
+            const abortSpy = simple.stub();
+            let syncStarted: () => void;
+            const syncPromise = new Promise<void>(resolve => syncStarted = resolve);
+            setRequestFn((params, cb) => {
+                if (params.uri.endsWith("/_matrix/client/v3/joined_rooms")) {
+                    // The sync handler checks which rooms it should ignore
+                    cb(null, { statusCode: 200 }, JSON.stringify({ joined_rooms: [] }));
+                    return;
+                }
+                expect(params.uri).toContain("/_matrix/client/v3/sync");
+                syncStarted();
+                return { abort: abortSpy }; // never responds
+            });
+            const processSpy = simple.mock(client, "processSync");
+
+            await client.start();
+            await syncPromise;
+            client.stop(true);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            expect(abortSpy.callCount).toBe(1);
+            expect(processSpy.callCount).toBe(0);
+        });
     });
 
     describe('start', () => {
@@ -1396,21 +1875,180 @@ describe('MatrixClient', () => {
             expect(dmsUpdate.callCount).toBe(1);
             client.stop();
         });
-    });
 
-    describe('processSync', () => {
-        interface ProcessSyncClient {
-            userId: string;
+        it('should use simplified sliding sync when configured', async () => {
+            const storage = new MemoryStorageProvider();
+            const { client, http } = createTestClient(storage);
 
-            processSync(raw: any): Promise<any>;
-        }
+            const userId = "@syncing:example.org";
+            (<any>client).userId = userId; // to prevent calls to /whoami
 
-        it('should process non-room account data', async () => {
-            const { client: realClient } = createTestClient();
-            const client = <ProcessSyncClient>(<any>realClient);
+            const dmsUpdate = simple.stub();
+            client.dms.update = dmsUpdate;
 
-            const userId = "@syncing:example.org";
-            const events = [
+            client.slidingSync = {
+                lists: { all: { ranges: [[0, 10]], timeline_limit: 5 } },
+                room_subscriptions: { "!sub:example.org": { required_state: [["*", "*"]] } },
+            };
+
+            const joinedRoomId = "!joined:example.org";
+            const invitedRoomId = "!invited:example.org";
+            const leftRoomId = "!left:example.org";
+            const message = { type: "m.room.message", event_id: "$message", content: { body: "hello" } };
+            const joinEvent = { type: "m.room.member", event_id: "$join", state_key: userId, content: { membership: "join" } };
+            const inviteEvent = { type: "m.room.member", state_key: userId, content: { membership: "invite" } };
+            const leaveEvent = { type: "m.room.member", event_id: "$leave", state_key: userId, content: { membership: "leave" } };
+
+            // The sync handler checks which rooms it should ignore
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/joined_rooms").respond(200, { joined_rooms: [joinedRoomId, leftRoomId] });
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/unstable/org.matrix.simplified_msc3575/sync").respond(200, (path, content, req) => {
+                expect(req.queryParams.pos).toBeUndefined();
+                expect(content).toMatchObject({
+                    lists: {
+                        all: {
+                            ranges: [[0, 10]],
+                            timeline_limit: 5,
+                            required_state: [["m.room.member", "$ME"]],
+                        },
+                    },
+                    room_subscriptions: {
+                        "!sub:example.org": { required_state: [["*", "*"]] },
+                    },
+                    extensions: { account_data: { enabled: true } },
+                });
+                return {
+                    pos: "pos1",
+                    rooms: {
+                        [joinedRoomId]: { required_state: [joinEvent], timeline: [message] },
+                        [invitedRoomId]: { invite_state: [inviteEvent] },
+                        [leftRoomId]: { required_state: [leaveEvent], timeline: [] },
+                    },
+                    extensions: {
+                        account_data: { global: [{ type: "org.example", content: {} }] },
+                    },
+                };
+            });
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/unstable/org.matrix.simplified_msc3575/sync").respond(200, (path, content, req) => {
+                expect(req.queryParams.pos).toEqual("pos1");
+                client.stop();
+                return { pos: "pos2" };
+            });
+
+            const eventSpy = simple.stub().callFn((rid, ev) => {
+                expect(rid).toEqual(joinedRoomId);
+                expect(ev).toMatchObject(message);
+            });
+            const inviteSpy = simple.stub().callFn((rid, ev) => {
+                expect(rid).toEqual(invitedRoomId);
+                expect(ev).toMatchObject(inviteEvent);
+            });
+            const leaveSpy = simple.stub().callFn((rid, ev) => {
+                expect(rid).toEqual(leftRoomId);
+                expect(ev).toMatchObject(leaveEvent);
+            });
+            const accountDataSpy = simple.stub();
+            client.on("room.event", eventSpy);
+            client.on("room.invite", inviteSpy);
+            client.on("room.leave", leaveSpy);
+            client.on("account_data", accountDataSpy);
+
+            await Promise.all([client.start(), http.flushAllExpected()]);
+            expect(eventSpy.callCount).toBe(1);
+            expect(inviteSpy.callCount).toBe(1);
+            expect(leaveSpy.callCount).toBe(1);
+            expect(accountDataSpy.callCount).toBe(1);
+            expect(JSON.parse(storage.readValue("msc4186_sync_token")).pos).toEqual("pos2");
+            expect(storage.getSyncToken()).toBeFalsy();
+            client.stop();
+        });
+
+        it('should restart sliding sync sessions when the position is unknown', async () => {
+            const storage = new MemoryStorageProvider();
+            const { client, http } = createTestClient(storage);
+
+            (<any>client).userId = "@syncing:example.org"; // to prevent calls to /whoami
+            client.dms.update = simple.stub();
+            client.slidingSync = {};
+
+            storage.storeValue("msc4186_sync_token", JSON.stringify({ pos: "expired", to_device: "td1" }));
+
+            // The sync handler checks which rooms it should ignore
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/joined_rooms").respond(200, { joined_rooms: [] });
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/unstable/org.matrix.simplified_msc3575/sync").respond(400, (path, content, req) => {
+                expect(req.queryParams.pos).toEqual("expired");
+                return { errcode: "M_UNKNOWN_POS", error: "Unknown position" };
+            });
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/unstable/org.matrix.simplified_msc3575/sync").respond(200, (path, content, req) => {
+                expect(req.queryParams.pos).toBeUndefined();
+                expect(content["lists"]).toBeDefined();
+                client.stop();
+                return { pos: "fresh" };
+            });
+
+            await Promise.all([client.start(), http.flushAllExpected()]);
+            expect(JSON.parse(storage.readValue("msc4186_sync_token"))).toMatchObject({ pos: "fresh", to_device: "td1" });
+            client.stop();
+        });
+
+        it('should cancel a restarted sliding sync session when requested', async () => {
+            const storage = new MemoryStorageProvider();
+            const { client } = createTestClient(storage);
+
+            (<any>client).userId = "@syncing:example.org"; // to prevent calls to /whoami
+            client.dms.update = simple.stub();
+            client.slidingSync = {};
+
+            storage.storeValue("msc4186_sync_token", JSON.stringify({ pos: "expired" }));
+
+            const abortSpy = simple.stub();
+            let restarted: () => void;
+            const restartPromise = new Promise<void>(resolve => restarted = resolve);
+            setRequestFn((params, cb) => {
+                if (params.uri.endsWith("/_matrix/client/v3/joined_rooms")) {
+                    // The sync handler checks which rooms it should ignore
+                    cb(null, { statusCode: 200 }, JSON.stringify({ joined_rooms: [] }));
+                    return;
+                }
+                expect(params.uri).toContain("/_matrix/client/unstable/org.matrix.simplified_msc3575/sync");
+                if (params.qs.pos) {
+                    cb(null, { statusCode: 400 }, JSON.stringify({ errcode: "M_UNKNOWN_POS", error: "Unknown position" }));
+                    return;
+                }
+                restarted();
+                return { abort: abortSpy }; // never responds
+            });
+            const processSpy = simple.mock(client, "processSync");
+
+            await client.start();
+            await restartPromise;
+            client.stop(true);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            expect(abortSpy.callCount).toBe(1);
+            expect(processSpy.callCount).toBe(0);
+        });
+    });
+
+    describe('processSync', () => {
+        interface ProcessSyncClient {
+            userId: string;
+
+            processSync(raw: any): Promise<any>;
+        }
+
+        it('should process non-room account data', async () => {
+            const { client: realClient } = createTestClient();
+            const client = <ProcessSyncClient>(<any>realClient);
+
+            const userId = "@syncing:example.org";
+            const events = [
                 {
                     type: "m.room.member",
                     content: {
@@ -1668,6 +2306,39 @@ describe('MatrixClient', () => {
             expect(spy.callCount).toBe(1);
         });
 
+        it('should process own room knocks', async () => {
+            const { client: realClient } = createTestClient();
+            const client = <ProcessSyncClient>(<any>realClient);
+
+            const userId = "@syncing:example.org";
+            const roomId = "!testing:example.org";
+            const events = [
+                {
+                    type: "m.room.join_rules",
+                    state_key: "",
+                    content: { join_rule: "knock" },
+                },
+                {
+                    type: "m.room.member",
+                    state_key: userId,
+                    content: { membership: "knock" },
+                },
+            ];
+
+            client.userId = userId;
+
+            const spy = simple.stub().callFn((rid, ev) => {
+                expect(ev).toMatchObject(events[1]);
+                expect(rid).toEqual(roomId);
+            });
+            realClient.on("room.knock", spy);
+
+            const roomsObj = {};
+            roomsObj[roomId] = { knock_state: { events: events } };
+            await client.processSync({ rooms: { knock: roomsObj } });
+            expect(spy.callCount).toBe(1);
+        });
+
         it('should use the most recent invite event', async () => {
             const { client: realClient } = createTestClient();
             const client = <ProcessSyncClient>(<any>realClient);
@@ -2006,6 +2677,124 @@ describe('MatrixClient', () => {
             expect(eventSpy.callCount).toBe(5);
         });
 
+        it('should emit thread events with the thread root', async () => {
+            const { client: realClient, http } = createTestClient();
+            const client = <ProcessSyncClient>(<any>realClient);
+
+            const userId = "@syncing:example.org";
+            const roomId = "!testing:example.org";
+            const rootEvent = {
+                type: "m.room.message",
+                event_id: "$root",
+                content: { msgtype: "m.text", body: "root" },
+            };
+            const threadEvent = {
+                type: "m.room.message",
+                event_id: "$reply",
+                content: {
+                    "msgtype": "m.text",
+                    "body": "reply",
+                    "m.relates_to": { rel_type: "m.thread", event_id: "$root" },
+                },
+            };
+
+            client.userId = userId;
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/rooms").respond(200, (path) => {
+                expect(path).toContain(`/rooms/${encodeURIComponent(roomId)}/event/${encodeURIComponent("$root")}`);
+                return rootEvent;
+            });
+
+            const threadSpy = simple.stub().callFn((rid, ev, root) => {
+                expect(rid).toEqual(roomId);
+                expect(ev).toMatchObject(threadEvent);
+                expect(root).toMatchObject(rootEvent);
+            });
+            realClient.on("room.thread_event", threadSpy);
+
+            const roomsObj = {};
+            roomsObj[roomId] = { timeline: { events: [threadEvent] } };
+            await Promise.all([client.processSync({ rooms: { join: roomsObj } }), http.flushAllExpected()]);
+            expect(threadSpy.callCount).toBe(1);
+        });
+
+        it('should use thread roots from the same sync', async () => {
+            const { client: realClient } = createTestClient();
+            const client = <ProcessSyncClient>(<any>realClient);
+
+            const userId = "@syncing:example.org";
+            const roomId = "!testing:example.org";
+            const rootEvent = {
+                type: "m.room.message",
+                event_id: "$root",
+                content: { msgtype: "m.text", body: "root" },
+            };
+            const threadEvent = {
+                type: "m.room.message",
+                event_id: "$reply",
+                content: {
+                    "msgtype": "m.text",
+                    "body": "reply",
+                    "m.relates_to": { rel_type: "m.thread", event_id: "$root" },
+                },
+            };
+
+            client.userId = userId;
+
+            const getEventSpy = simple.mock(realClient, "getEvent").callFn(() => {
+                throw new Error("Not expected");
+            });
+            const threadSpy = simple.stub().callFn((rid, ev, root) => {
+                expect(root).toMatchObject(rootEvent);
+            });
+            realClient.on("room.thread_event", threadSpy);
+
+            const roomsObj = {};
+            roomsObj[roomId] = { timeline: { events: [rootEvent, threadEvent] } };
+            await client.processSync({ rooms: { join: roomsObj } });
+            expect(threadSpy.callCount).toBe(1);
+            expect(getEventSpy.callCount).toBe(0);
+        });
+
+        it('should cache thread roots across syncs', async () => {
+            const { client: realClient } = createTestClient();
+            const client = <ProcessSyncClient>(<any>realClient);
+
+            const userId = "@syncing:example.org";
+            const roomId = "!testing:example.org";
+            const rootEvent = {
+                type: "m.room.message",
+                event_id: "$root",
+                content: { msgtype: "m.text", body: "root" },
+            };
+            const threadEvent = (eventId: string) => ({
+                type: "m.room.message",
+                event_id: eventId,
+                content: {
+                    "msgtype": "m.text",
+                    "body": "reply",
+                    "m.relates_to": { rel_type: "m.thread", event_id: "$root" },
+                },
+            });
+
+            client.userId = userId;
+
+            const getEventSpy = simple.mock(realClient, "getEvent").resolveWith(rootEvent);
+            const threadSpy = simple.stub().callFn((rid, ev, root) => {
+                expect(root).toMatchObject(rootEvent);
+            });
+            realClient.on("room.thread_event", threadSpy);
+
+            for (const eventId of ["$reply1", "$reply2"]) {
+                const roomsObj = {};
+                roomsObj[roomId] = { timeline: { events: [threadEvent(eventId)] } };
+                await client.processSync({ rooms: { join: roomsObj } });
+            }
+            expect(threadSpy.callCount).toBe(2);
+            expect(getEventSpy.callCount).toBe(1);
+        });
+
         it('should process tombstone events', async () => {
             const { client: realClient } = createTestClient();
             const client = <ProcessSyncClient>(<any>realClient);
@@ -2323,6 +3112,265 @@ describe('MatrixClient', () => {
             await client.processSync(sync);
             expect(spy.callCount).toBe(1);
         }));
+
+        it('should process presence', async () => {
+            const { client: realClient } = createTestClient();
+            const client = <ProcessSyncClient>(<any>realClient);
+
+            const events = [
+                {
+                    type: "m.presence",
+                    sender: "@alice:example.org",
+                    content: { presence: "online" },
+                },
+            ];
+
+            client.userId = "@syncing:example.org";
+
+            const spy = simple.stub().callFn((ev) => {
+                expect(ev).toBeInstanceOf(PresenceEvent);
+                expect(ev.raw).toMatchObject(events[0]);
+                expect(ev.presence).toEqual("online");
+            });
+            realClient.on("presence", spy);
+
+            await client.processSync({ presence: { events: events } });
+            expect(spy.callCount).toBe(1);
+        });
+
+        it('should process typing notifications and receipts for joined rooms', async () => {
+            const { client: realClient } = createTestClient();
+            const client = <ProcessSyncClient>(<any>realClient);
+
+            const roomId = "!testing:example.org";
+            const typing = { type: "m.typing", content: { user_ids: ["@alice:example.org"] } };
+            const receipt = {
+                type: "m.receipt",
+                content: { "$event": { "m.read": { "@alice:example.org": { ts: 1234 } } } },
+            };
+
+            client.userId = "@syncing:example.org";
+
+            const typingSpy = simple.stub().callFn((rid, ev) => {
+                expect(rid).toEqual(roomId);
+                expect(ev).toBeInstanceOf(TypingEvent);
+                expect(ev.userIds).toEqual(["@alice:example.org"]);
+            });
+            const receiptSpy = simple.stub().callFn((rid, ev) => {
+                expect(rid).toEqual(roomId);
+                expect(ev).toBeInstanceOf(ReceiptEvent);
+                expect(ev.receipts).toEqual([{
+                    eventId: "$event",
+                    receiptType: "m.read",
+                    userId: "@alice:example.org",
+                    ts: 1234,
+                    threadId: undefined,
+                }]);
+            });
+            realClient.on("room.typing", typingSpy);
+            realClient.on("room.receipt", receiptSpy);
+
+            const roomsObj = {};
+            roomsObj[roomId] = { ephemeral: { events: [typing, receipt] } };
+            await client.processSync({ rooms: { join: roomsObj } });
+            expect(typingSpy.callCount).toBe(1);
+            expect(receiptSpy.callCount).toBe(1);
+        });
+
+        it('should track the receipts of the client', async () => {
+            const storage = new MemoryStorageProvider();
+            const { client: realClient } = createTestClient(storage);
+            const client = <ProcessSyncClient>(<any>realClient);
+
+            const roomId = "!testing:example.org";
+            const userId = "@syncing:example.org";
+            const receipt = {
+                type: "m.receipt",
+                content: {
+                    "$read": {
+                        "m.read": {
+                            [userId]: { ts: 1234 },
+                            "@alice:example.org": { ts: 1234 },
+                        },
+                    },
+                    "$private": { "m.read.private": { [userId]: { ts: 1234 } } },
+                    "$thread": { "m.read": { [userId]: { ts: 1234, thread_id: "$root" } } },
+                },
+            };
+
+            client.userId = userId;
+
+            expect(await realClient.getOwnReceipt(roomId)).toBeNull();
+
+            const roomsObj = {};
+            roomsObj[roomId] = { ephemeral: { events: [receipt] } };
+            await client.processSync({ rooms: { join: roomsObj } });
+
+            expect(await realClient.getOwnReceipt(roomId)).toEqual("$read");
+            expect(await realClient.getOwnReceipt(roomId, "m.read.private")).toEqual("$private");
+            expect(await realClient.getOwnReceipt(roomId, "m.read", "$root")).toEqual("$thread");
+            expect(await realClient.getOwnReceipt(roomId, "m.read", "main")).toBeNull();
+
+            // A new client with the same storage should see the same receipts
+            const { client: restartedClient } = createTestClient(storage);
+            expect(await restartedClient.getOwnReceipt(roomId)).toEqual("$read");
+        });
+
+        it('should run ephemeral events through preprocessors', async () => {
+            const { client: realClient } = createTestClient();
+            const client = <ProcessSyncClient>(<any>realClient);
+
+            const roomId = "!testing:example.org";
+            const typing = { type: "m.typing", content: { user_ids: [] } };
+
+            client.userId = "@syncing:example.org";
+
+            const processor = <IPreprocessor>{
+                processEvent: (ev, procClient, kind?) => {
+                    expect(kind).toEqual(EventKind.EphemeralEvent);
+                    ev["processed"] = true;
+                },
+                getSupportedEventTypes: () => ["m.typing"],
+            };
+            realClient.addPreprocessor(processor);
+
+            const spy = simple.stub().callFn((rid, ev) => {
+                expect(ev.raw["processed"]).toBeTruthy();
+            });
+            realClient.on("room.typing", spy);
+
+            const roomsObj = {};
+            roomsObj[roomId] = { ephemeral: { events: [typing] } };
+            await client.processSync({ rooms: { join: roomsObj } });
+            expect(spy.callCount).toBe(1);
+        });
+
+        it('should recover events skipped by limited timelines when enabled', async () => {
+            const storage = new MemoryStorageProvider();
+            const { client: realClient, http, hsUrl } = createTestClient(storage);
+            const client = <ProcessSyncClient>(<any>realClient);
+
+            const roomId = "!testing:example.org";
+            const missedA = { type: "m.room.message", event_id: "$missedA", content: { body: "!first" } };
+            const missedB = { type: "m.room.message", event_id: "$missedB", content: { body: "!second" } };
+            const live = { type: "m.room.message", event_id: "$live", content: { body: "!third" } };
+
+            client.userId = "@syncing:example.org";
+            realClient.fillTimelineGaps = true;
+            storage.storeValue("timeline_last_event." + roomId, "$seen");
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/rooms").respond(200, (path, content, req) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/messages`);
+                expect(req.queryParams.dir).toEqual("b");
+                expect(req.queryParams.from).toEqual("prev_token");
+                return { chunk: [missedB], end: "next_token" };
+            });
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/rooms").respond(200, (path, content, req) => {
+                expect(req.queryParams.from).toEqual("next_token");
+                return { chunk: [missedA, { type: "m.room.message", event_id: "$seen" }], end: "end_token" };
+            });
+
+            const seen = [];
+            realClient.on("room.event", (rid, ev) => {
+                expect(rid).toEqual(roomId);
+                seen.push(ev);
+            });
+
+            const roomsObj = {};
+            roomsObj[roomId] = { timeline: { limited: true, prev_batch: "prev_token", events: [live] } };
+            await Promise.all([client.processSync({ rooms: { join: roomsObj } }), http.flushAllExpected()]);
+
+            expect(seen.map(e => e['event_id'])).toEqual(["$missedA", "$missedB", "$live"]);
+            expect(seen[0]['unsigned'][BACKFILLED_EVENT_ANNOTATION_KEY]).toBe(true);
+            expect(seen[1]['unsigned'][BACKFILLED_EVENT_ANNOTATION_KEY]).toBe(true);
+            expect(seen[2]['unsigned']).toBeUndefined();
+            expect(storage.readValue("timeline_last_event." + roomId)).toEqual("$live");
+        });
+
+        it('should not recover events for rooms without a last seen event', async () => {
+            const storage = new MemoryStorageProvider();
+            const { client: realClient, http } = createTestClient(storage);
+            const client = <ProcessSyncClient>(<any>realClient);
+
+            const roomId = "!testing:example.org";
+            const live = { type: "m.room.message", event_id: "$live", content: { body: "hello" } };
+
+            client.userId = "@syncing:example.org";
+            realClient.fillTimelineGaps = true;
+
+            const spy = simple.stub();
+            realClient.on("room.event", spy);
+
+            const roomsObj = {};
+            roomsObj[roomId] = { timeline: { limited: true, prev_batch: "prev_token", events: [live] } };
+            await client.processSync({ rooms: { join: roomsObj } });
+
+            expect(spy.callCount).toBe(1);
+            expect(http.requests.length).toBe(0);
+            expect(storage.readValue("timeline_last_event." + roomId)).toEqual("$live");
+        });
+
+        it('should record room state to the room state store', async () => {
+            const { client: realClient } = createTestClient();
+            const client = <ProcessSyncClient>(<any>realClient);
+
+            const userId = "@syncing:example.org";
+            const roomId = "!testing:example.org";
+            const stateEvent = { type: "m.room.name", state_key: "", content: { name: "Old" } };
+            const timelineEvents = [
+                { type: "m.room.message", content: { body: "hello" } },
+                { type: "m.room.name", state_key: "", content: { name: "New" } },
+                { type: "m.room.topic", state_key: "", content: { topic: "Topic" } },
+            ];
+
+            client.userId = userId;
+            realClient.roomStateStore = new MemoryRoomStateStorageProvider();
+
+            const spy = simple.stub().callFn(async (rid, ev) => {
+                if (ev['type'] !== "m.room.topic") return;
+                const stored = await realClient.roomStateStore.getRoomStateEvent(rid, "m.room.topic", "");
+                expect(stored).toMatchObject(ev);
+            });
+            realClient.on("room.event", spy);
+
+            const roomsObj = {};
+            roomsObj[roomId] = { state: { events: [stateEvent] }, timeline: { events: timelineEvents } };
+            await client.processSync({ rooms: { join: roomsObj } });
+            expect(spy.callCount).toBe(3);
+
+            expect(await realClient.roomStateStore.getRoomStateEvent(roomId, "m.room.name", "")).toMatchObject(timelineEvents[1]);
+            expect(await realClient.roomStateStore.getRoomStateEvent(roomId, "m.room.topic", "")).toMatchObject(timelineEvents[2]);
+            expect(await realClient.roomStateStore.getRoomStateEvent(roomId, "m.room.message", "")).toBeFalsy();
+        });
+
+        it('should clear the room state store for left rooms', async () => {
+            const { client: realClient } = createTestClient();
+            const client = <ProcessSyncClient>(<any>realClient);
+
+            const userId = "@syncing:example.org";
+            const roomId = "!testing:example.org";
+            const events = [
+                {
+                    type: "m.room.member",
+                    state_key: userId,
+                    unsigned: { age: 0 },
+                    content: { membership: "leave" },
+                },
+            ];
+
+            client.userId = userId;
+            realClient.roomStateStore = new MemoryRoomStateStorageProvider();
+            await realClient.roomStateStore.setRoomState(roomId, [{ type: "m.room.name", state_key: "", content: { name: "Test" } }]);
+
+            const roomsObj = {};
+            roomsObj[roomId] = { timeline: { events: events } };
+            await client.processSync({ rooms: { leave: roomsObj } });
+
+            expect(await realClient.roomStateStore.getRoomState(roomId)).toBeFalsy();
+            expect(await realClient.roomStateStore.getRoomStateEvent(roomId, "m.room.name", "")).toBeFalsy();
+        });
     });
 
     describe('getEvent', () => {
@@ -2603,6 +3651,40 @@ describe('MatrixClient', () => {
                 }
             }
         });
+
+        it('should use the room state store when it holds the complete state', async () => {
+            const { client, http } = createTestClient();
+
+            const roomId = "!abc123:example.org";
+            const events = [{ type: "m.room.name", state_key: "", content: { name: "Test" } }];
+
+            client.roomStateStore = new MemoryRoomStateStorageProvider();
+            await client.roomStateStore.setRoomState(roomId, events);
+
+            const result = await client.getRoomState(roomId);
+            expect(result).toEqual(events);
+            expect(http.requests.length).toBe(0);
+        });
+
+        it('should populate the room state store on a cache miss', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!abc123:example.org";
+            const events = [{ type: "m.room.name", state_key: "", content: { name: "Test" } }];
+
+            client.roomStateStore = new MemoryRoomStateStorageProvider();
+            await client.roomStateStore.setRoomStateEvent(roomId, events[0]); // not complete state
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/rooms").respond(200, (path) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/state`);
+                return events;
+            });
+
+            const [result] = await Promise.all([client.getRoomState(roomId), http.flushAllExpected()]);
+            expect(result).toEqual(events);
+            expect(await client.roomStateStore.getRoomState(roomId)).toEqual(events);
+        });
     });
 
     describe('getRoomStateEvent', () => {
@@ -2695,6 +3777,42 @@ describe('MatrixClient', () => {
             expect(result).toMatchObject(event);
             expect(result["processed"]).toBeTruthy();
         });
+
+        it('should use the room state store when it holds the event', async () => {
+            const { client, http } = createTestClient();
+
+            const roomId = "!abc123:example.org";
+            const eventType = "m.room.name";
+            const content = { name: "Test" };
+
+            client.roomStateStore = new MemoryRoomStateStorageProvider();
+            await client.roomStateStore.setRoomStateEvent(roomId, { type: eventType, state_key: "", content });
+
+            const result = await client.getRoomStateEvent(roomId, eventType, "");
+            expect(result).toEqual(content);
+            expect(http.requests.length).toBe(0);
+        });
+
+        it('should fall back to the homeserver when the room state store misses', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!abc123:example.org";
+            const eventType = "m.room.name";
+            const stateKey = "testing";
+            const content = { name: "Test" };
+
+            client.roomStateStore = new MemoryRoomStateStorageProvider();
+            await client.roomStateStore.setRoomStateEvent(roomId, { type: eventType, state_key: "", content: { name: "Other" } });
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/rooms").respond(200, (path) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/state/${encodeURIComponent(eventType)}/${stateKey}`);
+                return content;
+            });
+
+            const [result] = await Promise.all([client.getRoomStateEvent(roomId, eventType, stateKey), http.flushAllExpected()]);
+            expect(result).toEqual(content);
+        });
     });
 
     describe('getEventContext', () => {
@@ -2759,6 +3877,384 @@ describe('MatrixClient', () => {
         });
     });
 
+    describe('getRoomMessages', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!abc123:example.org";
+            const filter = { types: ["m.room.message"] };
+            const events = [
+                { type: "m.room.message", event_id: "$a", content: { msgtype: "m.text", body: "hello" } },
+                { type: "m.room.member", event_id: "$b", state_key: "@alice:example.org", content: { membership: "join" } },
+            ];
+            const state = [{ type: "m.room.member", state_key: "@bob:example.org", content: { membership: "join" } }];
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/rooms").respond(200, (path, content, req) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/messages`);
+                expect(req.queryParams).toMatchObject({
+                    dir: "f",
+                    from: "from_token",
+                    to: "to_token",
+                    limit: 20,
+                    filter: JSON.stringify(filter),
+                });
+                return { chunk: events, start: "from_token", end: "end_token", state };
+            });
+
+            const [result] = await Promise.all([client.getRoomMessages(roomId, {
+                direction: "f",
+                from: "from_token",
+                to: "to_token",
+                limit: 20,
+                filter,
+            }), http.flushAllExpected()]);
+            expect(result.start).toEqual("from_token");
+            expect(result.end).toEqual("end_token");
+            expect(result.chunk.length).toBe(2);
+            expect(result.chunk[0]).toBeInstanceOf(MessageEvent);
+            expect(result.chunk[0].raw).toMatchObject(events[0]);
+            expect(result.chunk[1]).toBeInstanceOf(MembershipEvent);
+            expect(result.state.length).toBe(1);
+            expect(result.state[0].raw).toMatchObject(state[0]);
+        });
+
+        it('should default to paginating backwards', async () => {
+            const { client, http } = createTestClient();
+
+            const roomId = "!abc123:example.org";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/rooms").respond(200, (path, content, req) => {
+                expect(req.queryParams).toEqual({ dir: "b" });
+                return { chunk: [], start: "start_token" };
+            });
+
+            const [result] = await Promise.all([client.getRoomMessages(roomId), http.flushAllExpected()]);
+            expect(result.chunk).toEqual([]);
+            expect(result.end).toBeUndefined();
+        });
+
+        it('should decrypt events in encrypted rooms', async () => {
+            const { client, http } = createTestClient();
+
+            const roomId = "!abc123:example.org";
+            const encrypted = { type: "m.room.encrypted", event_id: "$a", content: { algorithm: "m.megolm.v1.aes-sha2" } };
+            const decrypted = { ...encrypted, type: "m.room.message", content: { msgtype: "m.text", body: "hello" } };
+
+            (<any>client).crypto = {
+                isRoomEncrypted: async (rid) => rid === roomId,
+                decryptRoomEvent: async (ev, rid) => {
+                    expect(ev.raw).toMatchObject(encrypted);
+                    expect(rid).toEqual(roomId);
+                    return new RoomEvent(decrypted);
+                },
+            };
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/rooms").respond(200, () => {
+                return { chunk: [encrypted], start: "start_token" };
+            });
+
+            const [result] = await Promise.all([client.getRoomMessages(roomId), http.flushAllExpected()]);
+            expect(result.chunk.length).toBe(1);
+            expect(result.chunk[0]).toBeInstanceOf(MessageEvent);
+            expect(result.chunk[0].raw).toMatchObject(decrypted);
+        });
+    });
+
+    describe('iterateRoomMessages', () => {
+        it('should paginate until there are no more events', async () => {
+            const { client, http } = createTestClient();
+
+            const roomId = "!abc123:example.org";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/rooms").respond(200, (path, content, req) => {
+                expect(req.queryParams.from).toEqual("first");
+                return { chunk: [{ type: "m.room.message", event_id: "$a" }], start: "first", end: "second" };
+            });
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/rooms").respond(200, (path, content, req) => {
+                expect(req.queryParams.from).toEqual("second");
+                return { chunk: [{ type: "m.room.message", event_id: "$b" }], start: "second" };
+            });
+
+            const collect = async () => {
+                const ids = [];
+                for await (const event of client.iterateRoomMessages(roomId, { from: "first" })) {
+                    ids.push(event.eventId);
+                }
+                return ids;
+            };
+
+            const [ids] = await Promise.all([collect(), http.flushAllExpected()]);
+            expect(ids).toEqual(["$a", "$b"]);
+        });
+
+        it('should continue past empty pages', async () => {
+            const { client, http } = createTestClient();
+
+            const roomId = "!abc123:example.org";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/rooms").respond(200, () => {
+                return { chunk: [], start: "first", end: "second" };
+            });
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/rooms").respond(200, (path, content, req) => {
+                expect(req.queryParams.from).toEqual("second");
+                return { chunk: [{ type: "m.room.message", event_id: "$a" }], start: "second" };
+            });
+
+            const collect = async () => {
+                const ids = [];
+                for await (const event of client.iterateRoomMessages(roomId)) {
+                    ids.push(event.eventId);
+                }
+                return ids;
+            };
+
+            const [ids] = await Promise.all([collect(), http.flushAllExpected()]);
+            expect(ids).toEqual(["$a"]);
+        });
+    });
+
+    describe('getThreads', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!abc123:example.org";
+            const roots = [
+                { type: "m.room.message", event_id: "$a", content: { msgtype: "m.text", body: "hello" } },
+            ];
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v1/rooms").respond(200, (path, content, req) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v1/rooms/${encodeURIComponent(roomId)}/threads`);
+                expect(req.queryParams).toMatchObject({
+                    include: "participated",
+                    from: "from_token",
+                    limit: 5,
+                });
+                return { chunk: roots, next_batch: "next_token" };
+            });
+
+            const [result] = await Promise.all([client.getThreads(roomId, {
+                include: "participated",
+                from: "from_token",
+                limit: 5,
+            }), http.flushAllExpected()]);
+            expect(result.nextBatch).toEqual("next_token");
+            expect(result.chunk.length).toBe(1);
+            expect(result.chunk[0]).toBeInstanceOf(MessageEvent);
+            expect(result.chunk[0].raw).toMatchObject(roots[0]);
+        });
+    });
+
+    describe('iterateThreads', () => {
+        it('should paginate until there are no more threads', async () => {
+            const { client, http } = createTestClient();
+
+            const roomId = "!abc123:example.org";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v1/rooms").respond(200, (path, content, req) => {
+                expect(req.queryParams.from).toBeUndefined();
+                return { chunk: [{ type: "m.room.message", event_id: "$a" }], next_batch: "second" };
+            });
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v1/rooms").respond(200, (path, content, req) => {
+                expect(req.queryParams.from).toEqual("second");
+                return { chunk: [{ type: "m.room.message", event_id: "$b" }] };
+            });
+
+            const collect = async () => {
+                const ids = [];
+                for await (const event of client.iterateThreads(roomId)) {
+                    ids.push(event.eventId);
+                }
+                return ids;
+            };
+
+            const [ids] = await Promise.all([collect(), http.flushAllExpected()]);
+            expect(ids).toEqual(["$a", "$b"]);
+        });
+
+        it('should continue past empty pages', async () => {
+            const { client, http } = createTestClient();
+
+            const roomId = "!abc123:example.org";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v1/rooms").respond(200, () => {
+                return { chunk: [], next_batch: "second" };
+            });
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v1/rooms").respond(200, (path, content, req) => {
+                expect(req.queryParams.from).toEqual("second");
+                return { chunk: [{ type: "m.room.message", event_id: "$a" }] };
+            });
+
+            const collect = async () => {
+                const ids = [];
+                for await (const event of client.iterateThreads(roomId)) {
+                    ids.push(event.eventId);
+                }
+                return ids;
+            };
+
+            const [ids] = await Promise.all([collect(), http.flushAllExpected()]);
+            expect(ids).toEqual(["$a"]);
+        });
+    });
+
+    describe('searchRoomEvents', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!abc123:example.org";
+            const filter = { rooms: [roomId] };
+            const resultEvent = { type: "m.room.message", event_id: "$result", room_id: roomId, content: { msgtype: "m.text", body: "hello world" } };
+            const beforeEvent = { type: "m.room.message", event_id: "$before", room_id: roomId, content: { msgtype: "m.text", body: "before" } };
+            const afterEvent = { type: "m.room.member", event_id: "$after", room_id: roomId, state_key: "@bob:example.org", content: { membership: "join" } };
+            const stateEvent = { type: "m.room.name", state_key: "", room_id: roomId, content: { name: "Test" } };
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/search").respond(200, (path, content, req) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/search`);
+                expect(req.queryParams).toEqual({ next_batch: "previous" });
+                expect(content).toEqual({
+                    search_categories: {
+                        room_events: {
+                            search_term: "hello",
+                            keys: ["content.body"],
+                            filter: filter,
+                            order_by: "recent",
+                            include_state: true,
+                            groupings: { group_by: [{ key: "room_id" }] },
+                            event_context: { before_limit: 1, after_limit: 1, include_profile: true },
+                        },
+                    },
+                });
+                return {
+                    search_categories: {
+                        room_events: {
+                            count: 10,
+                            highlights: ["hello"],
+                            next_batch: "next",
+                            results: [{
+                                rank: 0.5,
+                                result: resultEvent,
+                                context: {
+                                    events_before: [beforeEvent],
+                                    events_after: [afterEvent],
+                                    start: "start_token",
+                                    end: "end_token",
+                                    profile_info: { "@alice:example.org": { displayname: "Alice" } },
+                                },
+                            }],
+                            state: { [roomId]: [stateEvent] },
+                            groups: { room_id: { [roomId]: { results: ["$result"], order: 1, next_batch: "group_next" } } },
+                        },
+                    },
+                };
+            });
+
+            const [result] = await Promise.all([client.searchRoomEvents("hello", {
+                keys: ["content.body"],
+                filter: filter,
+                orderBy: "recent",
+                includeState: true,
+                groupings: ["room_id"],
+                eventContext: { beforeLimit: 1, afterLimit: 1, includeProfile: true },
+                nextBatch: "previous",
+            }), http.flushAllExpected()]);
+            expect(result.count).toBe(10);
+            expect(result.highlights).toEqual(["hello"]);
+            expect(result.nextBatch).toEqual("next");
+            expect(result.results.length).toBe(1);
+            expect(result.results[0].rank).toBe(0.5);
+            expect(result.results[0].event).toBeInstanceOf(MessageEvent);
+            expect(result.results[0].event.raw).toMatchObject(resultEvent);
+            expect(result.results[0].context.before[0].raw).toMatchObject(beforeEvent);
+            expect(result.results[0].context.after[0]).toBeInstanceOf(MembershipEvent);
+            expect(result.results[0].context.start).toEqual("start_token");
+            expect(result.results[0].context.end).toEqual("end_token");
+            expect(result.results[0].context.profileInfo).toEqual({ "@alice:example.org": { displayname: "Alice" } });
+            expect(result.state[roomId][0].raw).toMatchObject(stateEvent);
+            expect(result.groups).toEqual({ room_id: { [roomId]: { results: ["$result"], order: 1, nextBatch: "group_next" } } });
+        });
+
+        it('should handle empty results', async () => {
+            const { client, http } = createTestClient();
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/search").respond(200, (path, content, req) => {
+                expect(req.queryParams).toBeFalsy();
+                expect(content).toEqual({ search_categories: { room_events: { search_term: "hello" } } });
+                return { search_categories: { room_events: { results: [] } } };
+            });
+
+            const [result] = await Promise.all([client.searchRoomEvents("hello"), http.flushAllExpected()]);
+            expect(result).toEqual({ count: undefined, highlights: [], results: [], nextBatch: undefined });
+        });
+    });
+
+    describe('iterateSearchResults', () => {
+        it('should paginate until there are no more results', async () => {
+            const { client, http } = createTestClient();
+
+            const result = (id: string) => ({ rank: 1, result: { type: "m.room.message", event_id: id, room_id: "!room:example.org" } });
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/search").respond(200, () => {
+                return { search_categories: { room_events: { results: [result("$a")], next_batch: "second" } } };
+            });
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/search").respond(200, (path, content, req) => {
+                expect(req.queryParams).toEqual({ next_batch: "second" });
+                return { search_categories: { room_events: { results: [result("$b")] } } };
+            });
+
+            const collect = async () => {
+                const ids = [];
+                for await (const searchResult of client.iterateSearchResults("hello")) {
+                    ids.push(searchResult.event.eventId);
+                }
+                return ids;
+            };
+
+            const [ids] = await Promise.all([collect(), http.flushAllExpected()]);
+            expect(ids).toEqual(["$a", "$b"]);
+        });
+
+        it('should continue past empty pages', async () => {
+            const { client, http } = createTestClient();
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/search").respond(200, () => {
+                return { search_categories: { room_events: { results: [], next_batch: "second" } } };
+            });
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/search").respond(200, (path, content, req) => {
+                expect(req.queryParams).toEqual({ next_batch: "second" });
+                return { search_categories: { room_events: { results: [{ rank: 1, result: { type: "m.room.message", event_id: "$a", room_id: "!room:example.org" } }] } } };
+            });
+
+            const collect = async () => {
+                const ids = [];
+                for await (const searchResult of client.iterateSearchResults("hello")) {
+                    ids.push(searchResult.event.eventId);
+                }
+                return ids;
+            };
+
+            const [ids] = await Promise.all([collect(), http.flushAllExpected()]);
+            expect(ids).toEqual(["$a"]);
+        });
+    });
+
     describe('getUserProfile', () => {
         it('should call the right endpoint', async () => {
             const { client, http, hsUrl } = createTestClient();
@@ -2976,6 +4472,28 @@ describe('MatrixClient', () => {
         });
     });
 
+    describe('knockRoom', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomAlias = "#abc123:example.org";
+            const roomId = "!testing:example.org";
+            const reason = "Let me in";
+            const servers = ["example.org", "other.example.org"];
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/knock").respond(200, (path, content, req) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/knock/${encodeURIComponent(roomAlias)}`);
+                expect(req.queryParams).toEqual({ server_name: servers });
+                expect(content).toEqual({ reason });
+                return { room_id: roomId };
+            });
+
+            const [result] = await Promise.all([client.knockRoom(roomAlias, reason, servers), http.flushAllExpected()]);
+            expect(result).toEqual(roomId);
+        });
+    });
+
     describe('getJoinedRooms', () => {
         it('should call the right endpoint', async () => {
             const { client, http, hsUrl } = createTestClient();
@@ -3445,6 +4963,74 @@ describe('MatrixClient', () => {
 
             await Promise.all([client.sendReadReceipt(roomId, eventId), http.flushAllExpected()]);
         });
+
+        it('should send private and threaded receipts', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!testing:example.org";
+            const eventId = "$something:example.org";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/rooms").respond(200, (path, content) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/receipt/m.read.private/${encodeURIComponent(eventId)}`);
+                expect(content).toEqual({ thread_id: "main" });
+                return {};
+            });
+
+            await Promise.all([client.sendReadReceipt(roomId, eventId, "m.read.private", "main"), http.flushAllExpected()]);
+        });
+    });
+
+    describe('setReadMarkers', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!testing:example.org";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/rooms").respond(200, (path, content) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/read_markers`);
+                expect(content).toEqual({
+                    "m.fully_read": "$fully_read",
+                    "m.read": "$read",
+                    "m.read.private": "$private",
+                });
+                return {};
+            });
+
+            await Promise.all([client.setReadMarkers(roomId, {
+                fullyRead: "$fully_read",
+                read: "$read",
+                readPrivate: "$private",
+            }), http.flushAllExpected()]);
+        });
+    });
+
+    describe('getFullyReadMarker', () => {
+        it('should read the room account data', async () => {
+            const { client, http, hsUrl } = createTestClient(null, "@alice:example.org");
+
+            const roomId = "!testing:example.org";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/user").respond(200, (path) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/user/${encodeURIComponent("@alice:example.org")}/rooms/${encodeURIComponent(roomId)}/account_data/m.fully_read`);
+                return { event_id: "$fully_read" };
+            });
+
+            const [result] = await Promise.all([client.getFullyReadMarker(roomId), http.flushAllExpected()]);
+            expect(result).toEqual("$fully_read");
+        });
+
+        it('should return null when there is no marker', async () => {
+            const { client, http } = createTestClient(null, "@alice:example.org");
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v3/user").respond(404, { errcode: "M_NOT_FOUND", error: "Not found" });
+
+            const [result] = await Promise.all([client.getFullyReadMarker("!testing:example.org"), http.flushAllExpected()]);
+            expect(result).toBeNull();
+        });
     });
 
     describe('setTyping', () => {
@@ -4451,6 +6037,141 @@ describe('MatrixClient', () => {
         }));
     });
 
+    describe('sendThreadReply', () => {
+        it('should send a message into the thread', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!testing:example.org";
+            const eventId = "$something:example.org";
+            const rootId = "$root:example.org";
+            const eventContent = {
+                body: "Hello World",
+                msgtype: "m.text",
+            };
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("PUT", "/_matrix/client/v3/rooms").respond(200, (path, content) => {
+                const idx = path.indexOf(`${hsUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/send/m.room.message/`);
+                expect(idx).toBe(0);
+                expect(content).toEqual({
+                    ...eventContent,
+                    "m.relates_to": {
+                        "rel_type": "m.thread",
+                        "event_id": rootId,
+                        "is_falling_back": true,
+                        "m.in_reply_to": { event_id: rootId },
+                    },
+                });
+                return { event_id: eventId };
+            });
+
+            const [result] = await Promise.all([client.sendThreadReply(roomId, rootId, eventContent), http.flushAllExpected()]);
+            expect(result).toEqual(eventId);
+        });
+
+        it('should reply to events within the thread', async () => {
+            const { client, http } = createTestClient();
+
+            const roomId = "!testing:example.org";
+            const eventId = "$something:example.org";
+            const rootId = "$root:example.org";
+            const replyToId = "$reply:example.org";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("PUT", "/_matrix/client/v3/rooms").respond(200, (path, content) => {
+                expect(content["m.relates_to"]).toEqual({
+                    "rel_type": "m.thread",
+                    "event_id": rootId,
+                    "is_falling_back": false,
+                    "m.in_reply_to": { event_id: replyToId },
+                });
+                return { event_id: eventId };
+            });
+
+            const [result] = await Promise.all([client.sendThreadReply(roomId, rootId, { body: "Hello", msgtype: "m.text" }, replyToId), http.flushAllExpected()]);
+            expect(result).toEqual(eventId);
+        });
+    });
+
+    describe('editMessage', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!testing:example.org";
+            const eventId = "$something:example.org";
+            const targetEventId = "$original:example.org";
+            const newContent = {
+                msgtype: "m.text",
+                body: "Hello World",
+                format: "org.matrix.custom.html",
+                formatted_body: "<b>Hello World</b>",
+            };
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("PUT", "/_matrix/client/v3/rooms").respond(200, (path, content) => {
+                const idx = path.indexOf(`${hsUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/send/m.room.message/`);
+                expect(idx).toBe(0);
+                expect(content).toEqual({
+                    "msgtype": "m.text",
+                    "body": "* Hello World",
+                    "format": "org.matrix.custom.html",
+                    "formatted_body": "* <b>Hello World</b>",
+                    "m.new_content": newContent,
+                    "m.relates_to": {
+                        rel_type: "m.replace",
+                        event_id: targetEventId,
+                    },
+                });
+                return { event_id: eventId };
+            });
+
+            const [result] = await Promise.all([client.editMessage(roomId, targetEventId, newContent), http.flushAllExpected()]);
+            expect(result).toEqual(eventId);
+        });
+
+        it('should keep the relation unencrypted in encrypted rooms', () => testCryptoStores(async (cryptoStoreType) => {
+            const { client, http, hsUrl } = createTestClient(null, "@alice:example.org", cryptoStoreType);
+
+            const roomId = "!testing:example.org";
+            const eventId = "$something:example.org";
+            const targetEventId = "$original:example.org";
+            const newContent = {
+                msgtype: "m.text",
+                body: "Hello World",
+            };
+
+            const eventContent = {
+                encrypted: true,
+                body: "Hello World",
+            };
+
+            client.crypto.isRoomEncrypted = async () => true; // for this test
+            client.crypto.encryptRoomEvent = async (rid, t, c) => {
+                expect(rid).toEqual(roomId);
+                expect(t).toEqual("m.room.message");
+                expect(c["m.new_content"]).toEqual(newContent);
+                return { ...eventContent } as any;
+            };
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("PUT", "/_matrix/client/v3/rooms").respond(200, (path, content) => {
+                const idx = path.indexOf(`${hsUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/send/m.room.encrypted/`);
+                expect(idx).toBe(0);
+                expect(content).toEqual({
+                    ...eventContent,
+                    "m.relates_to": {
+                        rel_type: "m.replace",
+                        event_id: targetEventId,
+                    },
+                });
+                return { event_id: eventId };
+            });
+
+            const [result] = await Promise.all([client.editMessage(roomId, targetEventId, newContent), http.flushAllExpected()]);
+            expect(result).toEqual(eventId);
+        }));
+    });
+
     describe('sendMessage', () => {
         it('should call the right endpoint', async () => {
             const { client, http, hsUrl } = createTestClient();
@@ -4537,6 +6258,175 @@ describe('MatrixClient', () => {
         }));
     });
 
+    describe('sendFile', () => {
+        it('should upload and send the file in unencrypted rooms', async () => {
+            const { client } = createTestClient();
+
+            const roomId = "!testing:example.org";
+            const eventId = "$something:example.org";
+            const data = Buffer.from("hello world");
+            const mxc = "mxc://example.org/file";
+
+            const uploadSpy = simple.mock(client, "uploadContent").callFn((d, type, name) => {
+                expect(d).toBe(data);
+                expect(type).toEqual("text/plain");
+                expect(name).toEqual("hello.txt");
+                return Promise.resolve(mxc);
+            });
+            const sendSpy = simple.mock(client, "sendMessage").callFn((rid, content) => {
+                expect(rid).toEqual(roomId);
+                expect(content).toEqual({
+                    msgtype: "m.file",
+                    body: "hello.txt",
+                    url: mxc,
+                    info: { size: data.length, mimetype: "text/plain" },
+                });
+                return Promise.resolve(eventId);
+            });
+
+            const result = await client.sendFile(roomId, data, { filename: "hello.txt", mimetype: "text/plain" });
+            expect(result).toEqual(eventId);
+            expect(uploadSpy.callCount).toBe(1);
+            expect(sendSpy.callCount).toBe(1);
+        });
+
+        it('should use the caption as the body', async () => {
+            const { client } = createTestClient();
+
+            const roomId = "!testing:example.org";
+            const mxc = "mxc://example.org/file";
+
+            simple.mock(client, "uploadContent").resolveWith(mxc);
+            const sendSpy = simple.mock(client, "sendMessage").callFn((rid, content) => {
+                expect(content).toMatchObject({
+                    msgtype: "m.file",
+                    body: "Have a look",
+                    filename: "file",
+                    url: mxc,
+                    info: { size: 5, mimetype: "application/octet-stream" },
+                });
+                return Promise.resolve("$event");
+            });
+
+            await client.sendFile(roomId, Buffer.from("hello"), { caption: "Have a look" });
+            expect(sendSpy.callCount).toBe(1);
+        });
+
+        it('should encrypt the file and thumbnail in encrypted rooms', async () => {
+            const { client } = createTestClient();
+
+            const roomId = "!testing:example.org";
+            const data = Buffer.from("hello world");
+            const thumbnail = Buffer.from("thumb");
+            const encryptedFile = {
+                key: { kty: "oct", key_ops: ["encrypt", "decrypt"], alg: "A256CTR", k: "key", ext: true },
+                iv: "iv",
+                hashes: { sha256: "hash" },
+                v: "v2",
+            };
+
+            (<any>client).crypto = {
+                isRoomEncrypted: async (rid) => {
+                    expect(rid).toEqual(roomId);
+                    return true;
+                },
+                encryptMedia: async (d) => ({ buffer: Buffer.concat([Buffer.from("enc-"), d]), file: encryptedFile }),
+            };
+            const uploadSpy = simple.mock(client, "uploadContent").callFn((d, type, name) => {
+                expect(type).toBeUndefined();
+                expect(name).toBeUndefined();
+                return Promise.resolve(`mxc://example.org/${d.toString()}`);
+            });
+            const sendSpy = simple.mock(client, "sendMessage").callFn((rid, content) => {
+                expect(content).toEqual({
+                    msgtype: "m.image",
+                    body: "image.png",
+                    file: { url: "mxc://example.org/enc-hello world", ...encryptedFile },
+                    info: {
+                        size: data.length,
+                        mimetype: "image/png",
+                        w: 640,
+                        h: 480,
+                        thumbnail_file: { url: "mxc://example.org/enc-thumb", ...encryptedFile },
+                        thumbnail_info: { size: thumbnail.length, mimetype: "image/jpeg", w: 64, h: 48 },
+                    },
+                });
+                return Promise.resolve("$event");
+            });
+
+            await client.sendImage(roomId, data, {
+                filename: "image.png",
+                mimetype: "image/png",
+                w: 640,
+                h: 480,
+                thumbnail: { data: thumbnail, mimetype: "image/jpeg", w: 64, h: 48 },
+            });
+            expect(uploadSpy.callCount).toBe(2);
+            expect(sendSpy.callCount).toBe(1);
+        });
+    });
+
+    describe('sendVideo', () => {
+        it('should send the video dimensions, duration and thumbnail', async () => {
+            const { client } = createTestClient();
+
+            const roomId = "!testing:example.org";
+            const data = Buffer.from("video");
+
+            simple.mock(client, "uploadContent").callFn((d) => Promise.resolve(`mxc://example.org/${d.toString()}`));
+            const sendSpy = simple.mock(client, "sendMessage").callFn((rid, content) => {
+                expect(content).toEqual({
+                    msgtype: "m.video",
+                    body: "clip.mp4",
+                    url: "mxc://example.org/video",
+                    info: {
+                        size: data.length,
+                        mimetype: "video/mp4",
+                        w: 1280,
+                        h: 720,
+                        duration: 3000,
+                        thumbnail_url: "mxc://example.org/thumb",
+                        thumbnail_info: { size: 5, mimetype: "image/png", w: 128, h: 72 },
+                    },
+                });
+                return Promise.resolve("$event");
+            });
+
+            await client.sendVideo(roomId, data, {
+                filename: "clip.mp4",
+                mimetype: "video/mp4",
+                w: 1280,
+                h: 720,
+                duration: 3000,
+                thumbnail: { data: Buffer.from("thumb"), w: 128, h: 72 },
+            });
+            expect(sendSpy.callCount).toBe(1);
+        });
+    });
+
+    describe('sendAudio', () => {
+        it('should send the audio duration', async () => {
+            const { client } = createTestClient();
+
+            const roomId = "!testing:example.org";
+            const data = Buffer.from("audio");
+
+            simple.mock(client, "uploadContent").resolveWith("mxc://example.org/audio");
+            const sendSpy = simple.mock(client, "sendMessage").callFn((rid, content) => {
+                expect(content).toEqual({
+                    msgtype: "m.audio",
+                    body: "voice.ogg",
+                    url: "mxc://example.org/audio",
+                    info: { size: data.length, mimetype: "audio/ogg", duration: 1500 },
+                });
+                return Promise.resolve("$event");
+            });
+
+            await client.sendAudio(roomId, data, { filename: "voice.ogg", mimetype: "audio/ogg", duration: 1500 });
+            expect(sendSpy.callCount).toBe(1);
+        });
+    });
+
     describe('sendEvent', () => {
         it('should call the right endpoint', async () => {
             const { client, http, hsUrl } = createTestClient();
@@ -4648,6 +6538,24 @@ describe('MatrixClient', () => {
             expect(result).toEqual(eventId);
         });
 
+        it('should use the given transaction ID', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!testing:example.org";
+            const eventId = "$something:example.org";
+            const eventType = "io.t2bot.test";
+            const txnId = "stable_txn";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("PUT", "/_matrix/client/v3/rooms").respond(200, (path) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/send/${encodeURIComponent(eventType)}/${txnId}`);
+                return { event_id: eventId };
+            });
+
+            const [result] = await Promise.all([client.sendRawEvent(roomId, eventType, { hello: "world" }, txnId), http.flushAllExpected()]);
+            expect(result).toEqual(eventId);
+        });
+
         it('should not try to encrypt in any rooms', () => testCryptoStores(async (cryptoStoreType) => {
             const { client, http, hsUrl } = createTestClient(null, "@alice:example.org", cryptoStoreType);
 
@@ -5201,6 +7109,26 @@ describe('MatrixClient', () => {
             expect(result).toBe(true);
             expect(getStateEventSpy.callCount).toBe(1);
         });
+
+        it('uses the room state store when available', async () => {
+            const { client, http } = createTestClient();
+
+            const roomId = "!testing:example.org";
+            const userId = "@testing:example.org";
+            const eventType = "m.room.message";
+            const isState = false;
+
+            client.roomStateStore = new MemoryRoomStateStorageProvider();
+            await client.roomStateStore.setRoomStateEvent(roomId, {
+                type: "m.room.power_levels",
+                state_key: "",
+                content: { events_default: 10, users: { [userId]: 10 } },
+            });
+
+            const result = await client.userHasPowerLevelFor(userId, roomId, eventType, isState);
+            expect(result).toBe(true);
+            expect(http.requests.length).toBe(0);
+        });
     });
 
     describe('userHasPowerLevelFor', () => {
@@ -5620,8 +7548,18 @@ describe('MatrixClient', () => {
             const mediaId = "testing/val";
             const mxc = `mxc://${domain}/${mediaId}`;
 
-            const http = client.mxcToHttp(mxc);
-            expect(http).toBe(`${hsUrl}/_matrix/media/v3/download/${encodeURIComponent(domain)}/${encodeURIComponent(mediaId)}`);
+            const http = client.mxcToHttp(mxc);
+            expect(http).toBe(`${hsUrl}/_matrix/media/v3/download/${encodeURIComponent(domain)}/${encodeURIComponent(mediaId)}`);
+        });
+
+        it('should convert to authenticated media URLs', async () => {
+            const { client, hsUrl } = createTestClient();
+
+            const http = client.mxcToHttp("mxc://example.org/testing", true);
+            expect(http).toBe(`${hsUrl}/_matrix/client/v1/media/download/example.org/testing`);
+
+            const thumbnail = client.mxcToHttpThumbnail("mxc://example.org/testing", 64, 32, "crop", true);
+            expect(thumbnail).toBe(`${hsUrl}/_matrix/client/v1/media/thumbnail/example.org/testing?width=64&height=32&method=crop`);
         });
 
         it('should error for non-MXC URIs', async () => {
@@ -5754,6 +7692,350 @@ describe('MatrixClient', () => {
             expect(Object.keys(res)).toContain("data");
             expect(Object.keys(res)).toContain("contentType");
         });
+
+        it('should reject invalid MXC URIs', async () => {
+            const { client } = createTestClient();
+
+            await expect(client.downloadContent("https://example.org/testing")).rejects.toThrow("Not a MXC URI");
+            await expect(client.downloadContent("mxc://example.org")).rejects.toThrow("Missing domain or media ID");
+        });
+    });
+
+    describe('media streams', () => {
+        function bindStreamRequestFn(statusCode: number, responseBody: string, responseHeaders: any, onRequest: (params: any, body: Buffer) => void) {
+            setRequestFn((params) => {
+                const chunks = [];
+                const respond = () => {
+                    onRequest(params, Buffer.concat(chunks));
+                    req.emit("response", { statusCode, headers: responseHeaders });
+                    req.push(Buffer.from(responseBody));
+                    req.push(null);
+                };
+                const req = new Duplex({
+                    write(chunk, encoding, callback) {
+                        chunks.push(chunk);
+                        callback();
+                    },
+                    final(callback) {
+                        respond();
+                        callback();
+                    },
+                    read() {
+                        // pushed when responding
+                    },
+                });
+                req["abort"] = () => req.destroy();
+                if (params.method === "GET") process.nextTick(respond);
+                return req;
+            });
+        }
+
+        async function readAll(stream: Readable): Promise<Buffer> {
+            const chunks = [];
+            for await (const chunk of stream) chunks.push(chunk);
+            return Buffer.concat(chunks);
+        }
+
+        it('should upload content from a stream', async () => {
+            const { client, hsUrl, accessToken } = createTestClient();
+
+            const uri = "mxc://example.org/testing";
+            bindStreamRequestFn(200, JSON.stringify({ content_uri: uri }), {}, (params, body) => {
+                expect(params.method).toEqual("POST");
+                expect(params.uri).toEqual(`${hsUrl}/_matrix/media/v3/upload?filename=test.txt`);
+                expect(params.headers).toEqual({
+                    "Authorization": `Bearer ${accessToken}`,
+                    "Content-Type": "text/plain",
+                    "Content-Length": "11",
+                });
+                expect(body.toString()).toEqual("hello world");
+            });
+
+            const progress = [];
+            const result = await client.uploadContentStream(Readable.from([Buffer.from("hello "), Buffer.from("world")]), {
+                contentType: "text/plain",
+                filename: "test.txt",
+                contentLength: 11,
+                onProgress: (transferred, total) => progress.push([transferred, total]),
+            });
+            expect(result).toEqual(uri);
+            expect(progress).toEqual([[6, 11], [11, 11]]);
+        });
+
+        it('should detect the length of file streams', async () => {
+            const { client } = createTestClient();
+
+            const path = tmp.fileSync().name;
+            writeFileSync(path, "hello world");
+
+            bindStreamRequestFn(200, JSON.stringify({ content_uri: "mxc://example.org/testing" }), {}, (params, body) => {
+                expect(params.headers["Content-Type"]).toEqual("application/octet-stream");
+                expect(params.headers["Content-Length"]).toEqual("11");
+                expect(body.toString()).toEqual("hello world");
+            });
+
+            await client.uploadContentStream(createReadStream(path));
+        });
+
+        it('should download content as a stream', async () => {
+            const { client, hsUrl, accessToken } = createTestClient();
+
+            simple.mock(client, "doesServerSupportAuthenticatedMedia").resolveWith(true);
+            bindStreamRequestFn(200, "hello world", { "content-type": "text/plain", "content-length": "11" }, (params) => {
+                expect(params.method).toEqual("GET");
+                expect(params.uri).toEqual(`${hsUrl}/_matrix/client/v1/media/download/example.org/testing`);
+                expect(params.headers).toEqual({ Authorization: `Bearer ${accessToken}` });
+            });
+
+            const progress = [];
+            const result = await client.downloadContentStream("mxc://example.org/testing", {
+                onProgress: (transferred, total) => progress.push([transferred, total]),
+            });
+            expect(result.contentType).toEqual("text/plain");
+            expect(result.contentLength).toEqual(11);
+            expect((await readAll(result.stream)).toString()).toEqual("hello world");
+            expect(progress).toEqual([[11, 11]]);
+        });
+
+        it('should upload pending content from a stream', async () => {
+            const { client, hsUrl } = createTestClient();
+
+            bindStreamRequestFn(200, "{}", {}, (params, body) => {
+                expect(params.method).toEqual("PUT");
+                expect(params.uri).toEqual(`${hsUrl}/_matrix/media/v3/upload/example.org/testing`);
+                expect(params.headers["Content-Length"]).toEqual("5");
+                expect(body.toString()).toEqual("hello");
+            });
+
+            await client.uploadPendingContent("mxc://example.org/testing", Readable.from([Buffer.from("hello")]), { contentLength: 5 });
+        });
+
+        it('should reject with Matrix errors', async () => {
+            const { client } = createTestClient();
+
+            simple.mock(client, "doesServerSupportAuthenticatedMedia").resolveWith(true);
+            bindStreamRequestFn(404, JSON.stringify({ errcode: "M_NOT_FOUND", error: "Not found" }), {}, () => null);
+
+            await expect(client.downloadContentStream("mxc://example.org/testing")).rejects.toMatchObject({
+                errcode: "M_NOT_FOUND",
+                statusCode: 404,
+            });
+        });
+
+        it('should send stream requests through the request scheduler, if set', async () => {
+            const { client } = createTestClient();
+
+            simple.mock(client, "doesServerSupportAuthenticatedMedia").resolveWith(true);
+            bindStreamRequestFn(200, "hello world", {}, () => null);
+
+            const scheduler = new RequestScheduler();
+            const scheduleSpy = simple.mock(scheduler, "schedule");
+            client.setRequestScheduler(scheduler);
+
+            const result = await client.downloadContentStream("mxc://example.org/testing");
+            expect((await readAll(result.stream)).toString()).toEqual("hello world");
+            expect(scheduleSpy.callCount).toBe(1);
+        });
+
+        describe('with an expiring access token', () => {
+            const softLogout = JSON.stringify({ errcode: "M_UNKNOWN_TOKEN", error: "Expired", soft_logout: true });
+
+            function bindRefreshingRequestFn(accessToken: string, onStreamRequest: (params: any, body: Buffer) => void) {
+                const streamFn = (params) => {
+                    const expired = params.headers["Authorization"] === `Bearer ${accessToken}`;
+                    const chunks = [];
+                    const respond = () => {
+                        onStreamRequest(params, Buffer.concat(chunks));
+                        req.emit("response", { statusCode: expired ? 401 : 200, headers: {} });
+                        req.push(Buffer.from(expired ? softLogout : JSON.stringify({ content_uri: "mxc://example.org/testing" })));
+                        req.push(null);
+                    };
+                    const req = new Duplex({
+                        write(chunk, encoding, callback) {
+                            chunks.push(chunk);
+                            callback();
+                        },
+                        final(callback) {
+                            respond();
+                            callback();
+                        },
+                        read() {
+                            // pushed when responding
+                        },
+                    });
+                    if (params.method === "GET") process.nextTick(respond);
+                    return req;
+                };
+                setRequestFn((params, cb) => {
+                    if (!cb) return streamFn(params);
+                    expect(params.uri).toContain("/_matrix/client/v3/refresh");
+                    cb(null, { statusCode: 200 }, JSON.stringify({ access_token: "new_token" }));
+                });
+            }
+
+            it('should refresh the token and retry downloads', async () => {
+                const { client, accessToken } = createTestClient();
+                client.setRefreshToken("refresh1");
+
+                simple.mock(client, "doesServerSupportAuthenticatedMedia").resolveWith(true);
+                const tokens = [];
+                bindRefreshingRequestFn(accessToken, (params) => tokens.push(params.headers["Authorization"]));
+
+                const result = await client.downloadContentStream("mxc://example.org/testing");
+                await readAll(result.stream);
+                expect(tokens).toEqual([`Bearer ${accessToken}`, "Bearer new_token"]);
+                expect(client.accessToken).toEqual("new_token");
+            });
+
+            it('should refresh the token but not replay uploads whose body was sent', async () => {
+                const { client, accessToken } = createTestClient();
+                client.setRefreshToken("refresh1");
+
+                const bodies = [];
+                bindRefreshingRequestFn(accessToken, (params, body) => bodies.push(body.toString()));
+
+                await expect(client.uploadContentStream(Readable.from([Buffer.from("hello")]), { contentLength: 5 })).rejects.toMatchObject({
+                    errcode: "M_UNKNOWN_TOKEN",
+                });
+                expect(bodies).toEqual(["hello"]);
+                expect(client.accessToken).toEqual("new_token");
+            });
+        });
+    });
+
+    describe('createMedia', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const uri = "mxc://example.org/testing";
+            const expiresAt = 1700000000000;
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/media/v1/create").respond(200, (path) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/media/v1/create`);
+                return { content_uri: uri, unused_expires_at: expiresAt };
+            });
+
+            const [result] = await Promise.all([client.createMedia(), http.flushAllExpected()]);
+            expect(result).toEqual({ contentUri: uri, unusedExpiresAt: expiresAt });
+        });
+    });
+
+    describe('uploadPendingContent', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const data = <Buffer>(<any>`{"hello":"world"}`); // we can't use a real buffer because of the mock library
+            const contentType = "test/type";
+            const filename = "test.txt";
+
+            Buffer.isBuffer = <any>(i => i === data);
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("PUT", "/_matrix/media/v3/upload").respond(200, (path, content, req) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/media/v3/upload/example.org/testing`);
+                expect(req.queryParams.filename).toEqual(filename);
+                expect(req.headers["Content-Type"]).toEqual(contentType);
+                expect(req.rawData).toEqual(data);
+                return {};
+            });
+
+            await Promise.all([client.uploadPendingContent("mxc://example.org/testing", data, { contentType, filename }), http.flushAllExpected()]);
+        });
+
+        it('should reject invalid MXC URIs', async () => {
+            const { client } = createTestClient();
+
+            await expect(client.uploadPendingContent("https://example.org/testing", Buffer.from("hello"))).rejects.toThrow("Not a MXC URI");
+        });
+    });
+
+    describe('downloadThumbnail', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            simple.mock(client, "doesServerSupportAuthenticatedMedia").resolveWith(true);
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v1/media/thumbnail/").respond(200, (path, _, req) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v1/media/thumbnail/example.org/testing`);
+                expect(req.queryParams).toEqual({ width: "64", height: "32", method: "crop", animated: "true", allow_remote: true });
+                expect((req as any).opts.encoding).toEqual(null);
+                return {};
+            });
+
+            const [res] = await Promise.all([client.downloadThumbnail("mxc://example.org/testing", {
+                width: 64,
+                height: 32,
+                method: "crop",
+                animated: true,
+            }), http.flushAllExpected()]);
+            expect(Object.keys(res)).toContain("data");
+            expect(Object.keys(res)).toContain("contentType");
+        });
+    });
+
+    describe('getMediaDownloadRequest', () => {
+        it('should build an authenticated request', async () => {
+            const { client, hsUrl, accessToken } = createTestClient();
+
+            simple.mock(client, "doesServerSupportAuthenticatedMedia").resolveWith(true);
+
+            const result = await client.getMediaDownloadRequest("mxc://example.org/testing");
+            expect(result).toEqual({
+                url: `${hsUrl}/_matrix/client/v1/media/download/example.org/testing`,
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+        });
+
+        it('should build thumbnail requests for legacy servers', async () => {
+            const { client, hsUrl } = createTestClient();
+
+            simple.mock(client, "doesServerSupportAuthenticatedMedia").resolveWith(false);
+            client.impersonateUserId("@alice:example.org");
+
+            const result = await client.getMediaDownloadRequest("mxc://example.org/testing", { width: 64, height: 32 }, false);
+            // eslint-disable-next-line max-len
+            expect(result.url).toEqual(`${hsUrl}/_matrix/media/v3/thumbnail/example.org/testing?width=64&height=32&method=scale&allow_remote=false&user_id=${encodeURIComponent("@alice:example.org")}`);
+        });
+    });
+
+    describe('getMediaConfig', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            simple.mock(client, "doesServerSupportAuthenticatedMedia").resolveWith(true);
+            const config = { "m.upload.size": 1024 };
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v1/media/config").respond(200, (path) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v1/media/config`);
+                return config;
+            });
+
+            const [result] = await Promise.all([client.getMediaConfig(), http.flushAllExpected()]);
+            expect(result).toEqual(config);
+        });
+    });
+
+    describe('getUrlPreview', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            simple.mock(client, "doesServerSupportAuthenticatedMedia").resolveWith(false);
+            const url = "https://example.org";
+            const preview = { "og:title": "Example", "matrix:image:size": 12 };
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/media/v3/preview_url").respond(200, (path, _, req) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/media/v3/preview_url`);
+                expect(req.queryParams).toEqual({ url, ts: 1234 });
+                return preview;
+            });
+
+            const [result] = await Promise.all([client.getUrlPreview(url, 1234), http.flushAllExpected()]);
+            expect(result).toEqual(preview);
+        });
     });
 
     describe('uploadContentFromUrl', () => {
@@ -6547,6 +8829,131 @@ describe('MatrixClient', () => {
         });
     });
 
+    describe('upgradeRoom', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!old:example.org";
+            const newRoomId = "!new:example.org";
+            const newVersion = "11";
+
+            const stateSpy = simple.mock(client, "getRoomState").resolveWith([]);
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/rooms").respond(200, (path, content) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/upgrade`);
+                expect(content).toEqual({ new_version: newVersion });
+                return { replacement_room: newRoomId };
+            });
+
+            const [result] = await Promise.all([client.upgradeRoom(roomId, newVersion), http.flushAllExpected()]);
+            expect(result).toEqual(newRoomId);
+            expect(stateSpy.callCount).toBe(0);
+        });
+
+        it('should carry over the requested state and memberships', async () => {
+            const { client, http } = createTestClient(null, "@bot:example.org");
+
+            const roomId = "!old:example.org";
+            const newRoomId = "!new:example.org";
+            const spaceId = "!space:example.org";
+            const state = [
+                { type: "m.room.member", state_key: "@bad:example.org", content: { membership: "ban", reason: "spam" } },
+                { type: "m.room.member", state_key: "@alice:example.org", content: { membership: "join" } },
+                { type: "im.vector.modular.widgets", state_key: "widget", content: { type: "m.custom", url: "https://example.org" } },
+                { type: "im.vector.modular.widgets", state_key: "removed", content: {} },
+                { type: "m.room.pinned_events", state_key: "", content: { pinned: ["$event"] } },
+                { type: "m.space.parent", state_key: spaceId, content: { via: ["example.org"] } },
+                { type: "org.example.custom", state_key: "key", content: { hello: "world" } },
+                { type: "org.example.ignored", state_key: "", content: { hello: "world" } },
+            ];
+            const childContent = { via: ["example.org"], order: "a" };
+
+            simple.mock(client, "getRoomState").callFn((rid) => {
+                expect(rid).toEqual(roomId);
+                return Promise.resolve(state);
+            });
+            simple.mock(client, "getJoinedRoomMembers").callFn((rid) => {
+                expect(rid).toEqual(roomId);
+                return Promise.resolve(["@bot:example.org", "@alice:example.org"]);
+            });
+            simple.mock(client, "getRoomStateEvent").callFn((rid, type, stateKey) => {
+                expect(rid).toEqual(spaceId);
+                expect(type).toEqual("m.space.child");
+                expect(stateKey).toEqual(roomId);
+                return Promise.resolve(childContent);
+            });
+            const sent = [];
+            simple.mock(client, "sendStateEvent").callFn((rid, type, stateKey, content) => {
+                sent.push([rid, type, stateKey, content]);
+                return Promise.resolve("$sent");
+            });
+            const banSpy = simple.mock(client, "banUser").callFn((uid, rid, reason) => {
+                expect(uid).toEqual("@bad:example.org");
+                expect(rid).toEqual(newRoomId);
+                expect(reason).toEqual("spam");
+                return Promise.resolve();
+            });
+            const inviteSpy = simple.mock(client, "inviteUser").callFn((uid, rid) => {
+                expect(uid).toEqual("@alice:example.org");
+                expect(rid).toEqual(newRoomId);
+                return Promise.resolve();
+            });
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/rooms").respond(200, () => {
+                return { replacement_room: newRoomId };
+            });
+
+            const [result] = await Promise.all([client.upgradeRoom(roomId, "11", {
+                copyBans: true,
+                copyWidgets: true,
+                copyPinnedEvents: true,
+                copySpaceParents: true,
+                copyStateTypes: ["org.example.custom"],
+                reinviteMembers: true,
+                updateParentSpaces: true,
+            }), http.flushAllExpected()]);
+            expect(result).toEqual(newRoomId);
+            expect(banSpy.callCount).toBe(1);
+            expect(inviteSpy.callCount).toBe(1);
+            expect(sent).toEqual([
+                [newRoomId, "im.vector.modular.widgets", "widget", state[2].content],
+                [newRoomId, "m.room.pinned_events", "", state[4].content],
+                [newRoomId, "m.space.parent", spaceId, state[5].content],
+                [newRoomId, "org.example.custom", "key", state[6].content],
+                [spaceId, "m.space.child", newRoomId, childContent],
+                [spaceId, "m.space.child", roomId, {}],
+            ]);
+        });
+
+        it('should not fail the upgrade when carrying over state fails', async () => {
+            const { client, http } = createTestClient(null, "@bot:example.org");
+
+            const newRoomId = "!new:example.org";
+
+            simple.mock(client, "getRoomState").resolveWith([
+                { type: "m.room.pinned_events", state_key: "", content: { pinned: ["$event"] } },
+            ]);
+            simple.mock(client, "getJoinedRoomMembers").resolveWith(["@alice:example.org"]);
+            const sendSpy = simple.mock(client, "sendStateEvent").rejectWith(new Error("Not allowed"));
+            const inviteSpy = simple.mock(client, "inviteUser").rejectWith(new Error("Not allowed"));
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("POST", "/_matrix/client/v3/rooms").respond(200, () => {
+                return { replacement_room: newRoomId };
+            });
+
+            const [result] = await Promise.all([client.upgradeRoom("!old:example.org", "11", {
+                copyPinnedEvents: true,
+                reinviteMembers: true,
+            }), http.flushAllExpected()]);
+            expect(result).toEqual(newRoomId);
+            expect(sendSpy.callCount).toBe(1);
+            expect(inviteSpy.callCount).toBe(1);
+        });
+    });
+
     describe('createSpace', () => {
         it('should create a typed private room', async () => {
             const { client, http } = createTestClient();
@@ -6719,6 +9126,43 @@ describe('MatrixClient', () => {
         });
     });
 
+    describe('getSpaceHierarchyPage', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!space:example.org";
+            const rooms = [{ room_id: roomId, num_joined_members: 1, world_readable: false, guest_can_join: false, children_state: [] }];
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v1/rooms").respond(200, (path, content, req) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v1/rooms/${encodeURIComponent(roomId)}/hierarchy`);
+                expect(req.queryParams).toEqual({ max_depth: 2, suggested_only: true, limit: 10, from: "token" });
+                return { rooms, next_batch: "next" };
+            });
+
+            const [result] = await Promise.all([client.getSpaceHierarchyPage(roomId, {
+                maxDepth: 2,
+                suggestedOnly: true,
+                limit: 10,
+                from: "token",
+            }), http.flushAllExpected()]);
+            expect(result).toEqual({ rooms, nextBatch: "next" });
+        });
+
+        it('should allow a max depth of zero', async () => {
+            const { client, http } = createTestClient();
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("GET", "/_matrix/client/v1/rooms").respond(200, (path, content, req) => {
+                expect(req.queryParams).toEqual({ max_depth: 0 });
+                return { rooms: [] };
+            });
+
+            const [result] = await Promise.all([client.getSpaceHierarchyPage("!space:example.org", { maxDepth: 0 }), http.flushAllExpected()]);
+            expect(result).toEqual({ rooms: [], nextBatch: undefined });
+        });
+    });
+
     describe('uploadDeviceOneTimeKeys', () => {
         it('should fail when no encryption is available', async () => {
             try {
@@ -7043,6 +9487,111 @@ describe('MatrixClient', () => {
         });
     });
 
+    describe('sendReaction', () => {
+        it('should call the right endpoint', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!testing:example.org";
+            const eventId = "$something:example.org";
+            const targetEventId = "$target:example.org";
+            const key = "👍";
+
+            // noinspection TypeScriptValidateJSTypes
+            http.when("PUT", "/_matrix/client/v3/rooms").respond(200, (path, content) => {
+                const idx = path.indexOf(`${hsUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/send/m.reaction/`);
+                expect(idx).toBe(0);
+                expect(content).toEqual({
+                    "m.relates_to": {
+                        rel_type: "m.annotation",
+                        event_id: targetEventId,
+                        key: key,
+                    },
+                });
+                return { event_id: eventId };
+            });
+
+            const [result] = await Promise.all([client.sendReaction(roomId, targetEventId, key), http.flushAllExpected()]);
+            expect(result).toEqual(eventId);
+        });
+    });
+
+    describe('getReactionSummary', () => {
+        it('should aggregate reactions across pages', async () => {
+            const { client, http, hsUrl } = createTestClient();
+
+            const roomId = "!room:example.org";
+            const eventId = "$event";
+            const reaction = (sender: string, key: string, id: string) => ({
+                type: "m.reaction",
+                event_id: id,
+                sender: sender,
+                content: { "m.relates_to": { rel_type: "m.annotation", event_id: eventId, key: key } },
+            });
+
+            http.when("GET", "/_matrix/client/v1/rooms").respond(200, (path, content, req) => {
+                expect(path).toEqual(`${hsUrl}/_matrix/client/v1/rooms/${encodeURIComponent(roomId)}/relations/${encodeURIComponent(eventId)}/m.annotation`);
+                expect(req.queryParams?.from).toBeUndefined();
+                return {
+                    chunk: [
+                        reaction("@alice:example.org", "👍", "$a"),
+                        reaction("@bob:example.org", "👍", "$b"),
+                        reaction("@alice:example.org", "👎", "$c"),
+                    ],
+                    next_batch: "second",
+                };
+            });
+            http.when("GET", "/_matrix/client/v1/rooms").respond(200, (path, content, req) => {
+                expect(req.queryParams.from).toEqual("second");
+                return {
+                    chunk: [
+                        reaction("@alice:example.org", "👍", "$d"), // duplicate
+                        reaction("@charlie:example.org", "👍", "$e"),
+                        { type: "org.example.not_a_reaction", event_id: "$f", content: {} },
+                    ],
+                };
+            });
+
+            const [result] = await Promise.all([client.getReactionSummary(roomId, eventId), http.flushAllExpected()]);
+            expect(result).toEqual([
+                { key: "👍", count: 3, senders: ["@alice:example.org", "@bob:example.org", "@charlie:example.org"] },
+                { key: "👎", count: 1, senders: ["@alice:example.org"] },
+            ]);
+        });
+    });
+
+    describe('removeReaction', () => {
+        it('should redact the reactions of the client', async () => {
+            const { client, http, hsUrl } = createTestClient(null, "@alice:example.org");
+
+            const roomId = "!room:example.org";
+            const eventId = "$event";
+            const reaction = (sender: string, key: string, id: string) => ({
+                type: "m.reaction",
+                event_id: id,
+                sender: sender,
+                content: { "m.relates_to": { rel_type: "m.annotation", event_id: eventId, key: key } },
+            });
+
+            http.when("GET", "/_matrix/client/v1/rooms").respond(200, () => {
+                return {
+                    chunk: [
+                        reaction("@alice:example.org", "👍", "$a"),
+                        reaction("@bob:example.org", "👍", "$b"),
+                        reaction("@alice:example.org", "👎", "$c"),
+                    ],
+                };
+            });
+            // noinspection TypeScriptValidateJSTypes
+            http.when("PUT", "/_matrix/client/v3/rooms").respond(200, (path) => {
+                expect(path).toContain(`${hsUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/redact/${encodeURIComponent("$a")}/`);
+                return { event_id: "$redaction" };
+            });
+
+            const [result] = await Promise.all([client.removeReaction(roomId, eventId, "👍"), http.flushAllExpected()]);
+            expect(result).toEqual(["$redaction"]);
+        });
+    });
+
     describe('redactObjectForLogging', () => {
         it('should redact multilevel objects', () => {
             const input = {
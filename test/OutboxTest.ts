@@ -0,0 +1,171 @@
+import * as simple from "simple-mock";
+
+import { MatrixError, MemoryStorageProvider, Outbox, OutboxEntry } from "../src";
+import { createTestClient } from "./TestUtils";
+
+function waitForEvent(outbox: Outbox, event: string): Promise<any[]> {
+    return new Promise(resolve => outbox.once(event, (...args) => resolve(args)));
+}
+
+describe('Outbox', () => {
+    it('should persist queued messages and emit them as queued', async () => {
+        const storage = new MemoryStorageProvider();
+        const { client } = createTestClient(storage);
+        const outbox = new Outbox(client);
+
+        const queuedPromise = waitForEvent(outbox, "queued");
+        const entry = await outbox.enqueue("!room:example.org", "m.room.message", { body: "hello" });
+        expect(entry).toMatchObject({
+            roomId: "!room:example.org",
+            eventType: "m.room.message",
+            content: { body: "hello" },
+            attempts: 0,
+        });
+        expect(entry.txnId).toBeDefined();
+        expect(await queuedPromise).toEqual([entry]);
+        expect(JSON.parse(storage.readValue("outbox"))).toEqual([entry]);
+        expect(outbox.pending).toEqual([entry]);
+    });
+
+    it('should send messages with their transaction ID once started', async () => {
+        const storage = new MemoryStorageProvider();
+        const { client } = createTestClient(storage);
+        const outbox = new Outbox(client);
+
+        const entry = await outbox.enqueue("!room:example.org", "m.room.message", { body: "hello" });
+        const sendSpy = simple.mock(client, "sendEvent").callFn((roomId, eventType, content, txnId) => {
+            expect(roomId).toEqual(entry.roomId);
+            expect(eventType).toEqual(entry.eventType);
+            expect(content).toEqual(entry.content);
+            expect(txnId).toEqual(entry.txnId);
+            return Promise.resolve("$sent");
+        });
+
+        const sentPromise = waitForEvent(outbox, "sent");
+        await outbox.start();
+        const [sentEntry, eventId] = await sentPromise;
+        expect(sentEntry.txnId).toEqual(entry.txnId);
+        expect(eventId).toEqual("$sent");
+        expect(sendSpy.callCount).toBe(1);
+        expect(outbox.pending).toEqual([]);
+        expect(JSON.parse(storage.readValue("outbox"))).toEqual([]);
+        outbox.stop();
+    });
+
+    it('should send messages left over from a previous run', async () => {
+        const storage = new MemoryStorageProvider();
+        const { client } = createTestClient(storage);
+        const leftover: OutboxEntry = {
+            txnId: "outbox_previous",
+            roomId: "!room:example.org",
+            eventType: "m.room.message",
+            content: { body: "hello" },
+            queuedAt: 1000,
+            attempts: 1,
+        };
+        storage.storeValue("outbox", JSON.stringify([leftover]));
+
+        simple.mock(client, "sendEvent").callFn((roomId, eventType, content, txnId) => {
+            expect(txnId).toEqual(leftover.txnId);
+            return Promise.resolve("$sent");
+        });
+
+        const outbox = new Outbox(client);
+        const sentPromise = waitForEvent(outbox, "sent");
+        await outbox.start();
+        const [sentEntry] = await sentPromise;
+        expect(sentEntry).toEqual({ ...leftover, attempts: 2 });
+        outbox.stop();
+    });
+
+    it('should send messages to each room in order', async () => {
+        const { client } = createTestClient();
+        const outbox = new Outbox(client, { retryDelayMs: 1 });
+
+        const sent: string[] = [];
+        let failedOnce = false;
+        simple.mock(client, "sendEvent").callFn((roomId, eventType, content) => {
+            if (content.body === "first" && !failedOnce) {
+                failedOnce = true;
+                return Promise.reject(new Error("Network error"));
+            }
+            sent.push(content.body);
+            return Promise.resolve("$sent");
+        });
+
+        await outbox.start();
+        const donePromise = new Promise<void>(resolve => outbox.on("sent", () => {
+            if (sent.length === 2) resolve();
+        }));
+        await outbox.enqueue("!room:example.org", "m.room.message", { body: "first" });
+        await outbox.enqueue("!room:example.org", "m.room.message", { body: "second" });
+        await donePromise;
+        expect(sent).toEqual(["first", "second"]);
+        outbox.stop();
+    });
+
+    it('should fail messages the homeserver rejects', async () => {
+        const storage = new MemoryStorageProvider();
+        const { client } = createTestClient(storage);
+        const outbox = new Outbox(client);
+
+        const error = new MatrixError({ errcode: "M_FORBIDDEN", error: "Not allowed" }, 403);
+        const sendSpy = simple.mock(client, "sendEvent").rejectWith(error);
+
+        await outbox.start();
+        const failedPromise = waitForEvent(outbox, "failed");
+        const entry = await outbox.enqueue("!room:example.org", "m.room.message", { body: "hello" });
+        const [failedEntry, failedError] = await failedPromise;
+        expect(failedEntry.txnId).toEqual(entry.txnId);
+        expect(failedError).toBe(error);
+        expect(sendSpy.callCount).toBe(1);
+        expect(JSON.parse(storage.readValue("outbox"))).toEqual([]);
+        outbox.stop();
+    });
+
+    it('should fail messages which run out of attempts', async () => {
+        const { client } = createTestClient();
+        const outbox = new Outbox(client, { maxAttempts: 3, retryDelayMs: 1 });
+
+        const error = new MatrixError({ errcode: "M_LIMIT_EXCEEDED", error: "Too many requests", retry_after_ms: 1 }, 429);
+        const sendSpy = simple.mock(client, "sendEvent").rejectWith(error);
+
+        await outbox.start();
+        const failedPromise = waitForEvent(outbox, "failed");
+        await outbox.enqueue("!room:example.org", "m.room.message", { body: "hello" });
+        const [failedEntry, failedError] = await failedPromise;
+        expect(failedEntry.attempts).toBe(3);
+        expect(failedError).toBe(error);
+        expect(sendSpy.callCount).toBe(3);
+        outbox.stop();
+    });
+
+    it('should stop waiting to retry messages when stopped', async () => {
+        const { client } = createTestClient();
+        const outbox = new Outbox(client, { retryDelayMs: 60000 });
+
+        let failed: () => void;
+        const failedPromise = new Promise<void>(resolve => failed = resolve);
+        const sendSpy = simple.mock(client, "sendEvent").callFn(() => {
+            if (sendSpy.callCount === 1) {
+                failed();
+                return Promise.reject(new Error("Network error"));
+            }
+            return Promise.resolve("$event");
+        });
+
+        await outbox.start();
+        await outbox.enqueue("!room:example.org", "m.room.message", { body: "hello" });
+        await failedPromise;
+        outbox.stop();
+
+        // Restarting only resends the message straight away if the retry wait was cancelled.
+        const sentPromise = waitForEvent(outbox, "sent");
+        await outbox.start();
+        const [sentEntry, eventId] = await sentPromise;
+        expect(sentEntry.attempts).toBe(2);
+        expect(eventId).toEqual("$event");
+        expect(sendSpy.callCount).toBe(2);
+        outbox.stop();
+    });
+});
@@ -0,0 +1,180 @@
+import * as simple from "simple-mock";
+
+import {
+    MatrixError,
+    METRIC_MATRIX_CLIENT_RATE_LIMITED_REQUEST,
+    METRIC_MATRIX_CLIENT_REQUEST_QUEUE_DEPTH,
+    Metrics,
+    RequestScheduler,
+} from "../src";
+
+function rateLimitError(retryAfterMs?: number): MatrixError {
+    return new MatrixError({ errcode: "M_LIMIT_EXCEEDED", error: "Too many requests", retry_after_ms: retryAfterMs }, 429);
+}
+
+function deferred<T>(): { promise: Promise<T>, resolve: (val: T) => void } {
+    let resolve: (val: T) => void;
+    const promise = new Promise<T>(r => resolve = r);
+    return { promise, resolve };
+}
+
+describe('RequestScheduler', () => {
+    it('should return the result of the request', async () => {
+        const scheduler = new RequestScheduler();
+        const result = await scheduler.schedule(() => Promise.resolve("hello"));
+        expect(result).toEqual("hello");
+        expect(scheduler.inFlightCount).toBe(0);
+    });
+
+    it('should not retry other errors', async () => {
+        const scheduler = new RequestScheduler({ jitterMs: 0 });
+        const error = new MatrixError({ errcode: "M_FORBIDDEN", error: "No" }, 403);
+        const requestSpy = simple.stub().callFn(() => Promise.reject(error));
+
+        await expect(scheduler.schedule(requestSpy)).rejects.toBe(error);
+        expect(requestSpy.callCount).toBe(1);
+        expect(scheduler.inFlightCount).toBe(0);
+    });
+
+    it('should retry rate limited requests after the server-given delay', async () => {
+        const scheduler = new RequestScheduler({ jitterMs: 0 });
+        let calls = 0;
+        let firstCallAt: number;
+        const result = await scheduler.schedule(async () => {
+            if (calls++ === 0) {
+                firstCallAt = Date.now();
+                throw rateLimitError(50);
+            }
+            expect(Date.now() - firstCallAt).toBeGreaterThanOrEqual(45);
+            return "done";
+        });
+        expect(result).toEqual("done");
+        expect(calls).toBe(2);
+    });
+
+    it('should retry 429 responses using the Retry-After header', async () => {
+        const scheduler = new RequestScheduler({ jitterMs: 0, defaultRetryAfterMs: 60000 });
+        let calls = 0;
+        const result = await scheduler.schedule(async () => {
+            if (calls++ === 0) return Promise.reject(Object.assign(new Error("Too Many Requests"), { statusCode: 429, headers: { "retry-after": "0" } }));
+            return "done";
+        });
+        expect(result).toEqual("done");
+        expect(calls).toBe(2);
+    });
+
+    it('should give up after the maximum number of retries', async () => {
+        const scheduler = new RequestScheduler({ jitterMs: 0, maxRetries: 2 });
+        const error = rateLimitError(1);
+        const requestSpy = simple.stub().callFn(() => Promise.reject(error));
+
+        await expect(scheduler.schedule(requestSpy)).rejects.toBe(error);
+        expect(requestSpy.callCount).toBe(3);
+    });
+
+    it('should give up if the server-given delay is too long', async () => {
+        const scheduler = new RequestScheduler({ jitterMs: 0, maxRetryAfterMs: 1000 });
+        const error = rateLimitError(5000);
+        const requestSpy = simple.stub().callFn(() => Promise.reject(error));
+
+        await expect(scheduler.schedule(requestSpy)).rejects.toBe(error);
+        expect(requestSpy.callCount).toBe(1);
+    });
+
+    it('should cap the number of requests in flight', async () => {
+        const scheduler = new RequestScheduler({ maxConcurrent: 2 });
+        const pending = [deferred<number>(), deferred<number>(), deferred<number>()];
+        let started = 0;
+
+        const results = Promise.all(pending.map((d) => scheduler.schedule(() => {
+            started++;
+            return d.promise;
+        })));
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(started).toBe(2);
+        expect(scheduler.inFlightCount).toBe(2);
+        expect(scheduler.queueDepth).toBe(1);
+
+        pending[0].resolve(0);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(started).toBe(3);
+        expect(scheduler.inFlightCount).toBe(2);
+        expect(scheduler.queueDepth).toBe(0);
+
+        pending[1].resolve(1);
+        pending[2].resolve(2);
+        expect(await results).toEqual([0, 1, 2]);
+        expect(scheduler.inFlightCount).toBe(0);
+    });
+
+    it('should remove queued requests when their signal is aborted', async () => {
+        const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+        const first = deferred<string>();
+        const controller = new AbortController();
+        const reason = new Error("Cancelled");
+        const requestSpy = simple.stub().callFn(() => Promise.resolve("second"));
+
+        const firstResult = scheduler.schedule(() => first.promise);
+        const secondResult = scheduler.schedule(requestSpy, undefined, undefined, controller.signal);
+        expect(scheduler.queueDepth).toBe(1);
+
+        controller.abort(reason);
+        await expect(secondResult).rejects.toBe(reason);
+        expect(scheduler.queueDepth).toBe(0);
+
+        first.resolve("first");
+        expect(await firstResult).toEqual("first");
+        expect(requestSpy.callCount).toBe(0);
+        expect(scheduler.inFlightCount).toBe(0);
+    });
+
+    it('should stop retrying when the signal is aborted', async () => {
+        const scheduler = new RequestScheduler({ jitterMs: 0 });
+        const controller = new AbortController();
+        const reason = new Error("Cancelled");
+        const requestSpy = simple.stub().callFn(() => Promise.reject(rateLimitError(60000)));
+
+        const result = scheduler.schedule(requestSpy, undefined, undefined, controller.signal);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        controller.abort(reason);
+        await expect(result).rejects.toBe(reason);
+        expect(requestSpy.callCount).toBe(1);
+        expect(scheduler.inFlightCount).toBe(0);
+    });
+
+    it('should not start requests which were already aborted', async () => {
+        const scheduler = new RequestScheduler();
+        const reason = new Error("Cancelled");
+        const requestSpy = simple.stub().callFn(() => Promise.resolve("hello"));
+
+        await expect(scheduler.schedule(requestSpy, undefined, undefined, AbortSignal.abort(reason))).rejects.toBe(reason);
+        expect(requestSpy.callCount).toBe(0);
+    });
+
+    it('should record the queue depth and rate limiting in metrics', async () => {
+        const scheduler = new RequestScheduler({ maxConcurrent: 1, jitterMs: 0 });
+        const metrics = new Metrics();
+        const context = { uniqueId: "test" };
+        const incrementSpy = simple.mock(metrics, "increment");
+        const decrementSpy = simple.mock(metrics, "decrement");
+
+        const first = deferred<string>();
+        let secondCalls = 0;
+        const firstResult = scheduler.schedule(() => first.promise, metrics, context);
+        const secondResult = scheduler.schedule(async () => {
+            if (secondCalls++ === 0) throw rateLimitError(1);
+            return "second";
+        }, metrics, context);
+
+        expect(incrementSpy.callCount).toBe(1);
+        expect(incrementSpy.lastCall.args).toEqual([METRIC_MATRIX_CLIENT_REQUEST_QUEUE_DEPTH, context, 1]);
+
+        first.resolve("first");
+        expect(await firstResult).toEqual("first");
+        expect(await secondResult).toEqual("second");
+        expect(decrementSpy.callCount).toBe(1);
+        expect(decrementSpy.lastCall.args).toEqual([METRIC_MATRIX_CLIENT_REQUEST_QUEUE_DEPTH, context, 1]);
+        expect(incrementSpy.callCount).toBe(2);
+        expect(incrementSpy.lastCall.args).toEqual([METRIC_MATRIX_CLIENT_RATE_LIMITED_REQUEST, context, 1]);
+    });
+});
@@ -26,6 +26,33 @@ export function createSyncTestClient(storage: IStorageProvider = null): { client
 }
 
 describe('SynchronousMatrixClient', () => {
+    it('should share the tokens of the base client', async () => {
+        const baseClient = new MatrixClient("https://localhost", "s3cret");
+        const onTokensRefreshed = simple.stub();
+        baseClient.setRefreshToken("refresh1", onTokensRefreshed);
+
+        const client = new TestSyncMatrixClient(baseClient);
+        expect(client.accessToken).toEqual("s3cret");
+        expect(client.refreshToken).toEqual("refresh1");
+        expect(client.tokenRefreshCallback).toBe(onTokensRefreshed);
+
+        const http = new HttpBackend();
+        setRequestFn(http.requestFn);
+
+        // noinspection TypeScriptValidateJSTypes
+        http.when("POST", "/_matrix/client/v3/refresh").respond(200, (path, content) => {
+            expect(content).toEqual({ refresh_token: "refresh1" });
+            return { access_token: "s3cret2", refresh_token: "refresh2" };
+        });
+
+        await Promise.all([client.refreshAccessToken(), http.flushAllExpected()]);
+        expect(onTokensRefreshed.callCount).toBe(1);
+        expect(baseClient.accessToken).toEqual("s3cret2");
+        expect(baseClient.refreshToken).toEqual("refresh2");
+        expect(client.accessToken).toEqual("s3cret2");
+        expect(client.refreshToken).toEqual("refresh2");
+    });
+
     describe('processSync', () => {
         interface ProcessSyncClient {
             userId: string;
@@ -333,6 +360,39 @@ describe('SynchronousMatrixClient', () => {
             expect(syncSpy.callCount).toBe(1);
         });
 
+        it('should process own room knocks', async () => {
+            const { client: realClient } = createSyncTestClient();
+            const client = <ProcessSyncClient>(<any>realClient);
+
+            const userId = "@syncing:example.org";
+            const roomId = "!testing:example.org";
+            const events = [
+                {
+                    type: "m.room.member",
+                    state_key: userId,
+                    content: { membership: "knock" },
+                },
+            ];
+
+            client.userId = userId;
+
+            const spy = simple.stub().callFn((rid, ev) => {
+                expect(ev).toMatchObject(events[0]);
+                expect(rid).toEqual(roomId);
+            });
+            const syncSpy = simple.mock(realClient, 'onRoomKnock').callFn((rid, ev) => {
+                expect(ev).toMatchObject(events[0]);
+                expect(rid).toEqual(roomId);
+            });
+            realClient.on("room.knock", spy);
+
+            const roomsObj = {};
+            roomsObj[roomId] = { knock_state: { events: events } };
+            await realClient.doProcessSync({ rooms: { knock: roomsObj } });
+            expect(spy.callCount).toBe(1);
+            expect(syncSpy.callCount).toBe(1);
+        });
+
         it('should use the most recent invite event', async () => {
             const { client: realClient } = createSyncTestClient();
             const client = <ProcessSyncClient>(<any>realClient);
@@ -843,5 +903,47 @@ describe('SynchronousMatrixClient', () => {
             expect(eventSpy.callCount).toBe(3);
             expect(syncEventSpy.callCount).toBe(3);
         });
+
+        it('should process thread events', async () => {
+            const { client: realClient } = createSyncTestClient();
+            const client = <ProcessSyncClient>(<any>realClient);
+
+            const userId = "@syncing:example.org";
+            const roomId = "!testing:example.org";
+            const rootEvent = {
+                type: "m.room.message",
+                event_id: "$root",
+                content: { msgtype: "m.text", body: "root" },
+            };
+            const threadEvent = {
+                type: "m.room.message",
+                event_id: "$reply",
+                content: {
+                    "msgtype": "m.text",
+                    "body": "reply",
+                    "m.relates_to": { rel_type: "m.thread", event_id: "$root" },
+                },
+            };
+
+            client.userId = userId;
+
+            const threadSpy = simple.stub().callFn((rid, ev, root) => {
+                expect(rid).toEqual(roomId);
+                expect(ev).toMatchObject(threadEvent);
+                expect(root).toMatchObject(rootEvent);
+            });
+            const syncThreadSpy = simple.mock(realClient, 'onRoomThreadEvent').callFn((rid, ev, root) => {
+                expect(rid).toEqual(roomId);
+                expect(ev).toMatchObject(threadEvent);
+                expect(root).toMatchObject(rootEvent);
+            });
+            realClient.on("room.thread_event", threadSpy);
+
+            const roomsObj = {};
+            roomsObj[roomId] = { timeline: { events: [rootEvent, threadEvent] } };
+            await realClient.doProcessSync({ rooms: { join: roomsObj } });
+            expect(threadSpy.callCount).toBe(1);
+            expect(syncThreadSpy.callCount).toBe(1);
+        });
     });
 });
@@ -948,6 +948,250 @@ describe('Intent', () => {
         });
     });
 
+    describe('sendFile', () => {
+        it('should proxy through to the client while ensuring they are registered and joined', async () => {
+            const userId = "@someone:example.org";
+            const botUserId = "@bot:example.org";
+            const asToken = "s3cret";
+            const hsUrl = "https://localhost";
+            const appservice = <Appservice>{ botUserId: botUserId };
+            const targetRoomId = "!a:example.org";
+            const data = Buffer.from("hello");
+            const sendOpts = { filename: "hello.txt", mimetype: "text/plain" };
+            const eventId = "$something:example.org";
+            const storage = new MemoryStorageProvider();
+            const options = <IAppserviceOptions>{
+                homeserverUrl: hsUrl,
+                storage: <IAppserviceStorageProvider>storage,
+                registration: {
+                    as_token: asToken,
+                },
+            };
+
+            const intent = new Intent(options, userId, appservice);
+
+            const registeredSpy = simple.mock(intent, "ensureRegistered").callFn(() => {
+                return Promise.resolve();
+            });
+            const joinSpy = simple.mock(intent, "ensureJoined").callFn((rid) => {
+                expect(rid).toEqual(targetRoomId);
+                return {};
+            });
+            const sendSpy = simple.mock(intent.underlyingClient, "sendFile").callFn((rid, d, o) => {
+                expect(rid).toEqual(targetRoomId);
+                expect(d).toBe(data);
+                expect(o).toBe(sendOpts);
+                return Promise.resolve(eventId);
+            });
+
+            const result = await intent.sendFile(targetRoomId, data, sendOpts);
+            expect(result).toEqual(eventId);
+            expect(sendSpy.callCount).toBe(1);
+            expect(registeredSpy.callCount).toBe(1);
+            expect(joinSpy.callCount).toBe(1);
+        });
+    });
+
+    describe('sendImage', () => {
+        it('should proxy through to the client while ensuring they are registered and joined', async () => {
+            const userId = "@someone:example.org";
+            const botUserId = "@bot:example.org";
+            const asToken = "s3cret";
+            const hsUrl = "https://localhost";
+            const appservice = <Appservice>{ botUserId: botUserId };
+            const targetRoomId = "!a:example.org";
+            const data = Buffer.from("hello");
+            const sendOpts = { filename: "hello.txt", mimetype: "text/plain" };
+            const eventId = "$something:example.org";
+            const storage = new MemoryStorageProvider();
+            const options = <IAppserviceOptions>{
+                homeserverUrl: hsUrl,
+                storage: <IAppserviceStorageProvider>storage,
+                registration: {
+                    as_token: asToken,
+                },
+            };
+
+            const intent = new Intent(options, userId, appservice);
+
+            const registeredSpy = simple.mock(intent, "ensureRegistered").callFn(() => {
+                return Promise.resolve();
+            });
+            const joinSpy = simple.mock(intent, "ensureJoined").callFn((rid) => {
+                expect(rid).toEqual(targetRoomId);
+                return {};
+            });
+            const sendSpy = simple.mock(intent.underlyingClient, "sendImage").callFn((rid, d, o) => {
+                expect(rid).toEqual(targetRoomId);
+                expect(d).toBe(data);
+                expect(o).toBe(sendOpts);
+                return Promise.resolve(eventId);
+            });
+
+            const result = await intent.sendImage(targetRoomId, data, sendOpts);
+            expect(result).toEqual(eventId);
+            expect(sendSpy.callCount).toBe(1);
+            expect(registeredSpy.callCount).toBe(1);
+            expect(joinSpy.callCount).toBe(1);
+        });
+    });
+
+    describe('sendVideo', () => {
+        it('should proxy through to the client while ensuring they are registered and joined', async () => {
+            const userId = "@someone:example.org";
+            const botUserId = "@bot:example.org";
+            const asToken = "s3cret";
+            const hsUrl = "https://localhost";
+            const appservice = <Appservice>{ botUserId: botUserId };
+            const targetRoomId = "!a:example.org";
+            const data = Buffer.from("hello");
+            const sendOpts = { filename: "hello.txt", mimetype: "text/plain" };
+            const eventId = "$something:example.org";
+            const storage = new MemoryStorageProvider();
+            const options = <IAppserviceOptions>{
+                homeserverUrl: hsUrl,
+                storage: <IAppserviceStorageProvider>storage,
+                registration: {
+                    as_token: asToken,
+                },
+            };
+
+            const intent = new Intent(options, userId, appservice);
+
+            const registeredSpy = simple.mock(intent, "ensureRegistered").callFn(() => {
+                return Promise.resolve();
+            });
+            const joinSpy = simple.mock(intent, "ensureJoined").callFn((rid) => {
+                expect(rid).toEqual(targetRoomId);
+                return {};
+            });
+            const sendSpy = simple.mock(intent.underlyingClient, "sendVideo").callFn((rid, d, o) => {
+                expect(rid).toEqual(targetRoomId);
+                expect(d).toBe(data);
+                expect(o).toBe(sendOpts);
+                return Promise.resolve(eventId);
+            });
+
+            const result = await intent.sendVideo(targetRoomId, data, sendOpts);
+            expect(result).toEqual(eventId);
+            expect(sendSpy.callCount).toBe(1);
+            expect(registeredSpy.callCount).toBe(1);
+            expect(joinSpy.callCount).toBe(1);
+        });
+    });
+
+    describe('sendAudio', () => {
+        it('should proxy through to the client while ensuring they are registered and joined', async () => {
+            const userId = "@someone:example.org";
+            const botUserId = "@bot:example.org";
+            const asToken = "s3cret";
+            const hsUrl = "https://localhost";
+            const appservice = <Appservice>{ botUserId: botUserId };
+            const targetRoomId = "!a:example.org";
+            const data = Buffer.from("hello");
+            const sendOpts = { filename: "hello.txt", mimetype: "text/plain" };
+            const eventId = "$something:example.org";
+            const storage = new MemoryStorageProvider();
+            const options = <IAppserviceOptions>{
+                homeserverUrl: hsUrl,
+                storage: <IAppserviceStorageProvider>storage,
+                registration: {
+                    as_token: asToken,
+                },
+            };
+
+            const intent = new Intent(options, userId, appservice);
+
+            const registeredSpy = simple.mock(intent, "ensureRegistered").callFn(() => {
+                return Promise.resolve();
+            });
+            const joinSpy = simple.mock(intent, "ensureJoined").callFn((rid) => {
+                expect(rid).toEqual(targetRoomId);
+                return {};
+            });
+            const sendSpy = simple.mock(intent.underlyingClient, "sendAudio").callFn((rid, d, o) => {
+                expect(rid).toEqual(targetRoomId);
+                expect(d).toBe(data);
+                expect(o).toBe(sendOpts);
+                return Promise.resolve(eventId);
+            });
+
+            const result = await intent.sendAudio(targetRoomId, data, sendOpts);
+            expect(result).toEqual(eventId);
+            expect(sendSpy.callCount).toBe(1);
+            expect(registeredSpy.callCount).toBe(1);
+            expect(joinSpy.callCount).toBe(1);
+        });
+    });
+
+    describe('createMedia', () => {
+        it('should proxy through to the client while ensuring they are registered', async () => {
+            const userId = "@someone:example.org";
+            const botUserId = "@bot:example.org";
+            const asToken = "s3cret";
+            const hsUrl = "https://localhost";
+            const appservice = <Appservice>{ botUserId: botUserId };
+            const pending = { contentUri: "mxc://example.org/testing", unusedExpiresAt: 1700000000000 };
+            const storage = new MemoryStorageProvider();
+            const options = <IAppserviceOptions>{
+                homeserverUrl: hsUrl,
+                storage: <IAppserviceStorageProvider>storage,
+                registration: {
+                    as_token: asToken,
+                },
+            };
+
+            const intent = new Intent(options, userId, appservice);
+
+            const registeredSpy = simple.mock(intent, "ensureRegistered").callFn(() => {
+                return Promise.resolve();
+            });
+            const createSpy = simple.mock(intent.underlyingClient, "createMedia").resolveWith(pending);
+
+            const result = await intent.createMedia();
+            expect(result).toEqual(pending);
+            expect(createSpy.callCount).toBe(1);
+            expect(registeredSpy.callCount).toBe(1);
+        });
+    });
+
+    describe('uploadPendingContent', () => {
+        it('should proxy through to the client while ensuring they are registered', async () => {
+            const userId = "@someone:example.org";
+            const botUserId = "@bot:example.org";
+            const asToken = "s3cret";
+            const hsUrl = "https://localhost";
+            const appservice = <Appservice>{ botUserId: botUserId };
+            const mxc = "mxc://example.org/testing";
+            const data = Buffer.from("hello");
+            const uploadOpts = { contentType: "text/plain" };
+            const storage = new MemoryStorageProvider();
+            const options = <IAppserviceOptions>{
+                homeserverUrl: hsUrl,
+                storage: <IAppserviceStorageProvider>storage,
+                registration: {
+                    as_token: asToken,
+                },
+            };
+
+            const intent = new Intent(options, userId, appservice);
+
+            const registeredSpy = simple.mock(intent, "ensureRegistered").callFn(() => {
+                return Promise.resolve();
+            });
+            const uploadSpy = simple.mock(intent.underlyingClient, "uploadPendingContent").callFn((uri, d, o) => {
+                expect(uri).toEqual(mxc);
+                expect(d).toBe(data);
+                expect(o).toBe(uploadOpts);
+                return Promise.resolve();
+            });
+
+            await intent.uploadPendingContent(mxc, data, uploadOpts);
+            expect(uploadSpy.callCount).toBe(1);
+            expect(registeredSpy.callCount).toBe(1);
+        });
+    });
+
     describe('sendText', () => {
         it('should proxy through to the client while ensuring they are registered and joined', async () => {
             const userId = "@someone:example.org";
@@ -1,5 +1,6 @@
 import * as simple from "simple-mock";
 import HttpBackend from 'matrix-mock-request';
+import { Readable } from "stream";
 
 import { EncryptedFile, MatrixClient, MembershipEvent, OTKAlgorithm, RoomEncryptionAlgorithm } from "../../src";
 import { createTestClient, testCryptoStores, TEST_DEVICE_ID } from "../TestUtils";
@@ -475,6 +476,102 @@ describe('CryptoClient', () => {
         });
     });
 
+    describe('media streams', () => {
+        const userId = "@alice:example.org";
+        let client: MatrixClient;
+        let http: HttpBackend;
+
+        async function readAll(stream: Readable): Promise<Buffer> {
+            const chunks = [];
+            for await (const chunk of stream) chunks.push(chunk);
+            return Buffer.concat(chunks);
+        }
+
+        beforeEach(() => testCryptoStores(async (cryptoStoreType) => {
+            const { client: mclient, http: mhttp } = createTestClient(null, userId, cryptoStoreType);
+            client = mclient;
+            http = mhttp;
+
+            await client.cryptoStore.setDeviceId(TEST_DEVICE_ID);
+        }));
+
+        it('should fail when the crypto has not been prepared', async () => {
+            await expect(client.crypto.encryptMediaStream(Readable.from([]))).rejects.toThrow("End-to-end encryption has not initialized");
+        });
+
+        it('should be symmetrical', async () => {
+            bindNullEngine(http);
+            await Promise.all([
+                client.crypto.prepare([]),
+                http.flushAllExpected(),
+            ]);
+
+            const mxc = "mxc://example.org/test";
+            const input = [Buffer.from("this is "), Buffer.from("a test file")];
+            const encrypted = await client.crypto.encryptMediaStream(Readable.from(input));
+            const encryptedData = await readAll(encrypted.stream);
+            const file = await encrypted.file;
+            expect(encryptedData.toString()).not.toEqual("this is a test file");
+            expect(file).toMatchObject({
+                hashes: {
+                    sha256: expect.any(String),
+                },
+                key: {
+                    alg: "A256CTR",
+                    ext: true,
+                    key_ops: ['encrypt', 'decrypt'],
+                    kty: "oct",
+                    k: expect.any(String),
+                },
+                iv: expect.any(String),
+                v: "v2",
+            });
+
+            // The streamed encryption must be compatible with the regular decryption too.
+            client.downloadContent = async () => ({ data: encryptedData, contentType: "application/octet-stream" });
+            expect((await client.crypto.decryptMedia({ url: mxc, ...file })).toString()).toEqual("this is a test file");
+
+            const downloadSpy = simple.stub().callFn(async (u) => {
+                expect(u).toEqual(mxc);
+                return { stream: Readable.from([encryptedData]), contentType: "application/octet-stream" };
+            });
+            client.downloadContentStream = downloadSpy;
+
+            const result = await client.crypto.decryptMediaStream({ url: mxc, ...file });
+            expect((await readAll(result)).toString()).toEqual("this is a test file");
+            expect(downloadSpy.callCount).toBe(1);
+        });
+
+        it('should error if the hash does not match', async () => {
+            bindNullEngine(http);
+            await Promise.all([
+                client.crypto.prepare([]),
+                http.flushAllExpected(),
+            ]);
+
+            const encrypted = await client.crypto.encryptMediaStream(Readable.from([Buffer.from("test")]));
+            const encryptedData = await readAll(encrypted.stream);
+            const file = await encrypted.file;
+            encryptedData[0] ^= 0xff;
+
+            client.downloadContentStream = async () => ({ stream: Readable.from([encryptedData]), contentType: "application/octet-stream" });
+
+            const result = await client.crypto.decryptMediaStream({ url: "mxc://example.org/test", ...file });
+            await expect(readAll(result)).rejects.toThrow("Encrypted file hash does not match");
+        });
+
+        it('should reject unsupported files', async () => {
+            bindNullEngine(http);
+            await Promise.all([
+                client.crypto.prepare([]),
+                http.flushAllExpected(),
+            ]);
+
+            const file = <EncryptedFile><unknown>{ url: "mxc://example.org/test", v: "v1" };
+            await expect(client.crypto.decryptMediaStream(file)).rejects.toThrow("Unsupported or invalid encrypted file");
+        });
+    });
+
     describe('User Tracking', () => {
         const userId = "@alice:example.org";
         let client: MatrixClient;
@@ -1,6 +1,12 @@
 import * as simple from "simple-mock";
 
-import { EncryptionEventContent, MatrixClient, RoomEncryptionAlgorithm, RoomTracker } from "../../src";
+import {
+    EncryptionEventContent,
+    MatrixClient,
+    MemoryRoomStateStorageProvider,
+    RoomEncryptionAlgorithm,
+    RoomTracker,
+} from "../../src";
 import { createTestClient, testCryptoStores, TEST_DEVICE_ID } from "../TestUtils";
 import { bindNullEngine } from "./CryptoClientTest";
 
@@ -171,6 +177,33 @@ describe('RoomTracker', () => {
             expect(stateSpy.callCount).toEqual(1);
             expect(storeSpy.callCount).toEqual(0);
         }));
+
+        it('should use the room state store of the client', () => testCryptoStores(async (cryptoStoreType) => {
+            const roomId = "!b:example.org";
+            const content = { algorithm: RoomEncryptionAlgorithm.MegolmV1AesSha2, rid: "1" };
+
+            const { client, http } = createTestClient(null, "@user:example.org", cryptoStoreType);
+            client.roomStateStore = new MemoryRoomStateStorageProvider();
+            await client.roomStateStore.setRoomStateEvent(roomId, { type: "m.room.encryption", state_key: "", content });
+            await client.roomStateStore.setRoomStateEvent(roomId, {
+                type: "m.room.history_visibility",
+                state_key: "",
+                content: { history_visibility: "joined" },
+            });
+
+            const storeSpy = simple.stub().callFn((rid: string, c: any) => {
+                expect(rid).toEqual(roomId);
+                expect(c).toMatchObject({ ...content, historyVisibility: "joined" });
+                return Promise.resolve();
+            });
+            client.cryptoStore.getRoom = () => Promise.resolve(null);
+            client.cryptoStore.storeRoom = storeSpy;
+
+            const tracker = new RoomTracker(client);
+            await tracker.queueRoomCheck(roomId);
+            expect(storeSpy.callCount).toEqual(1);
+            expect(http.requests.length).toEqual(0);
+        }));
     });
 
     describe('getRoomCryptoConfig', () => {
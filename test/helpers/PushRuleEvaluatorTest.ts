@@ -0,0 +1,267 @@
+import * as simple from "simple-mock";
+
+import { PushRuleEvaluator, PushRules } from "../../src";
+import { createTestClient } from "../TestUtils";
+
+const userId = "@bot:example.org";
+const roomId = "!room:example.org";
+
+function createEvent(body: string, extra: any = {}): any {
+    return {
+        type: "m.room.message",
+        sender: "@alice:example.org",
+        event_id: "$event",
+        content: { msgtype: "m.text", body: body },
+        ...extra,
+    };
+}
+
+function createRules(): PushRules {
+    return {
+        global: {
+            override: [
+                {
+                    rule_id: ".m.rule.master",
+                    default: true,
+                    enabled: false,
+                    actions: [],
+                    conditions: [],
+                },
+                {
+                    rule_id: ".m.rule.suppress_notices",
+                    default: true,
+                    enabled: true,
+                    actions: [],
+                    conditions: [{ kind: "event_match", key: "content.msgtype", pattern: "m.notice" }],
+                },
+                {
+                    rule_id: ".m.rule.contains_display_name",
+                    default: true,
+                    enabled: true,
+                    actions: ["notify", { set_tweak: "sound", value: "default" }, { set_tweak: "highlight" }],
+                    conditions: [{ kind: "contains_display_name" }],
+                },
+                {
+                    rule_id: ".m.rule.roomnotif",
+                    default: true,
+                    enabled: true,
+                    actions: ["notify", { set_tweak: "highlight" }],
+                    conditions: [
+                        { kind: "event_match", key: "content.body", pattern: "@room" },
+                        { kind: "sender_notification_permission", key: "room" },
+                    ],
+                },
+                {
+                    rule_id: ".m.rule.is_user_mention",
+                    default: true,
+                    enabled: true,
+                    actions: ["notify", { set_tweak: "highlight" }],
+                    conditions: [{ kind: "event_property_contains", key: "content.m\\.mentions.user_ids", value: userId }],
+                },
+            ],
+            content: [
+                {
+                    rule_id: "keyword",
+                    default: false,
+                    enabled: true,
+                    actions: ["notify", { set_tweak: "highlight", value: false }],
+                    pattern: "deploy*",
+                },
+            ],
+            room: [
+                {
+                    rule_id: "!muted:example.org",
+                    default: false,
+                    enabled: true,
+                    actions: [],
+                },
+            ],
+            underride: [
+                {
+                    rule_id: ".m.rule.room_one_to_one",
+                    default: true,
+                    enabled: true,
+                    actions: ["notify", { set_tweak: "sound", value: "ring" }],
+                    conditions: [
+                        { kind: "room_member_count", is: "2" },
+                        { kind: "event_match", key: "type", pattern: "m.room.message" },
+                    ],
+                },
+                {
+                    rule_id: ".m.rule.message",
+                    default: true,
+                    enabled: true,
+                    actions: ["notify"],
+                    conditions: [{ kind: "event_property_is", key: "type", value: "m.room.message" }],
+                },
+            ],
+        },
+    };
+}
+
+function createEvaluator() {
+    const { client, http } = createTestClient(null, userId);
+    const evaluator = new PushRuleEvaluator(client);
+    evaluator.setRules(createRules());
+    return { client, http, evaluator };
+}
+
+describe('PushRuleEvaluator', () => {
+    it('should fetch the push rules if they are not known', async () => {
+        const { client } = createTestClient(null, userId);
+        const rules = createRules();
+
+        const getRulesSpy = simple.mock(client, "getPushRules").resolveWith(rules);
+
+        const evaluator = new PushRuleEvaluator(client);
+        expect(await evaluator.getRules()).toBe(rules);
+        expect(await evaluator.getRules()).toBe(rules);
+        expect(getRulesSpy.callCount).toBe(1);
+    });
+
+    it('should use push rules from sync account data', async () => {
+        const { client } = createTestClient(null, userId);
+        const rules = createRules();
+
+        const getRulesSpy = simple.mock(client, "getPushRules").resolveWith({ global: {} });
+
+        const evaluator = new PushRuleEvaluator(client);
+        evaluator.watchWithClient(client);
+        client.emit("account_data", { type: "m.push_rules", content: rules });
+        expect(await evaluator.getRules()).toBe(rules);
+        expect(getRulesSpy.callCount).toBe(0);
+    });
+
+    it('should not notify for events sent by the user', async () => {
+        const { evaluator } = createEvaluator();
+
+        const result = await evaluator.evaluate(roomId, createEvent("hello", { sender: userId }), { memberCount: 2 });
+        expect(result).toEqual({ notify: false, highlight: false, actions: [], rule: null });
+    });
+
+    it('should skip disabled rules and apply override conditions', async () => {
+        const { evaluator } = createEvaluator();
+
+        const event = createEvent("hello");
+        event.content.msgtype = "m.notice";
+        const result = await evaluator.evaluate(roomId, event, { memberCount: 5, displayName: null });
+        expect(result.rule.rule_id).toEqual(".m.rule.suppress_notices");
+        expect(result.notify).toBe(false);
+        expect(result.highlight).toBe(false);
+    });
+
+    it('should match display names at word boundaries', async () => {
+        const { evaluator } = createEvaluator();
+
+        let result = await evaluator.evaluate(roomId, createEvent("hey Bot, are you there?"), { memberCount: 5, displayName: "bot" });
+        expect(result.rule.rule_id).toEqual(".m.rule.contains_display_name");
+        expect(result.notify).toBe(true);
+        expect(result.highlight).toBe(true);
+        expect(result.sound).toEqual("default");
+
+        result = await evaluator.evaluate(roomId, createEvent("robots are great"), { memberCount: 5, displayName: "bot" });
+        expect(result.rule.rule_id).toEqual(".m.rule.message");
+        expect(result.highlight).toBe(false);
+    });
+
+    it('should look up the display name when not supplied', async () => {
+        const { client, evaluator } = createEvaluator();
+
+        const stateSpy = simple.mock(client, "getRoomStateEvent").callFn((rid, type, stateKey) => {
+            expect(rid).toEqual(roomId);
+            expect(type).toEqual("m.room.member");
+            expect(stateKey).toEqual(userId);
+            return Promise.resolve({ membership: "join", displayname: "Helper" });
+        });
+
+        const result = await evaluator.evaluate(roomId, createEvent("thanks helper!"), { memberCount: 5 });
+        expect(result.rule.rule_id).toEqual(".m.rule.contains_display_name");
+        expect(stateSpy.callCount).toBe(1);
+    });
+
+    it('should check sender notification permissions', async () => {
+        const { evaluator } = createEvaluator();
+
+        const powerLevels = { users: { "@alice:example.org": 50 }, notifications: { room: 50 } };
+        let result = await evaluator.evaluate(roomId, createEvent("@room hello"), { memberCount: 5, displayName: null, powerLevels });
+        expect(result.rule.rule_id).toEqual(".m.rule.roomnotif");
+        expect(result.highlight).toBe(true);
+
+        const lowPowerLevels = { users_default: 0, notifications: { room: 50 } };
+        result = await evaluator.evaluate(roomId, createEvent("@room hello"), { memberCount: 5, displayName: null, powerLevels: lowPowerLevels });
+        expect(result.rule.rule_id).toEqual(".m.rule.message");
+    });
+
+    it('should support escaped property keys', async () => {
+        const { evaluator } = createEvaluator();
+
+        const event = createEvent("hello");
+        event.content["m.mentions"] = { user_ids: [userId] };
+        const result = await evaluator.evaluate(roomId, event, { memberCount: 5, displayName: null });
+        expect(result.rule.rule_id).toEqual(".m.rule.is_user_mention");
+        expect(result.highlight).toBe(true);
+    });
+
+    it('should match content rules against the body', async () => {
+        const { evaluator } = createEvaluator();
+
+        const result = await evaluator.evaluate(roomId, createEvent("starting the Deployment now"), { memberCount: 5, displayName: null });
+        expect(result.rule.rule_id).toEqual("keyword");
+        expect(result.notify).toBe(true);
+        expect(result.highlight).toBe(false);
+    });
+
+    it('should match room rules', async () => {
+        const { evaluator } = createEvaluator();
+
+        const result = await evaluator.evaluate("!muted:example.org", createEvent("hello"), { memberCount: 5, displayName: null });
+        expect(result.rule.rule_id).toEqual("!muted:example.org");
+        expect(result.notify).toBe(false);
+    });
+
+    it('should compare room member counts', async () => {
+        const { client, evaluator } = createEvaluator();
+
+        const membersSpy = simple.mock(client, "getJoinedRoomMembers").callFn((rid) => {
+            expect(rid).toEqual(roomId);
+            return Promise.resolve([userId, "@alice:example.org"]);
+        });
+
+        let result = await evaluator.evaluate(roomId, createEvent("hello"), { displayName: null });
+        expect(result.rule.rule_id).toEqual(".m.rule.room_one_to_one");
+        expect(result.sound).toEqual("ring");
+        expect(membersSpy.callCount).toBe(1);
+
+        result = await evaluator.evaluate(roomId, createEvent("hello"), { memberCount: 3, displayName: null });
+        expect(result.rule.rule_id).toEqual(".m.rule.message");
+    });
+
+    it('should not match room member counts which cannot be looked up', async () => {
+        const { client, evaluator } = createEvaluator();
+
+        const membersSpy = simple.mock(client, "getJoinedRoomMembers").rejectWith(new Error("Not in room"));
+
+        const result = await evaluator.evaluate(roomId, createEvent("hello"), { displayName: null });
+        expect(result.rule.rule_id).toEqual(".m.rule.message");
+        expect(membersSpy.callCount).toBe(1);
+    });
+
+    it('should not match unknown conditions', async () => {
+        const { client } = createTestClient(null, userId);
+        const evaluator = new PushRuleEvaluator(client);
+        evaluator.setRules({
+            global: {
+                override: [{
+                    rule_id: "unknown",
+                    default: false,
+                    enabled: true,
+                    actions: ["notify"],
+                    conditions: [{ kind: "org.example.unknown" }],
+                }],
+            },
+        });
+
+        const result = await evaluator.evaluate(roomId, createEvent("hello"));
+        expect(result).toEqual({ notify: false, highlight: false, actions: [], rule: null });
+    });
+});
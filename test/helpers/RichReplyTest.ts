@@ -92,4 +92,30 @@ describe('RichReply', () => {
 
         expect(reply).toMatchObject(expectedReply);
     });
+
+    it('should keep replies in the thread of the event', () => {
+        const inputEvent = {
+            content: {
+                "body": "Hello World",
+                "m.relates_to": {
+                    rel_type: "m.thread",
+                    event_id: "$root:example.org",
+                },
+            },
+            sender: "@abc:example.org",
+            event_id: "$abc:example.org",
+        };
+        const inputRoomId = "!abc:example.org";
+
+        const reply = RichReply.createFor(inputRoomId, inputEvent, "Testing 1234", "Testing 1234");
+
+        expect(reply["m.relates_to"]).toEqual({
+            "rel_type": "m.thread",
+            "event_id": "$root:example.org",
+            "is_falling_back": false,
+            "m.in_reply_to": {
+                "event_id": inputEvent.event_id,
+            },
+        });
+    });
 });
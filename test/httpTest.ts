@@ -0,0 +1,55 @@
+import * as simple from "simple-mock";
+
+import { doHttpRequest, getHttpTransport, IHttpTransport, MatrixError, RequestHttpTransport, setHttpTransport } from "../src";
+
+describe('http', () => {
+    const defaultTransport = getHttpTransport();
+
+    afterEach(() => {
+        setHttpTransport(defaultTransport);
+    });
+
+    it('should default to the request transport', () => {
+        expect(defaultTransport).toBeInstanceOf(RequestHttpTransport);
+    });
+
+    it('should return whatever transport was set', () => {
+        const transport = <IHttpTransport>{};
+        setHttpTransport(transport);
+        expect(getHttpTransport()).toBe(transport);
+    });
+
+    it('should send requests through the transport', async () => {
+        const controller = new AbortController();
+        const transport = {
+            request: simple.stub().callFn((req) => {
+                expect(req).toEqual({
+                    method: "PUT",
+                    url: "https://localhost/test",
+                    qs: { hello: "world" },
+                    headers: { "Authorization": "Bearer token", "Content-Type": "application/json" },
+                    body: JSON.stringify({ test: 1234 }),
+                    timeout: 1000,
+                    binaryResponse: false,
+                    signal: controller.signal,
+                });
+                return Promise.resolve({ statusCode: 200, headers: {}, body: '{"result":true}' });
+            }),
+        } as unknown as IHttpTransport;
+        setHttpTransport(transport);
+
+        const result = await doHttpRequest(
+            "https://localhost", "PUT", "/test", { hello: "world" }, { test: 1234 }, { Authorization: "Bearer token" },
+            1000, false, undefined, false, controller.signal,
+        );
+        expect(result).toEqual({ result: true });
+    });
+
+    it('should reject with Matrix errors from the transport', async () => {
+        setHttpTransport({
+            request: () => Promise.resolve({ statusCode: 403, headers: {}, body: '{"errcode":"M_FORBIDDEN","error":"No"}' }),
+        } as unknown as IHttpTransport);
+
+        await expect(doHttpRequest("https://localhost", "GET", "/test")).rejects.toBeInstanceOf(MatrixError);
+    });
+});
@@ -0,0 +1,131 @@
+import * as simple from "simple-mock";
+
+import { Appservice, AutoAcceptKnocksMixin, BACKFILLED_EVENT_ANNOTATION_KEY } from "../../src";
+import { createTestClient, testDelay } from "../TestUtils";
+
+describe('AutoAcceptKnocksMixin', () => {
+    const roomId = "!test:example.org";
+    const userId = "@knock:example.org";
+
+    function createKnock(membership = "knock"): any {
+        return {
+            type: "m.room.member",
+            state_key: userId,
+            sender: userId,
+            content: { membership: membership },
+        };
+    }
+
+    it('should invite users who knock', async () => {
+        const { client } = createTestClient();
+
+        const stateSpy = simple.mock(client, "getRoomStateEvent").callFn((rid, type, key) => {
+            expect(rid).toEqual(roomId);
+            expect(type).toEqual("m.room.member");
+            expect(key).toEqual(userId);
+            return Promise.resolve({ membership: "knock" });
+        });
+
+        const inviteSpy = simple.mock(client, "inviteUser").callFn((uid, rid) => {
+            expect(uid).toEqual(userId);
+            expect(rid).toEqual(roomId);
+            return Promise.resolve();
+        });
+
+        AutoAcceptKnocksMixin.setupOnClient(client);
+        client.emit("room.event", roomId, createKnock());
+        await testDelay(0);
+        expect(stateSpy.callCount).toBe(1);
+        expect(inviteSpy.callCount).toBe(1);
+    });
+
+    it('should not invite users whose knock was already rejected', async () => {
+        const { client } = createTestClient();
+
+        const stateSpy = simple.mock(client, "getRoomStateEvent").resolveWith({ membership: "leave" });
+        const inviteSpy = simple.mock(client, "inviteUser").resolveWith(null);
+
+        AutoAcceptKnocksMixin.setupOnClient(client);
+        client.emit("room.event", roomId, createKnock());
+        await testDelay(0);
+        expect(stateSpy.callCount).toBe(1);
+        expect(inviteSpy.callCount).toBe(0);
+    });
+
+    it('should ignore backfilled knocks', async () => {
+        const { client } = createTestClient();
+
+        const stateSpy = simple.mock(client, "getRoomStateEvent").resolveWith({ membership: "knock" });
+        const inviteSpy = simple.mock(client, "inviteUser").resolveWith(null);
+
+        AutoAcceptKnocksMixin.setupOnClient(client);
+        client.emit("room.event", roomId, { ...createKnock(), unsigned: { [BACKFILLED_EVENT_ANNOTATION_KEY]: true } });
+        await testDelay(0);
+        expect(stateSpy.callCount).toBe(0);
+        expect(inviteSpy.callCount).toBe(0);
+    });
+
+    it('should ignore other membership events', async () => {
+        const { client } = createTestClient();
+
+        const inviteSpy = simple.mock(client, "inviteUser").resolveWith(null);
+
+        AutoAcceptKnocksMixin.setupOnClient(client);
+        client.emit("room.event", roomId, createKnock("join"));
+        client.emit("room.event", roomId, { type: "m.room.message", sender: userId, content: { membership: "knock" } });
+        await testDelay(0);
+        expect(inviteSpy.callCount).toBe(0);
+    });
+
+    it('should only invite users who pass the conditional', async () => {
+        const { client } = createTestClient();
+
+        simple.mock(client, "getRoomStateEvent").resolveWith({ membership: "knock" });
+        const inviteSpy = simple.mock(client, "inviteUser").resolveWith(null);
+        const conditional = simple.stub().callFn((rid, ev) => {
+            expect(rid).toEqual(roomId);
+            return Promise.resolve(ev["sender"] === userId);
+        });
+
+        AutoAcceptKnocksMixin.setupOnClient(client, conditional);
+        client.emit("room.event", roomId, createKnock());
+        client.emit("room.event", roomId, { ...createKnock(), sender: "@other:example.org", state_key: "@other:example.org" });
+        await testDelay(0);
+        expect(conditional.callCount).toBe(2);
+        expect(inviteSpy.callCount).toBe(1);
+    });
+
+    it('should invite users who knock for appservices', async () => {
+        const appservice = new Appservice({
+            port: 0,
+            bindAddress: '127.0.0.1',
+            homeserverName: 'example.org',
+            homeserverUrl: 'https://localhost',
+            registration: {
+                as_token: "",
+                hs_token: "",
+                sender_localpart: "_bot_",
+                namespaces: {
+                    users: [{ exclusive: true, regex: "@_prefix_.*:.+" }],
+                    rooms: [],
+                    aliases: [],
+                },
+            },
+        });
+        appservice.botIntent.ensureRegistered = () => {
+            return null;
+        };
+
+        simple.mock(appservice.botClient, "getRoomStateEvent").resolveWith({ membership: "knock" });
+        const inviteSpy = simple.mock(appservice.botClient, "inviteUser").callFn((uid, rid) => {
+            expect(uid).toEqual(userId);
+            expect(rid).toEqual(roomId);
+            return Promise.resolve();
+        });
+
+        AutoAcceptKnocksMixin.setupOnAppservice(appservice);
+        appservice.emit("room.event", roomId, createKnock());
+        await testDelay(0);
+        expect(inviteSpy.callCount).toBe(1);
+    });
+});
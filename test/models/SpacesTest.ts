@@ -241,6 +241,112 @@ describe('Space', () => {
         });
     });
 
+    describe('getHierarchy', () => {
+        function createRoom(roomId: string, children: [string, any, number?][] = []): any {
+            return {
+                room_id: roomId,
+                num_joined_members: 1,
+                world_readable: false,
+                guest_can_join: false,
+                children_state: children.map(([childId, content, ts]) => ({
+                    type: "m.space.child",
+                    state_key: childId,
+                    sender: "@alice:example.org",
+                    origin_server_ts: ts ?? 0,
+                    content,
+                })),
+            };
+        }
+
+        it('should build a tree over all pages', async () => {
+            const { client } = createTestClient();
+
+            const spaceId = "!space:example.org";
+            const pages = [
+                {
+                    rooms: [
+                        createRoom(spaceId, [
+                            ["!unordered:example.org", { via: ["example.org"] }, 1],
+                            ["!subspace:example.org", { via: ["example.org"], order: "b" }],
+                            ["!ordered:example.org", { via: ["example.org"], order: "a" }],
+                            ["!removed:example.org", {}],
+                            ["!unknown:example.org", { via: ["example.org"] }],
+                        ]),
+                        createRoom("!ordered:example.org"),
+                    ],
+                    nextBatch: "page2",
+                },
+                {
+                    rooms: [
+                        createRoom("!subspace:example.org", [
+                            ["!nested:example.org", { via: ["example.org"] }],
+                            [spaceId, { via: ["example.org"] }],
+                        ]),
+                        createRoom("!nested:example.org"),
+                        createRoom("!unordered:example.org"),
+                        createRoom("!removed:example.org"),
+                    ],
+                },
+            ];
+
+            const pageSpy = simple.mock(client, "getSpaceHierarchyPage").callFn((roomId, opts) => {
+                expect(roomId).toEqual(spaceId);
+                expect(opts.maxDepth).toEqual(3);
+                expect(opts.suggestedOnly).toEqual(true);
+                return Promise.resolve(opts.from === "page2" ? pages[1] : pages[0]);
+            });
+
+            const space = new Space(spaceId, client);
+            const tree = await space.getHierarchy({ maxDepth: 3, suggestedOnly: true });
+            expect(pageSpy.callCount).toBe(2);
+
+            const simplify = (node) => ({ roomId: node.room.room_id, children: node.children.map(simplify) });
+            expect(simplify(tree)).toEqual({
+                roomId: spaceId,
+                children: [
+                    { roomId: "!ordered:example.org", children: [] },
+                    {
+                        roomId: "!subspace:example.org",
+                        children: [
+                            { roomId: "!nested:example.org", children: [] },
+                        ],
+                    },
+                    { roomId: "!unordered:example.org", children: [] },
+                ],
+            });
+        });
+
+        it('should continue past empty pages', async () => {
+            const { client } = createTestClient();
+
+            const spaceId = "!space:example.org";
+            const pages = {
+                start: { rooms: [], nextBatch: "page2" },
+                page2: { rooms: [createRoom(spaceId, [["!child:example.org", { via: ["example.org"] }]])], nextBatch: "page3" },
+                page3: { rooms: [], nextBatch: "page4" },
+                page4: { rooms: [createRoom("!child:example.org")] },
+            };
+
+            const pageSpy = simple.mock(client, "getSpaceHierarchyPage").callFn((roomId, opts) => {
+                return Promise.resolve(pages[opts.from ?? "start"]);
+            });
+
+            const space = new Space(spaceId, client);
+            const tree = await space.getHierarchy();
+            expect(pageSpy.callCount).toBe(4);
+            expect(tree.children.map(c => c.room.room_id)).toEqual(["!child:example.org"]);
+        });
+
+        it('should fail if the space is not in the hierarchy', async () => {
+            const { client } = createTestClient();
+
+            simple.mock(client, "getSpaceHierarchyPage").resolveWith({ rooms: [] });
+
+            const space = new Space("!space:example.org", client);
+            await expect(space.getHierarchy()).rejects.toThrow("Space is not in its own hierarchy");
+        });
+    });
+
     describe('inviteUser', () => {
         it('should call the right endpoint', async () => {
             const { client } = createTestClient();
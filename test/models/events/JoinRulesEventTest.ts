@@ -8,5 +8,18 @@ describe("JoinRulesEvent", () => {
         const obj = new JoinRulesEvent(ev);
 
         expect(obj.rule).toEqual(ev.content['join_rule']);
+        expect(obj.allowsKnocking).toBe(false);
+        expect(obj.allow).toEqual([]);
+    });
+
+    it("should support knocking join rules", () => {
+        const ev = createMinimalEvent();
+        ev.content['join_rule'] = 'knock_restricted';
+        ev.content['allow'] = [{ type: "m.room_membership", room_id: "!space:example.org" }];
+        const obj = new JoinRulesEvent(ev);
+
+        expect(obj.rule).toEqual('knock_restricted');
+        expect(obj.allowsKnocking).toBe(true);
+        expect(obj.allow).toEqual(ev.content['allow']);
     });
 });
@@ -0,0 +1,26 @@
+import { createMinimalEvent } from "./EventTest";
+import { ReactionEvent } from "../../../src";
+
+describe("ReactionEvent", () => {
+    it("should return the right fields", () => {
+        const ev = createMinimalEvent({
+            "m.relates_to": {
+                rel_type: "m.annotation",
+                event_id: "$target",
+                key: "👍",
+            },
+        });
+        const obj = new ReactionEvent(ev);
+
+        expect(obj.targetEventId).toEqual(ev.content["m.relates_to"].event_id);
+        expect(obj.key).toEqual(ev.content["m.relates_to"].key);
+    });
+
+    it("should tolerate missing relations", () => {
+        const ev = createMinimalEvent({});
+        const obj = new ReactionEvent(ev);
+
+        expect(obj.targetEventId).toBeUndefined();
+        expect(obj.key).toBeUndefined();
+    });
+});
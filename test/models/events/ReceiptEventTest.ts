@@ -0,0 +1,27 @@
+import { createMinimalEvent } from "./EventTest";
+import { ReceiptEvent } from "../../../src";
+
+describe("ReceiptEvent", () => {
+    it("should flatten receipts", () => {
+        const ev = createMinimalEvent({
+            "$first": {
+                "m.read": {
+                    "@alice:example.org": { ts: 1 },
+                    "@bob:example.org": { ts: 2, thread_id: "main" },
+                },
+            },
+            "$second": {
+                "m.read.private": {
+                    "@alice:example.org": { ts: 3, thread_id: "$thread" },
+                },
+            },
+        });
+        const obj = new ReceiptEvent(ev);
+
+        expect(obj.receipts).toEqual([
+            { eventId: "$first", receiptType: "m.read", userId: "@alice:example.org", ts: 1, threadId: undefined },
+            { eventId: "$first", receiptType: "m.read", userId: "@bob:example.org", ts: 2, threadId: "main" },
+            { eventId: "$second", receiptType: "m.read.private", userId: "@alice:example.org", ts: 3, threadId: "$thread" },
+        ]);
+    });
+});
@@ -0,0 +1,18 @@
+import { createMinimalEvent } from "./EventTest";
+import { TypingEvent } from "../../../src";
+
+describe("TypingEvent", () => {
+    it("should return the right fields", () => {
+        const ev = createMinimalEvent({ user_ids: ["@alice:example.org", "@bob:example.org"] });
+        const obj = new TypingEvent(ev);
+
+        expect(obj.userIds).toEqual(ev.content['user_ids']);
+    });
+
+    it("should default to nobody typing", () => {
+        const ev = createMinimalEvent({});
+        const obj = new TypingEvent(ev);
+
+        expect(obj.userIds).toEqual([]);
+    });
+});
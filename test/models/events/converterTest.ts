@@ -2,6 +2,7 @@ import {
     MembershipEvent,
     MessageEvent,
     MessageEventContent,
+    ReactionEvent,
     RoomEvent,
     RoomEventContent,
     StateEvent,
@@ -42,4 +43,12 @@ describe("Event Converter", () => {
         expect(obj.messageType).toEqual(ev['content']['msgtype']);
         expectInstanceOf(MessageEvent, obj);
     });
+
+    it("should return reaction events", () => {
+        const ev = createMinimalEvent({ "m.relates_to": { rel_type: "m.annotation", event_id: "$target", key: "👍" } });
+        ev['type'] = 'm.reaction';
+        const obj = <ReactionEvent>wrapRoomEvent(ev);
+        expect(obj.key).toEqual("👍");
+        expectInstanceOf(ReactionEvent, obj);
+    });
 });
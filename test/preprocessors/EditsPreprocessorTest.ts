@@ -0,0 +1,156 @@
+import * as simple from "simple-mock";
+
+import { EditsPreprocessor, EventKind } from "../../src";
+import { createTestClient } from "../TestUtils";
+
+describe('EditsPreprocessor', () => {
+    const roomId = "!abc123:example.org";
+    const originalEventId = "$original:example.org";
+    const senderId = "@alice:example.org";
+    const newContent = {
+        msgtype: "m.text",
+        body: "Hello world, edited",
+    };
+
+    function createEdit(): any {
+        return {
+            type: "m.room.message",
+            event_id: "$edit:example.org",
+            sender: senderId,
+            content: {
+                "msgtype": "m.text",
+                "body": `* ${newContent.body}`,
+                "m.new_content": newContent,
+                "m.relates_to": {
+                    rel_type: "m.replace",
+                    event_id: originalEventId,
+                },
+            },
+
+            // TODO: Pre-processors need to be able to support events without room_id set
+            room_id: roomId,
+        };
+    }
+
+    it('should only process room events', async () => {
+        const processor = new EditsPreprocessor();
+        const { client } = createTestClient();
+
+        let result = await processor.processEvent(createEdit(), client, EventKind.EphemeralEvent);
+        expect(result).toBeUndefined();
+
+        result = await processor.processEvent(createEdit(), client);
+        expect(result).toBeDefined();
+    });
+
+    it('should only support messages', () => {
+        const processor = new EditsPreprocessor();
+        const types = processor.getSupportedEventTypes();
+        expect(types.length).toBe(1);
+        expect(types).toContain("m.room.message");
+    });
+
+    it('should annotate edits', async () => {
+        const processor = new EditsPreprocessor();
+        const { client } = createTestClient();
+
+        const event = createEdit();
+        const result = await processor.processEvent(event, client);
+        expect(result).toMatchObject({
+            mx_edit: {
+                isEdit: true,
+                targetEventId: originalEventId,
+                latestContent: newContent,
+                originalEvent: null,
+            },
+            content: event.content,
+        });
+    });
+
+    it('should annotate events with bundled edits', async () => {
+        const processor = new EditsPreprocessor();
+        const { client } = createTestClient();
+
+        const event = {
+            type: "m.room.message",
+            event_id: originalEventId,
+            sender: senderId,
+            content: { msgtype: "m.text", body: "Hello world" },
+            unsigned: {
+                "m.relations": {
+                    "m.replace": createEdit(),
+                },
+            },
+        };
+        const result = await processor.processEvent(event, client);
+        expect(result).toMatchObject({
+            mx_edit: {
+                isEdit: false,
+                targetEventId: originalEventId,
+                latestContent: newContent,
+                originalEvent: null,
+            },
+        });
+    });
+
+    it('should ignore events without edits', async () => {
+        const processor = new EditsPreprocessor();
+        const { client } = createTestClient();
+
+        const event = {
+            type: "m.room.message",
+            event_id: originalEventId,
+            sender: senderId,
+            content: {
+                "msgtype": "m.text",
+                "body": "Hello world",
+                "m.relates_to": {
+                    "m.in_reply_to": {
+                        event_id: "$other:example.org",
+                    },
+                },
+            },
+        };
+        const result = await processor.processEvent(event, client);
+        expect(result).toBeUndefined();
+        expect(event["mx_edit"]).toBeUndefined();
+    });
+
+    it('should fetch the original message when instructed', async () => {
+        const { client } = createTestClient();
+
+        const originalEvent = { event_id: originalEventId, sender: senderId, content: { body: "Hello world" } };
+
+        const getEventSpy = simple.mock(client, "getEvent").callFn((rid, evId) => {
+            expect(rid).toEqual(roomId);
+            expect(evId).toEqual(originalEventId);
+            return originalEvent;
+        });
+
+        let processor; let result;
+
+        processor = new EditsPreprocessor();
+        result = await processor.processEvent(createEdit(), client);
+        expect(getEventSpy.callCount).toBe(0);
+        expect(result["mx_edit"]["originalEvent"]).toBeNull();
+
+        processor = new EditsPreprocessor(true);
+        result = await processor.processEvent(createEdit(), client);
+        expect(getEventSpy.callCount).toBe(1);
+        expect(result["mx_edit"]["originalEvent"]).toMatchObject(originalEvent);
+    });
+
+    it('should ignore edits from other senders when fetching the original message', async () => {
+        const { client } = createTestClient();
+
+        simple.mock(client, "getEvent").callFn(() => {
+            return { event_id: originalEventId, sender: "@bob:example.org", content: { body: "Hello world" } };
+        });
+
+        const processor = new EditsPreprocessor(true);
+        const event = createEdit();
+        const result = await processor.processEvent(event, client);
+        expect(result).toBeUndefined();
+        expect(event["mx_edit"]).toBeUndefined();
+    });
+});
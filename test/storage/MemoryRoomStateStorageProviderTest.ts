@@ -0,0 +1,74 @@
+import { MemoryRoomStateStorageProvider } from "../../src";
+
+describe('MemoryRoomStateStorageProvider', () => {
+    it('should track individual state events', async () => {
+        const provider = new MemoryRoomStateStorageProvider();
+
+        const roomId = "!room:example.org";
+        const eventA = { type: "m.room.name", state_key: "", content: { name: "A" } };
+        const eventB = { type: "m.room.name", state_key: "", content: { name: "B" } };
+        const member = { type: "m.room.member", state_key: "@alice:example.org", content: { membership: "join" } };
+
+        expect(await provider.getRoomStateEvent(roomId, "m.room.name", "")).toBeFalsy();
+        await provider.setRoomStateEvent(roomId, eventA);
+        expect(await provider.getRoomStateEvent(roomId, "m.room.name", "")).toEqual(eventA);
+        await provider.setRoomStateEvent(roomId, eventB);
+        expect(await provider.getRoomStateEvent(roomId, "m.room.name", "")).toEqual(eventB);
+        await provider.setRoomStateEvent(roomId, member);
+        expect(await provider.getRoomStateEvent(roomId, "m.room.member", "@alice:example.org")).toEqual(member);
+        expect(await provider.getRoomStateEvent(roomId, "m.room.member", "@bob:example.org")).toBeFalsy();
+        expect(await provider.getRoomStateEvent("!other:example.org", "m.room.name", "")).toBeFalsy();
+    });
+
+    it('should ignore non-state events', async () => {
+        const provider = new MemoryRoomStateStorageProvider();
+
+        const roomId = "!room:example.org";
+        await provider.setRoomStateEvent(roomId, { type: "m.room.message", content: { body: "hello" } });
+        await provider.setRoomState(roomId, [{ type: "m.room.message", content: { body: "hello" } }]);
+        expect(await provider.getRoomState(roomId)).toEqual([]);
+    });
+
+    it('should only return complete room state', async () => {
+        const provider = new MemoryRoomStateStorageProvider();
+
+        const roomId = "!room:example.org";
+        const name = { type: "m.room.name", state_key: "", content: { name: "A" } };
+        const topic = { type: "m.room.topic", state_key: "", content: { topic: "B" } };
+
+        await provider.setRoomStateEvent(roomId, name);
+        expect(await provider.getRoomState(roomId)).toBeFalsy();
+
+        await provider.setRoomState(roomId, [name]);
+        expect(await provider.getRoomState(roomId)).toEqual([name]);
+
+        await provider.setRoomStateEvent(roomId, topic);
+        expect(await provider.getRoomState(roomId)).toEqual([name, topic]);
+    });
+
+    it('should clear room state', async () => {
+        const provider = new MemoryRoomStateStorageProvider();
+
+        const roomId = "!room:example.org";
+        const name = { type: "m.room.name", state_key: "", content: { name: "A" } };
+
+        await provider.setRoomState(roomId, [name]);
+        await provider.clearRoomState(roomId);
+        expect(await provider.getRoomState(roomId)).toBeFalsy();
+        expect(await provider.getRoomStateEvent(roomId, "m.room.name", "")).toBeFalsy();
+    });
+
+    it('should not allow stored events to be mutated', async () => {
+        const provider = new MemoryRoomStateStorageProvider();
+
+        const roomId = "!room:example.org";
+        const name = { type: "m.room.name", state_key: "", content: { name: "A" } };
+
+        await provider.setRoomStateEvent(roomId, name);
+        name.content.name = "B";
+        const stored = await provider.getRoomStateEvent(roomId, "m.room.name", "");
+        expect(stored.content.name).toEqual("A");
+        stored.content.name = "C";
+        expect((await provider.getRoomStateEvent(roomId, "m.room.name", "")).content.name).toEqual("A");
+    });
+});
@@ -0,0 +1,125 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo, connect } from "net";
+import { Readable } from "stream";
+
+import { FetchHttpTransport } from "../../src";
+
+async function listen(server: Server): Promise<string> {
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(<AddressInfo>server.address()).port}`;
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    return Buffer.concat(chunks).toString();
+}
+
+describe('FetchHttpTransport', () => {
+    let server: Server;
+    let serverUrl: string;
+    let handler: (req: IncomingMessage, res: ServerResponse) => void;
+
+    beforeEach(async () => {
+        server = createServer((req, res) => handler(req, res));
+        serverUrl = await listen(server);
+    });
+
+    afterEach(async () => {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should send the request and return the response', async () => {
+        handler = async (req, res) => {
+            expect(req.method).toEqual("PUT");
+            expect(req.url).toEqual("/test?hello=a&hello=b&other=1");
+            expect(req.headers["content-type"]).toEqual("application/json");
+            expect(await readBody(req)).toEqual('{"test":1234}');
+            res.writeHead(404, { "Content-Type": "application/json" });
+            res.end('{"errcode":"M_NOT_FOUND"}');
+        };
+
+        const transport = new FetchHttpTransport();
+        const response = await transport.request({
+            method: "PUT",
+            url: `${serverUrl}/test`,
+            qs: { hello: ["a", "b"], other: 1 },
+            headers: { "Content-Type": "application/json" },
+            body: '{"test":1234}',
+            timeout: 5000,
+        });
+        expect(response.statusCode).toBe(404);
+        expect(response.headers["content-type"]).toEqual("application/json");
+        expect(response.body).toEqual('{"errcode":"M_NOT_FOUND"}');
+    });
+
+    it('should return binary responses as buffers', async () => {
+        handler = (req, res) => res.end(Buffer.from([1, 2, 3]));
+
+        const transport = new FetchHttpTransport();
+        const response = await transport.request({ method: "GET", url: serverUrl, headers: {}, binaryResponse: true });
+        expect(response.body).toEqual(Buffer.from([1, 2, 3]));
+    });
+
+    it('should time out slow requests', async () => {
+        handler = () => {}; // never respond
+
+        const transport = new FetchHttpTransport();
+        await expect(transport.request({ method: "GET", url: serverUrl, headers: {}, timeout: 50 })).rejects.toThrow("Request timed out after 50ms");
+    });
+
+    it('should abort the request when the signal is aborted', async () => {
+        handler = () => {}; // never respond
+
+        const transport = new FetchHttpTransport();
+        const controller = new AbortController();
+        const reason = new Error("Shutting down");
+        const promise = transport.request({ method: "GET", url: serverUrl, headers: {}, timeout: 5000, signal: controller.signal });
+        setTimeout(() => controller.abort(reason), 20);
+        await expect(promise).rejects.toBe(reason);
+    });
+
+    it('should stream request and response bodies', async () => {
+        handler = async (req, res) => {
+            expect(req.headers["transfer-encoding"]).toEqual("chunked");
+            res.end(`echo: ${await readBody(req)}`);
+        };
+
+        const transport = new FetchHttpTransport();
+        const response = await transport.stream({ method: "POST", url: serverUrl, headers: {}, timeout: 5000 }, Readable.from(["hello ", "world"]));
+        expect(response.statusCode).toBe(200);
+
+        const chunks: Buffer[] = [];
+        for await (const chunk of response.body) chunks.push(Buffer.from(chunk));
+        expect(Buffer.concat(chunks).toString()).toEqual("echo: hello world");
+    });
+
+    it('should send requests through the configured proxy', async () => {
+        handler = (req, res) => res.end("proxied");
+
+        const proxy = createServer();
+        const tunnelled: string[] = [];
+        proxy.on("connect", (req, socket, head) => {
+            tunnelled.push(req.url);
+            const [host, port] = req.url.split(":");
+            const upstream = connect(Number(port), host, () => {
+                socket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+                upstream.write(head);
+                upstream.pipe(socket);
+                socket.pipe(upstream);
+            });
+        });
+        const proxyUrl = await listen(proxy);
+
+        try {
+            const transport = new FetchHttpTransport({ proxyUrl });
+            const response = await transport.request({ method: "GET", url: serverUrl, headers: {}, timeout: 5000 });
+            expect(response.body).toEqual("proxied");
+            expect(tunnelled).toEqual([serverUrl.substring("http://".length)]);
+        } finally {
+            proxy.closeAllConnections();
+            await new Promise(resolve => proxy.close(resolve));
+        }
+    });
+});
@@ -0,0 +1,107 @@
+import * as simple from "simple-mock";
+import { PassThrough } from "stream";
+
+import { RequestHttpTransport, setRequestFn } from "../../src";
+
+describe('RequestHttpTransport', () => {
+    it('should pass the request and network configuration to request', async () => {
+        const transport = new RequestHttpTransport({ proxyUrl: "http://proxy.example.org:3128", ca: "CERT" });
+
+        const requestSpy = simple.stub().callFn((params, cb) => {
+            expect(params).toMatchObject({
+                uri: "https://localhost/test",
+                method: "POST",
+                qs: { hello: ["a", "b"] },
+                headers: { "Content-Type": "application/json" },
+                body: "{}",
+                timeout: 1000,
+                encoding: null,
+                proxy: "http://proxy.example.org:3128",
+                ca: "CERT",
+            });
+            cb(null, { statusCode: 201, headers: { "content-type": "application/json" } }, Buffer.from("{}"));
+        });
+        setRequestFn(requestSpy);
+
+        const response = await transport.request({
+            method: "POST",
+            url: "https://localhost/test",
+            qs: { hello: ["a", "b"] },
+            headers: { "Content-Type": "application/json" },
+            body: "{}",
+            timeout: 1000,
+            binaryResponse: true,
+        });
+        expect(requestSpy.callCount).toBe(1);
+        expect(response).toEqual({
+            statusCode: 201,
+            headers: { "content-type": "application/json" },
+            body: Buffer.from("{}"),
+        });
+    });
+
+    it('should abort the request when the signal is aborted', async () => {
+        const transport = new RequestHttpTransport();
+        const controller = new AbortController();
+        const reason = new Error("Shutting down");
+
+        const abortSpy = simple.stub();
+        setRequestFn(() => ({ abort: abortSpy }));
+
+        const promise = transport.request({ method: "GET", url: "https://localhost/test", headers: {}, signal: controller.signal });
+        controller.abort(reason);
+        await expect(promise).rejects.toBe(reason);
+        expect(abortSpy.callCount).toBe(1);
+    });
+
+    it('should abort requests which were already aborted', async () => {
+        const transport = new RequestHttpTransport();
+        const reason = new Error("Shutting down");
+
+        const abortSpy = simple.stub();
+        setRequestFn(() => ({ abort: abortSpy }));
+
+        const promise = transport.request({ method: "GET", url: "https://localhost/test", headers: {}, signal: AbortSignal.abort(reason) });
+        await expect(promise).rejects.toBe(reason);
+        expect(abortSpy.callCount).toBe(1);
+    });
+
+    it('should error a streamed response body when the signal is aborted', async () => {
+        const transport = new RequestHttpTransport();
+        const controller = new AbortController();
+        const reason = new Error("Shutting down");
+
+        const req = Object.assign(new PassThrough(), { abort: simple.stub() });
+        setRequestFn(() => req);
+
+        const promise = transport.stream({ method: "GET", url: "https://localhost/test", headers: {}, signal: controller.signal });
+        req.emit("response", { statusCode: 200, headers: {} });
+        const response = await promise;
+        req.write("partial");
+
+        const errored = new Promise(resolve => response.body.on("error", resolve));
+        controller.abort(reason);
+        expect(await errored).toBe(reason);
+        expect(req.abort.callCount).toBe(1);
+    });
+
+    it('should stop listening for aborts once a streamed response body ends', async () => {
+        const transport = new RequestHttpTransport();
+        const controller = new AbortController();
+
+        const req = Object.assign(new PassThrough(), { abort: simple.stub() });
+        setRequestFn(() => req);
+
+        const promise = transport.stream({ method: "GET", url: "https://localhost/test", headers: {}, signal: controller.signal });
+        req.emit("response", { statusCode: 200, headers: {} });
+        const response = await promise;
+        req.end("done");
+
+        const chunks: Buffer[] = [];
+        for await (const chunk of response.body) chunks.push(chunk);
+        expect(Buffer.concat(chunks).toString()).toEqual("done");
+
+        controller.abort();
+        expect(req.abort.callCount).toBe(0);
+    });
+});